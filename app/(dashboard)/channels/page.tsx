@@ -32,7 +32,9 @@ const CHANNELS: ChannelInfo[] = [
     configFields: [
       { key: "accessToken", label: "Access Token", placeholder: "WhatsApp Business API token" },
       { key: "phoneNumberId", label: "Phone Number ID", placeholder: "e.g. 123456789012345" },
-      { key: "webhookVerifyToken", label: "Webhook Verify Token", placeholder: "Your verify token" },
+      { key: "verifyToken", label: "Webhook Verify Token", placeholder: "Your verify token" },
+      { key: "appSecret", label: "App Secret", placeholder: "Meta app secret (verifies webhook signatures)", type: "password" },
+      { key: "businessAccountId", label: "Business Account ID", placeholder: "WhatsApp Business Account ID (for message templates)" },
     ],
     connectionMethod: "token",
     hasPersonalMode: true,
@@ -101,6 +103,21 @@ const CHANNELS: ChannelInfo[] = [
     ],
     connectionMethod: "api",
   },
+  {
+    type: "email",
+    name: "Email",
+    description: "Answer a mailbox — IMAP for incoming mail, SMTP for replies",
+    configFields: [
+      { key: "imapHost", label: "IMAP Host", placeholder: "imap.example.com" },
+      { key: "imapPort", label: "IMAP Port", placeholder: "993" },
+      { key: "smtpHost", label: "SMTP Host", placeholder: "smtp.example.com" },
+      { key: "smtpPort", label: "SMTP Port", placeholder: "587" },
+      { key: "username", label: "Username", placeholder: "assistant@example.com" },
+      { key: "password", label: "Password", placeholder: "Mailbox or app password", type: "password" },
+      { key: "fromName", label: "Sender Name", placeholder: "Dryads AI" },
+    ],
+    connectionMethod: "config",
+  },
   {
     type: "googlechat",
     name: "Google Chat",
@@ -118,6 +135,7 @@ const CHANNELS: ChannelInfo[] = [
     configFields: [
       { key: "appId", label: "App ID", placeholder: "Microsoft App ID" },
       { key: "appPassword", label: "App Password", placeholder: "Microsoft App Password", type: "password" },
+      { key: "tenantId", label: "Tenant ID", placeholder: "Only for single-tenant bots" },
     ],
     connectionMethod: "oauth",
   },
@@ -128,8 +146,9 @@ const CHANNELS: ChannelInfo[] = [
     configFields: [
       { key: "server", label: "Server", placeholder: "irc.libera.chat" },
       { key: "port", label: "Port", placeholder: "6697" },
-      { key: "channel", label: "Channel", placeholder: "#my-channel" },
+      { key: "channel", label: "Channels (comma-separated)", placeholder: "#my-channel,#another" },
       { key: "nickname", label: "Nickname", placeholder: "dryads-ai" },
+      { key: "saslPassword", label: "SASL Password", placeholder: "NickServ password (optional)", type: "password" },
     ],
     connectionMethod: "config",
   },
@@ -146,7 +165,7 @@ const CHANNELS: ChannelInfo[] = [
   {
     type: "matrix",
     name: "Matrix",
-    description: "Connect via Matrix protocol (Element, etc.)",
+    description: "Connect via Matrix protocol (Element, etc.). Unencrypted rooms only.",
     configFields: [
       { key: "homeserver", label: "Homeserver URL", placeholder: "https://matrix.org" },
       { key: "accessToken", label: "Access Token", placeholder: "Matrix access token" },
@@ -160,7 +179,7 @@ const CHANNELS: ChannelInfo[] = [
     description: "Connect to Twitch chat via IRC",
     configFields: [
       { key: "oauthToken", label: "OAuth Token", placeholder: "oauth:abc123..." },
-      { key: "channel", label: "Channel Name", placeholder: "your_channel" },
+      { key: "channel", label: "Channel Names (comma-separated)", placeholder: "your_channel" },
       { key: "botUsername", label: "Bot Username", placeholder: "dryads_ai_bot" },
     ],
     connectionMethod: "token",
@@ -510,6 +529,10 @@ export default function ChannelsPage() {
         body: JSON.stringify({ channelType, config: formData, enabled, connectionMode: mode }),
       })
       const updated = await res.json()
+      if (!res.ok) {
+        setStatusMessage({ type: "error", text: updated.error || "Failed to save channel." })
+        return
+      }
 
       if (typeof updated.config === "string") {
         try { updated.config = JSON.parse(updated.config) } catch { updated.config = {} }
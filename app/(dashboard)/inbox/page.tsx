@@ -1,11 +1,11 @@
 "use client"
 
 import { useState, useRef, useEffect } from "react"
-import { useInbox, Contact, InboxMessage } from "@/hooks/useInbox"
+import { useInbox, Contact, InboxMessage, SendResult, TemplateMessage } from "@/hooks/useInbox"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Send, Inbox, Wifi, WifiOff } from "lucide-react"
+import { Send, Inbox, Wifi, WifiOff, Check, CheckCheck, AlertCircle, RotateCw, FileText } from "lucide-react"
 
 const CHANNEL_COLORS: Record<string, string> = {
   telegram: "bg-blue-500/20 text-blue-400",
@@ -27,6 +27,142 @@ function ChannelBadge({ type }: { type: string }) {
   )
 }
 
+function DeliveryStatus({ message, onRetry }: { message: InboxMessage; onRetry: (id: string) => Promise<boolean> }) {
+  const [retrying, setRetrying] = useState(false)
+
+  switch (message.deliveryStatus) {
+    case "sent":
+      return <Check className="h-3 w-3" aria-label="Sent" />
+    case "delivered":
+      return <CheckCheck className="h-3 w-3" aria-label="Delivered" />
+    case "read":
+      return <CheckCheck className="h-3 w-3 text-sky-400" aria-label="Read" />
+    case "failed":
+      return (
+        <span className="flex items-center gap-1 text-red-400" title={message.deliveryError || undefined}>
+          <AlertCircle className="h-3 w-3" /> Failed
+          <button
+            type="button"
+            disabled={retrying}
+            onClick={async () => {
+              setRetrying(true)
+              await onRetry(message.id)
+              setRetrying(false)
+            }}
+            className="ml-1 flex items-center gap-0.5 underline disabled:opacity-50"
+          >
+            <RotateCw className={`h-3 w-3 ${retrying ? "animate-spin" : ""}`} /> Retry
+          </button>
+        </span>
+      )
+    default:
+      return null
+  }
+}
+
+interface WaTemplateOption {
+  name: string
+  language: string
+  body: string
+  variableCount: number
+}
+
+/** Picks an approved WhatsApp template and fills its {{n}} variables */
+function TemplateComposer({
+  onSend,
+  onClose,
+}: {
+  onSend: (template: TemplateMessage) => Promise<SendResult>
+  onClose: () => void
+}) {
+  const [templates, setTemplates] = useState<WaTemplateOption[]>([])
+  const [selected, setSelected] = useState("")
+  const [variables, setVariables] = useState<string[]>([])
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch("/api/channels/whatsapp/templates?approved=1")
+      .then((res) => res.json())
+      .then((data) => setTemplates(data.templates || []))
+      .catch(() => setError("Failed to load templates"))
+  }, [])
+
+  const syncTemplates = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/channels/whatsapp/templates", { method: "POST" })
+      const data = await res.json()
+      if (res.ok) {
+        setTemplates((data.templates as (WaTemplateOption & { status: string })[]).filter((t) => t.status === "APPROVED"))
+      } else {
+        setError(data.error || "Template sync failed")
+      }
+    } catch {
+      setError("Template sync failed")
+    }
+    setBusy(false)
+  }
+
+  const template = templates.find((t) => `${t.name}:${t.language}` === selected)
+
+  const handleSend = async () => {
+    if (!template || busy) return
+    setBusy(true)
+    const result = await onSend({ name: template.name, language: template.language, variables })
+    setBusy(false)
+    if (result.ok) onClose()
+    else setError(result.error || "Failed to send template")
+  }
+
+  return (
+    <div className="mb-3 space-y-2 rounded-xl border border-border-glass p-3">
+      <div className="flex gap-2">
+        <select
+          value={selected}
+          onChange={(e) => {
+            setSelected(e.target.value)
+            const next = templates.find((t) => `${t.name}:${t.language}` === e.target.value)
+            setVariables(Array(next?.variableCount || 0).fill(""))
+          }}
+          className="flex-1 rounded-xl border border-border-glass bg-surface-card px-3 py-2 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-teal-500"
+        >
+          <option value="">{templates.length ? "Choose a template..." : "No approved templates"}</option>
+          {templates.map((t) => (
+            <option key={`${t.name}:${t.language}`} value={`${t.name}:${t.language}`}>
+              {t.name} ({t.language})
+            </option>
+          ))}
+        </select>
+        <Button type="button" variant="outline" size="sm" disabled={busy} onClick={syncTemplates}>
+          <RotateCw className="h-4 w-4" /> Sync
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+          Cancel
+        </Button>
+      </div>
+      {template && (
+        <>
+          <p className="whitespace-pre-wrap text-xs text-text-secondary">{template.body}</p>
+          {variables.map((value, i) => (
+            <Input
+              key={i}
+              value={value}
+              onChange={(e) => setVariables((prev) => prev.map((v, j) => (j === i ? e.target.value : v)))}
+              placeholder={`{{${i + 1}}}`}
+            />
+          ))}
+          <Button type="button" size="sm" disabled={busy || variables.some((v) => !v.trim())} onClick={handleSend}>
+            <Send className="h-4 w-4" /> Send template
+          </Button>
+        </>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  )
+}
+
 function ContactList({
   contacts,
   activeContact,
@@ -92,13 +228,17 @@ function MessageThread({
   messages,
   activeContact,
   onSend,
+  onRetry,
 }: {
   messages: InboxMessage[]
   activeContact: { channelType: string; peerId: string } | null
-  onSend: (text: string) => Promise<boolean>
+  onSend: (text: string, template?: TemplateMessage) => Promise<SendResult>
+  onRetry: (messageId: string) => Promise<boolean>
 }) {
   const [input, setInput] = useState("")
   const [sending, setSending] = useState(false)
+  const [sendError, setSendError] = useState<string | null>(null)
+  const [showTemplates, setShowTemplates] = useState(false)
   const bottomRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -118,8 +258,15 @@ function MessageThread({
     const text = input.trim()
     if (!text || sending) return
     setSending(true)
-    setInput("")
-    await onSend(text)
+    setSendError(null)
+    const result = await onSend(text)
+    if (result.ok) {
+      setInput("")
+    } else {
+      setSendError(result.error || "Failed to send message")
+      // Outside WhatsApp's 24-hour window only templates can be sent
+      if (result.code === "window_expired") setShowTemplates(true)
+    }
     setSending(false)
   }
 
@@ -137,6 +284,16 @@ function MessageThread({
           <p className="text-center text-sm text-text-muted">No messages yet</p>
         )}
         {messages.map((msg) => {
+          if (msg.role === "summary") {
+            return (
+              <div key={msg.id} className="mx-auto max-w-[85%] rounded-xl border border-border-glass px-4 py-2 text-xs text-text-secondary">
+                <span className="mb-1 block text-[10px] font-semibold uppercase text-text-muted">
+                  Summary of earlier messages
+                </span>
+                <p className="whitespace-pre-wrap">{msg.content}</p>
+              </div>
+            )
+          }
           const isOutbound = msg.direction === "outbound" || msg.role === "assistant"
           return (
             <div
@@ -158,9 +315,10 @@ function MessageThread({
                   </span>
                 )}
                 <p className="whitespace-pre-wrap">{msg.content}</p>
-                <p className="mt-1 text-[10px] opacity-60">
-                  {new Date(msg.createdAt).toLocaleTimeString()}
-                </p>
+                <div className="mt-1 flex items-center justify-end gap-1.5 text-[10px]">
+                  <span className="opacity-60">{new Date(msg.createdAt).toLocaleTimeString()}</span>
+                  {isOutbound && <DeliveryStatus message={msg} onRetry={onRetry} />}
+                </div>
               </div>
             </div>
           )
@@ -170,6 +328,17 @@ function MessageThread({
 
       {/* Send input */}
       <div className="border-t border-border-glass p-4">
+        {sendError && <p className="mb-2 text-xs text-red-400">{sendError}</p>}
+        {showTemplates && (
+          <TemplateComposer
+            onSend={async (template) => {
+              const result = await onSend("", template)
+              if (result.ok) setSendError(null)
+              return result
+            }}
+            onClose={() => setShowTemplates(false)}
+          />
+        )}
         <form
           onSubmit={(e) => { e.preventDefault(); handleSend() }}
           className="flex gap-2"
@@ -181,6 +350,11 @@ function MessageThread({
             disabled={sending}
             className="flex-1"
           />
+          {activeContact.channelType === "whatsapp" && (
+            <Button type="button" variant="outline" size="sm" title="Send a template" onClick={() => setShowTemplates((v) => !v)}>
+              <FileText className="h-4 w-4" />
+            </Button>
+          )}
           <Button type="submit" size="sm" disabled={!input.trim() || sending}>
             <Send className="h-4 w-4" />
           </Button>
@@ -199,6 +373,7 @@ export default function InboxPage() {
     activeContact,
     selectContact,
     sendMessage,
+    retryMessage,
   } = useInbox()
 
   return (
@@ -249,6 +424,7 @@ export default function InboxPage() {
               messages={messages}
               activeContact={activeContact}
               onSend={sendMessage}
+              onRetry={retryMessage}
             />
           </>
         )}
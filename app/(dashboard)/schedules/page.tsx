@@ -0,0 +1,138 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Pause, Play, Trash2 } from "lucide-react"
+
+interface Schedule {
+  id: string
+  kind: "message" | "prompt"
+  content: string
+  cron: string | null
+  rrule: string | null
+  timezone: string
+  channelType: string | null
+  paused: boolean
+  status: "active" | "paused" | "ended"
+  nextRunAt: string | null
+  lastRunAt: string | null
+  runCount: number
+  lastError: string | null
+}
+
+const STATUS_VARIANT = { active: "success", paused: "warning", ended: "outline" } as const
+
+function formatInZone(iso: string, timeZone: string) {
+  return new Date(iso).toLocaleString(undefined, { timeZone, dateStyle: "medium", timeStyle: "short" })
+}
+
+export default function SchedulesPage() {
+  const [schedules, setSchedules] = useState<Schedule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch("/api/schedules")
+      .then((r) => r.json())
+      .then((data) => {
+        setSchedules(data.schedules || [])
+        setLoading(false)
+      })
+      .catch(() => setLoading(false))
+  }, [])
+
+  const togglePaused = async (schedule: Schedule) => {
+    setBusyId(schedule.id)
+    try {
+      const res = await fetch(`/api/schedules/${schedule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ paused: !schedule.paused }),
+      })
+      const data = await res.json()
+      if (res.ok) {
+        setSchedules((prev) => prev.map((s) => (s.id === schedule.id ? data.schedule : s)))
+      }
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const deleteSchedule = async (id: string) => {
+    await fetch(`/api/schedules/${id}`, { method: "DELETE" })
+    setSchedules((prev) => prev.filter((s) => s.id !== id))
+  }
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-text-primary">Schedules</h1>
+        <p className="text-sm text-text-secondary">
+          Recurring reminders and tasks. Ask the assistant to create one, e.g. &ldquo;every weekday at 9am, remind me to stretch&rdquo;.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-2 border-teal-500 border-t-transparent" />
+        </div>
+      ) : schedules.length === 0 ? (
+        <Card className="py-12 text-center">
+          <p className="text-text-muted">No schedules yet.</p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {schedules.map((schedule) => (
+            <Card key={schedule.id} className="flex items-center justify-between gap-4 p-4">
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="truncate font-medium text-text-primary">{schedule.content}</span>
+                  <Badge variant={STATUS_VARIANT[schedule.status]}>{schedule.status}</Badge>
+                  <Badge variant="outline">{schedule.kind === "prompt" ? "AI task" : "message"}</Badge>
+                  {schedule.channelType && <Badge variant="outline">{schedule.channelType}</Badge>}
+                </div>
+                <div className="mt-1 font-mono text-xs text-text-muted">
+                  {schedule.rrule || schedule.cron} &middot; {schedule.timezone}
+                </div>
+                <div className="mt-1 text-xs text-text-muted">
+                  {schedule.nextRunAt && !schedule.paused
+                    ? `Next: ${formatInZone(schedule.nextRunAt, schedule.timezone)}`
+                    : schedule.paused
+                      ? "Paused"
+                      : "No upcoming runs"}
+                  {schedule.lastRunAt && <> &middot; Last: {formatInZone(schedule.lastRunAt, schedule.timezone)}</>}
+                  {" "}&middot; {schedule.runCount} runs
+                </div>
+                {schedule.lastError && (
+                  <div className="mt-1 text-xs text-red-400">Last error: {schedule.lastError}</div>
+                )}
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                {schedule.status !== "ended" && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={busyId === schedule.id}
+                    onClick={() => togglePaused(schedule)}
+                    title={schedule.paused ? "Resume" : "Pause"}
+                  >
+                    {schedule.paused ? (
+                      <Play className="h-4 w-4 text-text-muted" />
+                    ) : (
+                      <Pause className="h-4 w-4 text-text-muted" />
+                    )}
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => deleteSchedule(schedule.id)} title="Delete">
+                  <Trash2 className="h-4 w-4 text-text-muted" />
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,244 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Card, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { ArrowLeft, Pencil, Pin, PinOff, Trash2, Check, X } from "lucide-react"
+
+interface Memory {
+  id: string
+  fact: string
+  category: string
+  sourceChannel: string | null
+  confidence: number
+  accessCount: number
+  pinned: boolean
+  updatedAt: string
+}
+
+interface Facet {
+  count: number
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  preference: "Preferences",
+  personal_info: "Personal info",
+  interest: "Interests",
+  work: "Work",
+  behavior: "Behavior",
+  general: "General",
+}
+
+export default function MemoryPage() {
+  const [memories, setMemories] = useState<Memory[]>([])
+  const [total, setTotal] = useState(0)
+  const [categories, setCategories] = useState<(Facet & { category: string })[]>([])
+  const [channels, setChannels] = useState<(Facet & { channel: string | null })[]>([])
+  const [allCategories, setAllCategories] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [category, setCategory] = useState("")
+  const [search, setSearch] = useState("")
+  const [query, setQuery] = useState("")
+  const [reloadKey, setReloadKey] = useState(0)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editFact, setEditFact] = useState("")
+  const [editCategory, setEditCategory] = useState("")
+  const [error, setError] = useState("")
+
+  // Debounce the search box
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  useEffect(() => {
+    const params = new URLSearchParams({ limit: "200" })
+    if (category) params.set("category", category)
+    if (query) params.set("q", query)
+
+    fetch(`/api/memory?${params}`)
+      .then((r) => r.json())
+      .then((data) => {
+        setMemories(data.memories || [])
+        setTotal(data.total || 0)
+        setCategories(data.categories || [])
+        setChannels(data.channels || [])
+        setAllCategories(data.allCategories || [])
+        setLoading(false)
+      })
+      .catch(() => setLoading(false))
+  }, [category, query, reloadKey])
+
+  const updateMemory = async (id: string, changes: Partial<Pick<Memory, "fact" | "category" | "pinned">>) => {
+    setError("")
+    const res = await fetch(`/api/memory/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes),
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error || "Failed to update memory")
+      return false
+    }
+    setMemories((prev) => prev.map((m) => (m.id === id ? data.memory : m)))
+    return true
+  }
+
+  const startEdit = (memory: Memory) => {
+    setEditingId(memory.id)
+    setEditFact(memory.fact)
+    setEditCategory(memory.category)
+  }
+
+  const saveEdit = async () => {
+    if (!editingId) return
+    if (await updateMemory(editingId, { fact: editFact, category: editCategory })) {
+      setEditingId(null)
+      setReloadKey((k) => k + 1)
+    }
+  }
+
+  const deleteMemory = async (id: string) => {
+    await fetch(`/api/memory/${id}`, { method: "DELETE" })
+    setMemories((prev) => prev.filter((m) => m.id !== id))
+    setReloadKey((k) => k + 1)
+  }
+
+  const forgetChannel = async (channel: string) => {
+    if (!confirm(`Forget everything the assistant learned on ${channel}? This can't be undone.`)) return
+    await fetch(`/api/memory?channel=${encodeURIComponent(channel)}`, { method: "DELETE" })
+    setReloadKey((k) => k + 1)
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6">
+      <div>
+        <Link href="/settings" className="mb-2 inline-flex items-center gap-1 text-xs text-text-muted hover:text-text-primary">
+          <ArrowLeft className="h-3 w-3" /> Settings
+        </Link>
+        <h1 className="text-2xl font-bold text-text-primary">Memory</h1>
+        <p className="text-sm text-text-secondary">
+          What the assistant remembers about you across conversations. Pinned facts are always used.
+        </p>
+      </div>
+
+      {/* Forget by channel */}
+      {channels.some((c) => c.channel) && (
+        <Card>
+          <CardTitle>Forget by channel</CardTitle>
+          <CardDescription>Delete everything the assistant learned from one channel, including pinned facts.</CardDescription>
+          <div className="mt-4 flex flex-wrap gap-2">
+            {channels.filter((c) => c.channel).map((c) => (
+              <Button key={c.channel} variant="outline" size="sm" onClick={() => forgetChannel(c.channel!)}>
+                <Trash2 className="mr-1.5 h-3.5 w-3.5" />
+                Forget {c.channel} ({c.count})
+              </Button>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {/* Filters */}
+      <div className="space-y-3">
+        <Input placeholder="Search memories..." value={search} onChange={(e) => setSearch(e.target.value)} />
+        <div className="flex flex-wrap gap-2">
+          <Button variant={category === "" ? "default" : "outline"} size="sm" onClick={() => setCategory("")}>
+            All
+          </Button>
+          {categories.map((c) => (
+            <Button
+              key={c.category}
+              variant={category === c.category ? "default" : "outline"}
+              size="sm"
+              onClick={() => setCategory(c.category)}
+            >
+              {CATEGORY_LABELS[c.category] || c.category} ({c.count})
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-2 border-teal-500 border-t-transparent" />
+        </div>
+      ) : memories.length === 0 ? (
+        <Card className="py-12 text-center">
+          <p className="text-text-muted">
+            {query || category ? "No memories match these filters." : "The assistant hasn't remembered anything about you yet."}
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-xs text-text-muted">{total} memories</p>
+          {memories.map((memory) => (
+            <Card key={memory.id} className="p-4">
+              {editingId === memory.id ? (
+                <div className="space-y-3">
+                  <Input value={editFact} onChange={(e) => setEditFact(e.target.value)} maxLength={500} />
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={editCategory}
+                      onChange={(e) => setEditCategory(e.target.value)}
+                      className="rounded-xl border border-border-glass bg-surface-card px-3 py-1.5 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-teal-500"
+                    >
+                      {allCategories.map((c) => (
+                        <option key={c} value={c}>{CATEGORY_LABELS[c] || c}</option>
+                      ))}
+                    </select>
+                    <div className="flex-1" />
+                    <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" onClick={saveEdit} disabled={!editFact.trim()}>
+                      <Check className="mr-1 h-4 w-4" /> Save
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-text-primary">{memory.fact}</p>
+                    <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-text-muted">
+                      {memory.pinned && <Badge variant="default">pinned</Badge>}
+                      {!memory.pinned && memory.confidence < 0.5 && <Badge variant="warning">may be outdated</Badge>}
+                      <Badge variant="outline">{CATEGORY_LABELS[memory.category] || memory.category}</Badge>
+                      {memory.sourceChannel && <span>from {memory.sourceChannel}</span>}
+                      <span>&middot; used {memory.accessCount}×</span>
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateMemory(memory.id, { pinned: !memory.pinned })}
+                      title={memory.pinned ? "Unpin" : "Pin"}
+                    >
+                      {memory.pinned ? (
+                        <PinOff className="h-4 w-4 text-teal-400" />
+                      ) : (
+                        <Pin className="h-4 w-4 text-text-muted" />
+                      )}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => startEdit(memory)} title="Edit">
+                      <Pencil className="h-4 w-4 text-text-muted" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => deleteMemory(memory.id)} title="Delete">
+                      <Trash2 className="h-4 w-4 text-text-muted" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react"
 import { useSession } from "next-auth/react"
+import Link from "next/link"
 import { Card, CardTitle, CardDescription } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -245,6 +246,17 @@ export default function SettingsPage() {
         </div>
       </Card>
 
+      {/* Memory */}
+      <Card className="flex items-center justify-between gap-4">
+        <div>
+          <CardTitle>Memory</CardTitle>
+          <CardDescription>See, correct, pin or forget what the assistant remembers about you</CardDescription>
+        </div>
+        <Link href="/settings/memory">
+          <Button variant="outline" size="sm">Manage</Button>
+        </Link>
+      </Card>
+
       {/* API Keys — Admin only */}
       {isAdmin && (
         <Card>
@@ -5,7 +5,7 @@ import { Card, CardTitle, CardDescription } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
-import { Cpu, ArrowLeft } from "lucide-react"
+import { Cpu, ArrowLeft, Server } from "lucide-react"
 import Link from "next/link"
 
 const DEFAULT_MODELS: Record<string, string> = {
@@ -18,6 +18,7 @@ const PROVIDER_LABELS: Record<string, string> = {
   openai: "OpenAI",
   gemini: "Google Gemini",
   anthropic: "Anthropic (Claude)",
+  local: "Local (Self-hosted)",
 }
 
 /* ── SVG Provider Logos ──────────────────────────────────────────────── */
@@ -50,6 +51,7 @@ const PROVIDER_LOGOS: Record<string, React.FC<{ className?: string }>> = {
   openai: OpenAILogo,
   gemini: GeminiLogo,
   anthropic: AnthropicLogo,
+  local: Server,
 }
 
 export default function AdminAiConfigPage() {
@@ -65,6 +67,7 @@ export default function AdminAiConfigPage() {
   const [savingModel, setSavingModel] = useState(false)
   const [modelSaved, setModelSaved] = useState(false)
   const [activating, setActivating] = useState(false)
+  const [localModels, setLocalModels] = useState<string[]>([])
 
   useEffect(() => {
     fetch("/api/settings/apikeys")
@@ -84,6 +87,7 @@ export default function AdminAiConfigPage() {
           setActiveProvider(data.aiProvider)
           setSelectedModel(`${data.aiProvider}:${data.aiModel}`)
         }
+        setLocalModels(data?.models?.local || [])
       })
       .catch(() => {})
   }, [])
@@ -107,7 +111,9 @@ export default function AdminAiConfigPage() {
   }
 
   const activateProvider = async (provider: string) => {
-    const defaultModel = DEFAULT_MODELS[provider]
+    // Local models are whatever the self-hosted server reports, so default to the first one
+    const defaultModel = provider === "local" ? localModels[0] : DEFAULT_MODELS[provider]
+    if (!defaultModel) return
     const value = `${provider}:${defaultModel}`
     setActivating(true)
     setActiveProvider(provider)
@@ -247,6 +253,51 @@ export default function AdminAiConfigPage() {
         </div>
       </Card>
 
+      {/* Self-hosted */}
+      <Card>
+        <CardTitle className="flex items-center gap-2">
+          Self-hosted Models
+          {localModels.length > 0 && <Badge variant="success">{localModels.length} available</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Run models on your own servers (Ollama, vLLM, llama.cpp) so conversation data never leaves your infrastructure.
+        </CardDescription>
+        <div className="mt-4">
+          <div
+            className={`rounded-2xl border p-5 transition-all duration-200 ${
+              activeProvider === "local"
+                ? "border-teal-500/30 bg-teal-500/[0.08] shadow-md shadow-teal-500/10"
+                : "border-border-glass bg-surface-card opacity-60"
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2.5 text-sm font-medium text-text-primary">
+                <Server className="h-5 w-5" />
+                {PROVIDER_LABELS.local}
+              </label>
+              <button
+                onClick={() => activateProvider("local")}
+                disabled={activating || activeProvider === "local" || localModels.length === 0}
+                className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 focus:ring-offset-surface-card disabled:cursor-default ${
+                  activeProvider === "local" ? "bg-teal-500" : "bg-border-glass-strong"
+                }`}
+              >
+                <span
+                  className={`pointer-events-none inline-block h-5 w-5 rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${
+                    activeProvider === "local" ? "translate-x-5" : "translate-x-0"
+                  }`}
+                />
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-text-muted">
+              {localModels.length > 0
+                ? `Serving: ${localModels.join(", ")}`
+                : "No local server reachable. Set LOCAL_AI_BASE_URL (e.g. http://localhost:11434/v1) and optionally LOCAL_AI_API_KEY."}
+            </p>
+          </div>
+        </div>
+      </Card>
+
       {/* AI Model */}
       <Card>
         <CardTitle className="flex items-center gap-2">
@@ -283,6 +334,13 @@ export default function AdminAiConfigPage() {
                 <option value="anthropic:claude-opus-4-6">Claude Opus 4.6 (Most Capable)</option>
               </optgroup>
             )}
+            {activeProvider === "local" && (
+              <optgroup label="Local (Self-hosted)">
+                {localModels.map((m) => (
+                  <option key={m} value={`local:${m}`}>{m}</option>
+                ))}
+              </optgroup>
+            )}
           </select>
           <p className="text-xs text-text-muted">
             This applies to all users&apos; web chat and new messenger conversations. Changes take effect immediately.
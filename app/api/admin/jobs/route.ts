@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { pool } from "@/lib/db"
+import { replayDeadLetter } from "@/core/middleware/queue"
+
+/** Queue health plus dead-lettered jobs, newest first. ?type= filters by job type. */
+export async function GET(req: Request) {
+  const { error } = await requireAdmin()
+  if (error) return error
+
+  const url = new URL(req.url)
+  const type = url.searchParams.get("type")
+  const limit = Math.min(parseInt(url.searchParams.get("limit") || "50"), 200)
+
+  const countsRes = await pool.query(
+    "SELECT status, COUNT(*)::int AS count FROM job_queue GROUP BY status"
+  )
+  const deadRes = await pool.query(
+    `SELECT id, key, type, payload, attempts, "lastError", "createdAt", "failedAt"
+     FROM job_dead_letter
+     WHERE ($1::text IS NULL OR type = $1)
+     ORDER BY "failedAt" DESC LIMIT $2`,
+    [type, limit]
+  )
+
+  const queue: Record<string, number> = { pending: 0, running: 0 }
+  for (const row of countsRes.rows) queue[row.status] = row.count
+
+  return NextResponse.json({ queue, deadLetters: deadRes.rows })
+}
+
+/** Replay dead-lettered jobs: { id } for one, { all: true } for every one (optionally of { type }) */
+export async function POST(req: Request) {
+  const { error } = await requireAdmin()
+  if (error) return error
+
+  const { id, all, type } = await req.json()
+
+  if (!id && !all) {
+    return NextResponse.json({ error: "id or all required" }, { status: 400 })
+  }
+
+  const ids: string[] = id
+    ? [id]
+    : (
+        await pool.query(
+          'SELECT id FROM job_dead_letter WHERE ($1::text IS NULL OR type = $1) ORDER BY "createdAt" ASC',
+          [type || null]
+        )
+      ).rows.map((r) => r.id)
+
+  let replayed = 0
+  for (const jobId of ids) {
+    if (await replayDeadLetter(jobId)) replayed++
+  }
+
+  if (id && replayed === 0) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ ok: true, replayed })
+}
+
+/** Discard a dead-lettered job for good */
+export async function DELETE(req: Request) {
+  const { error } = await requireAdmin()
+  if (error) return error
+
+  const { id } = await req.json()
+  if (!id) {
+    return NextResponse.json({ error: "id required" }, { status: 400 })
+  }
+
+  await pool.query("DELETE FROM job_dead_letter WHERE id = $1", [id])
+
+  return NextResponse.json({ ok: true })
+}
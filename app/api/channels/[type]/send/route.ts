@@ -3,6 +3,31 @@ import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { pool, cuid } from "@/lib/db"
 import { sendViaGateway } from "@/lib/gateway/client"
+import { sendBusinessMessage, recordSendResult, BusinessSendResult } from "@/lib/whatsapp/cloud-api"
+
+const BUSINESS_ERROR_STATUS: Record<NonNullable<BusinessSendResult["code"]>, number> = {
+  not_configured: 400,
+  window_expired: 422,
+  template_not_found: 404,
+  invalid_variables: 400,
+}
+
+/**
+ * WhatsApp goes through the Cloud API when business mode is requested, or when business is
+ * the user's only enabled WhatsApp mode; personal (Baileys) sends go through the gateway.
+ */
+async function usesCloudApi(userId: string, channelType: string, connectionMode?: string): Promise<boolean> {
+  if (channelType !== "whatsapp" || connectionMode === "personal") return false
+  if (connectionMode === "business") return true
+
+  const res = await pool.query(
+    `SELECT COALESCE("connectionMode", 'business') AS mode FROM "UserChannel"
+     WHERE "userId" = $1 AND "channelType" = 'whatsapp' AND enabled = true`,
+    [userId]
+  )
+  const modes = res.rows.map((r) => r.mode)
+  return modes.includes("business") && !modes.includes("personal")
+}
 
 export async function POST(
   req: Request,
@@ -14,23 +39,40 @@ export async function POST(
   }
 
   const { type: channelType } = await params
-  const { peerId, text, connectionMode } = await req.json()
+  // template: { name, language?, variables? } — WhatsApp Business only
+  const { peerId, text, template, connectionMode } = await req.json()
 
-  if (!peerId || !text?.trim()) {
-    return NextResponse.json({ error: "peerId and text required" }, { status: 400 })
+  if (!peerId || (!text?.trim() && !template?.name)) {
+    return NextResponse.json({ error: "peerId and text or template required" }, { status: 400 })
   }
 
-  // Send via gateway
-  const result = await sendViaGateway(
-    session.user.id,
-    channelType,
-    peerId,
-    text,
-    connectionMode
-  )
+  let content: string = text
+  let businessResult: BusinessSendResult | null = null
+
+  if (await usesCloudApi(session.user.id, channelType, connectionMode)) {
+    businessResult = await sendBusinessMessage(session.user.id, peerId, template ? { template } : { text })
+    if (!businessResult.ok) {
+      const status = businessResult.code ? BUSINESS_ERROR_STATUS[businessResult.code] : 502
+      return NextResponse.json({ error: businessResult.error, code: businessResult.code }, { status })
+    }
+    content = businessResult.content!
+  } else {
+    if (template) {
+      return NextResponse.json({ error: "Templates are only supported for WhatsApp Business" }, { status: 400 })
+    }
 
-  if (!result.ok) {
-    return NextResponse.json({ error: result.error }, { status: 502 })
+    // Send via gateway
+    const result = await sendViaGateway(
+      session.user.id,
+      channelType,
+      peerId,
+      text,
+      connectionMode
+    )
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 502 })
+    }
   }
 
   // Find or create conversation for this channel+peer
@@ -55,9 +97,12 @@ export async function POST(
   const msgId = cuid()
   await pool.query(
     'INSERT INTO "Message" (id, "conversationId", role, content, "channelType", "channelPeer", direction, "createdAt") VALUES ($1, $2, $3, $4, $5, $6, $7, $8)',
-    [msgId, convoId, "user", text, channelType, peerId, "outbound", now]
+    [msgId, convoId, "user", content, channelType, peerId, "outbound", now]
   )
 
+  // Track delivery status reported by the Cloud API webhook
+  if (businessResult) await recordSendResult(msgId, businessResult)
+
   // Update conversation timestamp
   await pool.query('UPDATE "Conversation" SET "updatedAt" = $1 WHERE id = $2', [now, convoId])
 
@@ -69,5 +114,5 @@ export async function POST(
     [cuid(), session.user.id, channelType, peerId, now]
   )
 
-  return NextResponse.json({ ok: true, messageId: msgId, conversationId: convoId })
+  return NextResponse.json({ ok: true, messageId: msgId, conversationId: convoId, content })
 }
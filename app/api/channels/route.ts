@@ -30,6 +30,25 @@ export async function POST(req: Request) {
 
   const mode = connectionMode || "business"
   const now = new Date().toISOString()
+
+  // The shared WhatsApp webhook routes by phone number ID, so each number may belong to one account only
+  if (channelType === "whatsapp" && mode === "business" && config?.phoneNumberId) {
+    config.phoneNumberId = String(config.phoneNumberId).trim()
+    const taken = await pool.query(
+      `SELECT 1 FROM "UserChannel"
+       WHERE "channelType" = 'whatsapp' AND COALESCE("connectionMode", 'business') = 'business'
+         AND "userId" != $1 AND config::jsonb->>'phoneNumberId' = $2
+       LIMIT 1`,
+      [session.user.id, config.phoneNumberId]
+    )
+    if (taken.rows.length > 0) {
+      return NextResponse.json(
+        { error: "This WhatsApp phone number ID is already connected to another account" },
+        { status: 409 }
+      )
+    }
+  }
+
   const configStr = JSON.stringify(config || {})
 
   const existing = await pool.query(
@@ -1,3 +1,4 @@
+import { randomBytes } from "crypto"
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
@@ -49,22 +50,24 @@ export async function POST(req: Request) {
     return NextResponse.json({ ok: data.ok, action: "unregistered" })
   }
 
-  // Register webhook
+  // Register webhook. Telegram echoes secret_token in X-Telegram-Bot-Api-Secret-Token on every update.
+  const webhookSecret = randomBytes(32).toString("hex")
   const res = await fetch(`https://api.telegram.org/bot${botToken}/setWebhook`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
       url: webhookUrl,
       allowed_updates: ["message", "edited_message"],
+      secret_token: webhookSecret,
     }),
   })
   const data = await res.json()
 
   if (data.ok) {
-    // Update channel status
+    // Update channel status and remember the secret the webhook route checks
     await pool.query(
-      'UPDATE "UserChannel" SET status = $1 WHERE "userId" = $2 AND "channelType" = $3',
-      ["connected", session.user.id, "telegram"]
+      'UPDATE "UserChannel" SET status = $1, config = $2 WHERE "userId" = $3 AND "channelType" = $4',
+      ["connected", JSON.stringify({ ...config, webhookSecret }), session.user.id, "telegram"]
     )
   }
 
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import {
+  listTemplates,
+  syncTemplates,
+  getUserBusinessChannel,
+  getTemplateBody,
+  countTemplateVariables,
+  WaTemplate,
+} from "@/lib/whatsapp/cloud-api"
+
+function toResponse(templates: WaTemplate[]) {
+  return templates.map((t) => ({
+    name: t.name,
+    language: t.language,
+    category: t.category,
+    status: t.status,
+    body: getTemplateBody(t),
+    variableCount: countTemplateVariables(t),
+  }))
+}
+
+/** Stored templates. ?approved=1 returns only the ones that can be sent. */
+export async function GET(req: Request) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const approvedOnly = new URL(req.url).searchParams.get("approved") === "1"
+  const templates = await listTemplates(session.user.id, approvedOnly)
+
+  return NextResponse.json({ templates: toResponse(templates) })
+}
+
+/** Syncs templates from the user's WhatsApp Business Account */
+export async function POST() {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const channel = await getUserBusinessChannel(session.user.id)
+  if (!channel?.accessToken || !channel.businessAccountId) {
+    return NextResponse.json(
+      { error: "Set the Access Token and Business Account ID on your WhatsApp channel first" },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const templates = await syncTemplates(session.user.id, channel.businessAccountId, channel.accessToken)
+    return NextResponse.json({ ok: true, templates: toResponse(templates) })
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Sync failed" }, { status: 502 })
+  }
+}
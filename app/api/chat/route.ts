@@ -3,7 +3,31 @@ import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { pool, cuid } from "@/lib/db"
 import { ProviderManager } from "@/core/providers/manager"
-import { ProviderMessage } from "@/core/providers/base"
+import { BaseProvider, ProviderMessage } from "@/core/providers/base"
+import { buildContext, countMessageTokens } from "@/core/middleware/context"
+import { runAgentLoop } from "@/core/middleware/agent"
+import { ToolRegistry } from "@/core/tools/registry"
+import { registerGatewayTools } from "@/core/tools/gateway-tools"
+
+/**
+ * Tools that work without a messaging channel. The rest deliver to or act on the channel a
+ * message came from (reminders, send_message, images) or aren't meant for the dashboard.
+ */
+const WEB_CHAT_TOOLS = [
+  "calculator",
+  "get_datetime",
+  "web_search",
+  "news_search",
+  "url_reader",
+  "summarize_text",
+  "translate",
+  "list_reminders",
+  "cancel_reminder",
+  "snooze_reminder",
+]
+
+const webChatTools = new ToolRegistry()
+registerGatewayTools(webChatTools, WEB_CHAT_TOOLS)
 
 export async function POST(req: Request) {
   const session = await getServerSession(authOptions)
@@ -24,33 +48,39 @@ export async function POST(req: Request) {
     const providerSetting = await pool.query('SELECT value FROM "PlatformSetting" WHERE key = $1', ["activeAiProvider"])
     const modelSetting = await pool.query('SELECT value FROM "PlatformSetting" WHERE key = $1', ["activeAiModel"])
     if (!provider) provider = providerSetting.rows[0]?.value || "openai"
-    if (!resolvedModel) resolvedModel = modelSetting.rows[0]?.value || "gpt-4o"
+    if (!resolvedModel) resolvedModel = modelSetting.rows[0]?.value
   }
 
-  // Get platform API key: admin's key first, then env var fallback
-  const apiKeyRes = await pool.query(
-    `SELECT u."apiKey" FROM "UserApiKey" u
-     JOIN "User" usr ON usr.id = u."userId"
-     WHERE usr.role = 'admin' AND u.provider = $1 LIMIT 1`,
-    [provider]
-  )
-
-  const envKeyMap: Record<string, string> = {
-    openai: "OPENAI_API_KEY",
-    gemini: "GEMINI_API_KEY",
-    anthropic: "ANTHROPIC_API_KEY",
+  if (!ProviderManager.isRegistered(provider)) {
+    return NextResponse.json(
+      { error: `Unknown AI provider "${provider}". Available: ${ProviderManager.getAvailableProviders().join(", ")}` },
+      { status: 400 }
+    )
   }
-  const apiKey = apiKeyRes.rows[0]?.apiKey || process.env[envKeyMap[provider] || "OPENAI_API_KEY"]
-  if (!apiKey) {
+
+  // Get platform API key: admin's key first, then env var fallback
+  const apiKey = await ProviderManager.resolveApiKey(provider)
+  if (!apiKey && ProviderManager.requiresApiKey(provider)) {
     return NextResponse.json(
       { error: `No ${provider} API key configured. Add one in Settings.` },
       { status: 400 }
     )
   }
 
+  const pm = new ProviderManager()
+  let chatProvider: BaseProvider
+  try {
+    chatProvider = pm.getOrCreate(provider, { apiKey })
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : `Failed to initialize ${provider}` },
+      { status: 400 }
+    )
+  }
+
   // Get or create conversation
   let convoId = conversationId
-  let aiModel = resolvedModel || (provider === "gemini" ? "gemini-2.5-flash" : provider === "anthropic" ? "claude-sonnet-4-6" : "gpt-4o")
+  let aiModel = resolvedModel || chatProvider.defaultModel
 
   if (convoId) {
     const existing = await pool.query(
@@ -74,135 +104,75 @@ export async function POST(req: Request) {
   const userMsgId = cuid()
   const now = new Date().toISOString()
   await pool.query(
-    'INSERT INTO "Message" (id, "conversationId", role, content, "createdAt") VALUES ($1, $2, $3, $4, $5)',
-    [userMsgId, convoId, "user", message, now]
+    'INSERT INTO "Message" (id, "conversationId", role, content, "tokenCount", "createdAt") VALUES ($1, $2, $3, $4, $5, $6)',
+    [userMsgId, convoId, "user", message, countMessageTokens({ content: message }, chatProvider, aiModel), now]
   )
 
-  // Build context
-  const messagesRes = await pool.query(
-    'SELECT role, content FROM "Message" WHERE "conversationId" = $1 ORDER BY "createdAt" ASC LIMIT 50',
-    [convoId]
-  )
-
-  const context: ProviderMessage[] = [
-    { role: "system", content: "You are Dryads AI, a helpful AI assistant. You are knowledgeable, friendly, and concise." },
-    ...messagesRes.rows.map((m) => ({ role: m.role as ProviderMessage["role"], content: m.content })),
-  ]
-
-  // Create provider — use existing OpenAI streaming for OpenAI, simple response for Gemini/Anthropic
-  if (provider === "gemini" || provider === "anthropic") {
-    // Gemini/Anthropic: non-streaming response (the AI layer handles tool loops)
-    try {
-      let result: { reply: string; toolsUsed: string[] }
-
-      if (provider === "anthropic") {
-        const { callAnthropic } = await import("@/lib/ai/anthropic.mjs")
-        result = await callAnthropic(apiKey, context, aiModel)
-      } else {
-        const { callGemini } = await import("@/lib/ai/gemini.mjs")
-        result = await callGemini(apiKey, context, aiModel)
-      }
-
-      const fullResponse = result.reply
-
-      // Save assistant message
-      if (fullResponse) {
-        const msgId = cuid()
-        const saveNow = new Date().toISOString()
-        await pool.query(
-          'INSERT INTO "Message" (id, "conversationId", role, content, "createdAt") VALUES ($1, $2, $3, $4, $5)',
-          [msgId, convoId, "assistant", fullResponse, saveNow]
-        )
-        await pool.query(
-          'UPDATE "Conversation" SET "updatedAt" = $1 WHERE id = $2',
-          [saveNow, convoId]
-        )
-      }
-
-      // Return SSE-compatible response
-      const encoder = new TextEncoder()
-      const stream = new ReadableStream({
-        start(controller) {
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({ type: "text", content: fullResponse })}\n\n`)
-          )
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({ type: "done" })}\n\n`)
-          )
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({ type: "end", conversationId: convoId })}\n\n`)
-          )
-          controller.close()
-        },
-      })
-
-      return new Response(stream, {
-        headers: {
-          "Content-Type": "text/event-stream",
-          "Cache-Control": "no-cache",
-          Connection: "keep-alive",
-        },
-      })
-    } catch (err) {
-      const label = provider === "anthropic" ? "Anthropic" : "Gemini"
-      return NextResponse.json(
-        { error: err instanceof Error ? err.message : `${label} error` },
-        { status: 500 }
-      )
-    }
-  }
-
-  // OpenAI: streaming response (existing behavior)
-  const pm = new ProviderManager()
-  const openaiProvider = pm.getOrCreate("openai", { apiKey })
+  // Build context within the model's token budget
+  const context = await buildContext(convoId, {
+    systemPrompt: "You are Dryads AI, a helpful AI assistant. You are knowledgeable, friendly, and concise.",
+    provider: chatProvider,
+    model: aiModel,
+  })
 
+  // Stream the provider's chunks to the browser over SSE while the agent loop runs tools
   const encoder = new TextEncoder()
   const stream = new ReadableStream({
     async start(controller) {
-      let fullResponse = ""
+      const send = (data: Record<string, unknown>) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`))
 
       try {
-        for await (const chunk of openaiProvider.chat(context, { model: aiModel })) {
-          if (chunk.type === "text" && chunk.content) {
-            fullResponse += chunk.content
-            controller.enqueue(
-              encoder.encode(`data: ${JSON.stringify({ type: "text", content: chunk.content })}\n\n`)
-            )
-          }
-          if (chunk.type === "error") {
-            controller.enqueue(
-              encoder.encode(`data: ${JSON.stringify({ type: "error", error: chunk.error })}\n\n`)
-            )
-            break
-          }
-          if (chunk.type === "done") {
-            controller.enqueue(
-              encoder.encode(`data: ${JSON.stringify({ type: "done", usage: chunk.usage })}\n\n`)
-            )
-          }
+        const result = await runAgentLoop(chatProvider, context, {
+          model: aiModel,
+          tools: webChatTools,
+          toolContext: { userId: session.user.id, conversationId: convoId, channelType: "web", channelPeer: "" },
+          onChunk: (chunk) => {
+            if (chunk.type === "text" && chunk.content) send({ type: "text", content: chunk.content })
+          },
+        })
+
+        if (result.error) {
+          send({ type: "error", error: result.error })
+        } else {
+          send({ type: "done", usage: result.usage })
         }
 
-        // Save assistant message
-        if (fullResponse) {
-          const msgId = cuid()
-          const saveNow = new Date().toISOString()
+        // Save tool-calling steps, then the assistant message. Timestamps are staggered so
+        // replay order is preserved.
+        const baseTime = Date.now()
+        const rows: ProviderMessage[] = result.content
+          ? [...result.steps, { role: "assistant", content: result.content }]
+          : result.steps
+        for (let i = 0; i < rows.length; i++) {
+          const row = rows[i]
+          const isAnswer = row.role === "assistant" && !row.toolCalls
           await pool.query(
-            'INSERT INTO "Message" (id, "conversationId", role, content, "createdAt") VALUES ($1, $2, $3, $4, $5)',
-            [msgId, convoId, "assistant", fullResponse, saveNow]
+            'INSERT INTO "Message" (id, "conversationId", role, content, "toolCalls", "toolCallId", "tokenCount", provider, model, "createdAt") VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)',
+            [
+              cuid(),
+              convoId,
+              row.role,
+              row.content,
+              row.toolCalls ? JSON.stringify(row.toolCalls) : null,
+              row.toolCallId || null,
+              (isAnswer && result.usage?.completionTokens) || countMessageTokens(row, chatProvider, aiModel),
+              row.role === "assistant" ? provider : null,
+              row.role === "assistant" ? aiModel : null,
+              new Date(baseTime + i).toISOString(),
+            ]
           )
+        }
+        if (rows.length > 0) {
           await pool.query(
             'UPDATE "Conversation" SET "updatedAt" = $1 WHERE id = $2',
-            [saveNow, convoId]
+            [new Date(baseTime + rows.length - 1).toISOString(), convoId]
           )
         }
 
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify({ type: "end", conversationId: convoId })}\n\n`)
-        )
+        send({ type: "end", conversationId: convoId })
       } catch (err) {
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify({ type: "error", error: err instanceof Error ? err.message : "Unknown error" })}\n\n`)
-        )
+        send({ type: "error", error: err instanceof Error ? err.message : "Unknown error" })
       } finally {
         controller.close()
       }
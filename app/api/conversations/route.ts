@@ -20,15 +20,19 @@ export async function GET(req: Request) {
     if (convoRes.rows.length === 0) {
       return NextResponse.json({ error: "Not found" }, { status: 404 })
     }
+    // Summaries and tool-calling steps are context for the model, not part of the chat
     const messagesRes = await pool.query(
-      'SELECT * FROM "Message" WHERE "conversationId" = $1 ORDER BY "createdAt" ASC',
+      `SELECT * FROM "Message"
+       WHERE "conversationId" = $1 AND role IN ('user', 'assistant') AND "toolCalls" IS NULL
+       ORDER BY "createdAt" ASC`,
       [conversationId]
     )
     return NextResponse.json({ ...convoRes.rows[0], messages: messagesRes.rows })
   }
 
   const result = await pool.query(
-    `SELECT c.*, (SELECT COUNT(*) FROM "Message" WHERE "conversationId" = c.id) as "messageCount"
+    `SELECT c.*, (SELECT COUNT(*) FROM "Message" m
+                   WHERE m."conversationId" = c.id AND m.role IN ('user', 'assistant') AND m."toolCalls" IS NULL) as "messageCount"
      FROM "Conversation" c WHERE c."userId" = $1 ORDER BY c."updatedAt" DESC LIMIT 50`,
     [session.user.id]
   )
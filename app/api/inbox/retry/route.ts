@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { pool } from "@/lib/db"
+import { sendBusinessMessage, recordSendResult } from "@/lib/whatsapp/cloud-api"
+
+/** Resends an outbound WhatsApp message whose delivery failed */
+export async function POST(req: Request) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { messageId } = await req.json()
+  if (!messageId) {
+    return NextResponse.json({ error: "messageId required" }, { status: 400 })
+  }
+
+  const res = await pool.query(
+    `SELECT m.id, m.content, m."deliveryStatus", c."channelType", c."channelPeer"
+     FROM "Message" m
+     JOIN "Conversation" c ON m."conversationId" = c.id
+     WHERE m.id = $1 AND c."userId" = $2`,
+    [messageId, session.user.id]
+  )
+  const message = res.rows[0]
+  if (!message) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+  if (message.deliveryStatus !== "failed") {
+    return NextResponse.json({ error: "Only failed messages can be retried" }, { status: 409 })
+  }
+  if (message.channelType !== "whatsapp") {
+    return NextResponse.json({ error: "Retry is only supported for WhatsApp Business messages" }, { status: 400 })
+  }
+
+  // Resent as free text, so a closed session window is reported rather than failing again at Meta
+  const result = await sendBusinessMessage(session.user.id, message.channelPeer, { text: message.content })
+  if (result.code) {
+    return NextResponse.json({ error: result.error, code: result.code }, { status: result.code === "window_expired" ? 422 : 400 })
+  }
+  await recordSendResult(message.id, result)
+
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: 502 })
+  }
+  return NextResponse.json({ ok: true, status: "sent" })
+}
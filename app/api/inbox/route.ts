@@ -18,10 +18,12 @@ export async function GET(req: Request) {
   // Build query — fetch messages from connector-based conversations
   let query = `
     SELECT m.id, m.role, m.content, m."channelType", m."channelPeer", m.direction, m."createdAt",
+           m."deliveryStatus", m."deliveryError",
            c."channelType" as "convoChannelType", c."channelPeer" as "convoChannelPeer"
     FROM "Message" m
     JOIN "Conversation" c ON m."conversationId" = c.id
     WHERE c."userId" = $1
+      AND m.role != 'tool' AND m.content != ''
   `
   const params: (string | number)[] = [session.user.id]
   let paramIdx = 2
@@ -55,6 +57,8 @@ export async function GET(req: Request) {
     channelType: m.channelType || m.convoChannelType,
     channelPeer: m.channelPeer || m.convoChannelPeer,
     direction: m.direction || "inbound",
+    deliveryStatus: m.deliveryStatus,
+    deliveryError: m.deliveryError,
     createdAt: m.createdAt,
   }))
 
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { pool } from "@/lib/db"
+import { updateMemory, deleteMemory } from "@/lib/memories.mjs"
+
+const STATUS_BY_CODE: Record<string, number> = { not_found: 404, invalid: 400, duplicate: 409 }
+
+/** Edit a memory: { fact?, category?, pinned? } */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  const { fact, category, pinned } = await req.json()
+  if (pinned !== undefined && typeof pinned !== "boolean") {
+    return NextResponse.json({ error: "pinned must be a boolean" }, { status: 400 })
+  }
+
+  const result = await updateMemory(pool, session.user.id, id, { fact, category, pinned })
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error, code: result.code }, { status: (result.code && STATUS_BY_CODE[result.code]) || 400 })
+  }
+
+  return NextResponse.json({ ok: true, memory: result.memory })
+}
+
+/** Delete a memory */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  if (!(await deleteMemory(pool, session.user.id, id))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { pool } from "@/lib/db"
+import { listMemories, getMemoryFacets, forgetChannel, MEMORY_CATEGORIES } from "@/lib/memories.mjs"
+
+/**
+ * What the assistant remembers about the user.
+ * Filters: ?category=, ?channel=, ?q= (text search), ?pinned=1; paged with ?limit= and ?offset=.
+ */
+export async function GET(req: Request) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const url = new URL(req.url)
+  const limit = Math.max(1, Math.min(parseInt(url.searchParams.get("limit") || "50") || 50, 200))
+  const offset = Math.max(parseInt(url.searchParams.get("offset") || "0") || 0, 0)
+
+  const [{ memories, total }, facets] = await Promise.all([
+    listMemories(pool, session.user.id, {
+      category: url.searchParams.get("category") || undefined,
+      channel: url.searchParams.get("channel") || undefined,
+      search: url.searchParams.get("q")?.trim() || undefined,
+      pinned: url.searchParams.get("pinned") === "1" ? true : undefined,
+      limit,
+      offset,
+    }),
+    getMemoryFacets(pool, session.user.id),
+  ])
+
+  return NextResponse.json({ memories, total, ...facets, allCategories: MEMORY_CATEGORIES })
+}
+
+/** Forget everything learned on one channel: ?channel=telegram */
+export async function DELETE(req: Request) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const channel = new URL(req.url).searchParams.get("channel")
+  if (!channel) {
+    return NextResponse.json({ error: "channel required" }, { status: 400 })
+  }
+
+  const deleted = await forgetChannel(pool, session.user.id, channel)
+  return NextResponse.json({ ok: true, deleted })
+}
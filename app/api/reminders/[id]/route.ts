@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { pool } from "@/lib/db"
+import { cancelReminder, snoozeReminder } from "@/lib/reminders.mjs"
+
+/** Snooze a reminder: { minutes } from now, or { remindAt } as an ISO 8601 time */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  const { minutes, remindAt } = await req.json()
+
+  const until = remindAt ? new Date(remindAt) : new Date(Date.now() + (Number(minutes) || 0) * 60_000)
+  if (isNaN(until.getTime()) || until <= new Date()) {
+    return NextResponse.json({ error: "minutes or a future remindAt required" }, { status: 400 })
+  }
+
+  const reminder = await snoozeReminder(pool, session.user.id, id, until)
+  if (!reminder) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ ok: true, reminder })
+}
+
+/** Cancel a pending reminder */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  const reminder = await cancelReminder(pool, session.user.id, id)
+  if (!reminder) {
+    return NextResponse.json({ error: "No pending reminder with that ID" }, { status: 404 })
+  }
+
+  return NextResponse.json({ ok: true, reminder })
+}
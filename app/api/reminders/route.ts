@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { pool } from "@/lib/db"
+import { listReminders } from "@/lib/reminders.mjs"
+
+/** The user's reminders, soonest first. ?all=1 includes delivered, cancelled and failed ones. */
+export async function GET(req: Request) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const url = new URL(req.url)
+  const includePast = url.searchParams.get("all") === "1"
+  const limit = Math.min(parseInt(url.searchParams.get("limit") || "50"), 200)
+
+  const reminders = await listReminders(pool, session.user.id, { includePast, limit })
+  return NextResponse.json({ reminders })
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { pool } from "@/lib/db"
+import { setSchedulePaused, deleteSchedule } from "@/lib/schedules.mjs"
+
+/** Pause or resume a schedule: { paused: boolean } */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  const { paused } = await req.json()
+  if (typeof paused !== "boolean") {
+    return NextResponse.json({ error: "paused (boolean) required" }, { status: 400 })
+  }
+
+  const schedule = await setSchedulePaused(pool, session.user.id, id, paused)
+  if (!schedule) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ ok: true, schedule })
+}
+
+/** Delete a schedule */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  if (!(await deleteSchedule(pool, session.user.id, id))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ ok: true })
+}
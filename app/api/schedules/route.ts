@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { pool } from "@/lib/db"
+import { listSchedules } from "@/lib/schedules.mjs"
+
+/** The user's recurring schedules, next to fire first */
+export async function GET() {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const schedules = await listSchedules(pool, session.user.id)
+  return NextResponse.json({ schedules })
+}
@@ -1,8 +1,9 @@
 import { NextResponse } from "next/server"
 import { requireAuth, requireAdmin } from "@/lib/auth-helpers"
 import { pool } from "@/lib/db"
+import { ProviderManager } from "@/core/providers/manager"
 
-const VALID_PROVIDERS = ["openai", "gemini", "anthropic"]
+const VALID_PROVIDERS = ["openai", "gemini", "anthropic", "local"]
 
 const VALID_MODELS: Record<string, string[]> = {
   openai: ["gpt-5.2-chat-latest", "gpt-4o", "gpt-4o-mini"],
@@ -10,6 +11,35 @@ const VALID_MODELS: Record<string, string[]> = {
   anthropic: ["claude-sonnet-4-6", "claude-haiku-4-5-20251001", "claude-opus-4-6"],
 }
 
+/** How long the self-hosted server's model list is reused before asking it again */
+const LOCAL_MODELS_TTL_MS = 60_000
+
+let localModelsCache: { models: string[]; fetchedAt: number } | null = null
+
+/**
+ * Hosted models plus whatever the self-hosted server currently serves (empty if not configured).
+ * If the server can't be reached, LOCAL_AI_MODEL stands in so the configured model stays selectable.
+ */
+async function getValidModels(): Promise<Record<string, string[]>> {
+  if (localModelsCache && Date.now() - localModelsCache.fetchedAt < LOCAL_MODELS_TTL_MS) {
+    return { ...VALID_MODELS, local: localModelsCache.models }
+  }
+
+  let local: string[] = []
+  try {
+    const provider = new ProviderManager().createProvider("local", {
+      apiKey: process.env[ProviderManager.getEnvKey("local")] || "",
+    })
+    // listModels times out on its own and returns nothing if the server is unreachable
+    local = await provider.listModels()
+    if (local.length === 0 && process.env.LOCAL_AI_MODEL) local = [process.env.LOCAL_AI_MODEL]
+  } catch {
+    // LOCAL_AI_BASE_URL not set — no local models to offer
+  }
+  localModelsCache = { models: local, fetchedAt: Date.now() }
+  return { ...VALID_MODELS, local }
+}
+
 export async function GET() {
   const { error } = await requireAuth()
   if (error) return error
@@ -27,6 +57,7 @@ export async function GET() {
   return NextResponse.json({
     aiProvider: providerRes.rows[0]?.value || "openai",
     aiModel: modelRes.rows[0]?.value || "gpt-4o",
+    models: await getValidModels(),
   })
 }
 
@@ -43,9 +74,10 @@ export async function POST(req: Request) {
     )
   }
 
-  if (!aiModel || !VALID_MODELS[aiProvider]?.includes(aiModel)) {
+  const validModels = await getValidModels()
+  if (!aiModel || !validModels[aiProvider]?.includes(aiModel)) {
     return NextResponse.json(
-      { error: `Invalid model for ${aiProvider}. Supported: ${VALID_MODELS[aiProvider]?.join(", ")}` },
+      { error: `Invalid model for ${aiProvider}. Supported: ${validModels[aiProvider]?.join(", ") || "none"}` },
       { status: 400 }
     )
   }
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server"
+import { pool } from "@/lib/db"
+import { verifyBotFrameworkToken, claimWebhookEvent } from "@/lib/webhook-security"
+import { getEngine } from "@/core/engine"
+import { MSTeamsChannel, TeamsActivity } from "@/core/channels/msteams"
+
+/**
+ * Bot Framework messaging endpoint for the core engine's MSTeamsChannel.
+ * Set https://<host>/api/webhooks/msteams as the Messaging endpoint of the Azure Bot.
+ * Outside production, the Bot Framework Emulator can also post here without credentials
+ * for a Teams channel that has no App ID configured.
+ */
+
+interface TeamsTenant {
+  userId: string
+  config: Record<string, unknown>
+}
+
+/** Channels being connected by an earlier request, so concurrent activities don't connect twice */
+const connecting = new Map<string, Promise<MSTeamsChannel>>()
+
+export async function POST(req: NextRequest) {
+  let activity: TeamsActivity
+  try {
+    activity = await req.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 })
+  }
+  if (!activity?.id || !activity.serviceUrl || !activity.conversation?.id) {
+    return NextResponse.json({ error: "Invalid activity" }, { status: 400 })
+  }
+
+  const tenant = await resolveTenant(req.headers.get("authorization"), activity)
+  if (!tenant) {
+    console.warn("[Teams] Rejected activity with missing or invalid token")
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  // The Bot Framework retries activities that time out; answer each once
+  if (!(await claimWebhookEvent("msteams", `${activity.conversation.id}:${activity.id}`))) {
+    return NextResponse.json({})
+  }
+
+  try {
+    const channel = await getTeamsChannel(tenant)
+    // The engine's handler only enqueues the message, so this returns well within the 15s deadline
+    await channel.handleActivity(activity)
+  } catch (err) {
+    console.error("[Teams] Activity processing error:", err instanceof Error ? err.message : err)
+  }
+
+  return NextResponse.json({})
+}
+
+/** The tenant whose bot (App ID) the token was issued for */
+async function resolveTenant(authorization: string | null, activity: TeamsActivity): Promise<TeamsTenant | null> {
+  const res = await pool.query(
+    `SELECT "userId", config FROM "UserChannel" WHERE "channelType" = 'msteams' AND enabled = true`
+  )
+  const tenants: TeamsTenant[] = res.rows.map((row) => ({
+    userId: row.userId,
+    config: typeof row.config === "string" ? JSON.parse(row.config || "{}") : row.config || {},
+  }))
+
+  if (!authorization) {
+    // The Emulator sends no token when the bot has no App ID; never accepted in production
+    if (process.env.NODE_ENV === "production" || activity.channelId !== "emulator") return null
+    return tenants.find((t) => !t.config.appId) || null
+  }
+
+  const claims = await verifyBotFrameworkToken(authorization, activity)
+  if (!claims) return null
+  return tenants.find((t) => t.config.appId && t.config.appId === claims.aud) || null
+}
+
+/** The tenant's connected MSTeamsChannel, connecting it on first use */
+async function getTeamsChannel(tenant: TeamsTenant): Promise<MSTeamsChannel> {
+  const engine = getEngine()
+  const existing = engine.channels.getChannel(`msteams:${tenant.userId}`)
+  if (existing instanceof MSTeamsChannel && existing.isConnected()) return existing
+
+  let pending = connecting.get(tenant.userId)
+  if (!pending) {
+    pending = engine
+      .connectChannel(tenant.userId, "msteams", tenant.config)
+      .then((channel) => channel as MSTeamsChannel)
+      .finally(() => connecting.delete(tenant.userId))
+    connecting.set(tenant.userId, pending)
+  }
+  return pending
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server"
+import { pool } from "@/lib/db"
+import { verifySlackSignature, claimWebhookEvent } from "@/lib/webhook-security"
+import { getEngine } from "@/core/engine"
+import { SlackChannel, SlackEventsPayload } from "@/core/channels/slack"
+
+/**
+ * Slack Events API endpoint for the core engine's SlackChannel.
+ * Set https://<host>/api/webhooks/slack as the Request URL in the Slack app's Event Subscriptions
+ * (subscribe to message.im, message.channels and app_mention). Workspaces using Socket Mode
+ * don't need it.
+ */
+
+interface SlackTenant {
+  userId: string
+  config: Record<string, unknown>
+}
+
+/** Channels being connected by an earlier request, so concurrent events don't connect twice */
+const connecting = new Map<string, Promise<SlackChannel>>()
+
+export async function POST(req: NextRequest) {
+  // The signature covers the exact bytes Slack sent, so read the raw body before parsing
+  const rawBody = await req.text()
+  const tenant = await resolveTenant(
+    req.headers.get("x-slack-signature"),
+    req.headers.get("x-slack-request-timestamp"),
+    rawBody
+  )
+  if (!tenant) {
+    console.warn("[Slack] Rejected webhook with missing or invalid signature")
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 })
+  }
+
+  let payload: SlackEventsPayload
+  try {
+    payload = JSON.parse(rawBody)
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 })
+  }
+
+  if (payload.type === "url_verification") {
+    return NextResponse.json({ challenge: payload.challenge })
+  }
+
+  // Slack retries events it didn't see acknowledged within 3 seconds; answer each once
+  if (payload.event_id && !(await claimWebhookEvent("slack", payload.event_id))) {
+    return NextResponse.json({ ok: true })
+  }
+
+  try {
+    const channel = await getSlackChannel(tenant)
+    // The engine's handler only enqueues the message, so this returns well within Slack's deadline
+    await channel.handleEventsPayload(payload)
+  } catch (err) {
+    console.error("[Slack] Event processing error:", err instanceof Error ? err.message : err)
+  }
+
+  return NextResponse.json({ ok: true })
+}
+
+/** The tenant whose signing secret produced the signature */
+async function resolveTenant(signature: string | null, timestamp: string | null, rawBody: string): Promise<SlackTenant | null> {
+  if (!signature || !timestamp) return null
+
+  const res = await pool.query(
+    `SELECT "userId", config FROM "UserChannel" WHERE "channelType" = 'slack' AND enabled = true`
+  )
+  for (const row of res.rows) {
+    const config = typeof row.config === "string" ? JSON.parse(row.config || "{}") : row.config || {}
+    if (verifySlackSignature(signature, timestamp, config.signingSecret, rawBody)) {
+      return { userId: row.userId, config }
+    }
+  }
+  return null
+}
+
+/** The tenant's connected SlackChannel, connecting it in Events API mode on first use */
+async function getSlackChannel(tenant: SlackTenant): Promise<SlackChannel> {
+  const engine = getEngine()
+  const existing = engine.channels.getChannel(`slack:${tenant.userId}`)
+  if (existing instanceof SlackChannel && existing.isConnected()) return existing
+
+  let pending = connecting.get(tenant.userId)
+  if (!pending) {
+    pending = engine
+      .connectChannel(tenant.userId, "slack", { ...tenant.config, mode: "events" })
+      .then((channel) => channel as SlackChannel)
+      .finally(() => connecting.delete(tenant.userId))
+    connecting.set(tenant.userId, pending)
+  }
+  return pending
+}
@@ -1,9 +1,29 @@
 import { NextResponse } from "next/server"
+import { pool } from "@/lib/db"
+import { verifyWebhookSecret } from "@/lib/webhook-security"
 
 /**
  * Telegram webhook endpoint — kept as a no-op fallback.
  * The bot now uses long-polling (lib/telegram-bot.ts) instead of webhooks.
+ * Updates must still carry the secret token set at registration; anything else is rejected.
  */
-export async function POST() {
+export async function POST(req: Request) {
+  const token = req.headers.get("x-telegram-bot-api-secret-token")
+  if (!token || !(await isKnownSecret(token))) {
+    console.warn("[Telegram] Rejected webhook request with missing or invalid secret token")
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
   return NextResponse.json({ ok: true })
 }
+
+/** The token must match the secret stored when one of the Telegram channels registered its webhook */
+async function isKnownSecret(token: string): Promise<boolean> {
+  const res = await pool.query(
+    `SELECT config FROM "UserChannel" WHERE "channelType" = 'telegram'`
+  )
+  return res.rows.some((row) => {
+    const config = typeof row.config === "string" ? JSON.parse(row.config || "{}") : row.config || {}
+    return verifyWebhookSecret("token", token, config.webhookSecret)
+  })
+}
@@ -1,16 +1,36 @@
 import { NextRequest, NextResponse } from "next/server"
 import { pool, cuid } from "@/lib/db"
+import { ProviderManager } from "@/core/providers/manager"
+import { BaseProvider } from "@/core/providers/base"
+import { loadHistory } from "@/core/middleware/context"
+import { claimWebhookEvent, verifyWebhookSecret } from "@/lib/webhook-security"
+import { Attachment } from "@/core/channels/base"
+import { transcribeAudio, getOpenAIKeyForUser } from "@/lib/ai/stt.mjs"
+import { countMessageTokens } from "@/lib/ai/tokenizer.mjs"
+import { WA_API, waSend, recordSendResult, applyStatusUpdate, DeliveryStatus } from "@/lib/whatsapp/cloud-api"
 
 /**
  * WhatsApp Business Cloud API — Webhook Handler
  *
  * Middleware Pipeline:
- *   Meta Webhook → Receive → Session → AI (+ Tools) → Store → Send → WhatsApp
+ *   Meta Webhook → Receive → Session → Media → AI (+ Tools) → Store → Send → WhatsApp
  *
  * Now supports multi-provider AI routing (OpenAI, Gemini, Anthropic).
+ *
+ * Delivery statuses (sent/delivered/read/failed) for our replies arrive on the same webhook
+ * and are recorded on the outbound Message rows (see lib/whatsapp/cloud-api).
+ *
+ * Multi-tenant: many businesses share this webhook URL. Each message is routed to the
+ * UserChannel whose config.phoneNumberId matches the message's metadata.phone_number_id.
  */
 
-const WA_API = "https://graph.facebook.com/v21.0"
+const SUPPORTED_TYPES = ["text", "image", "audio", "video", "document", "location"]
+
+/** Largest media file fetched from the Graph API */
+const MAX_MEDIA_BYTES = 25 * 1024 * 1024
+
+/** Larger images are kept as attachments but not sent to the model (provider request limits) */
+const MAX_VISION_IMAGE_BYTES = 5 * 1024 * 1024
 
 // ── GET: Webhook Verification (Meta Challenge-Response) ──────────────
 
@@ -20,9 +40,7 @@ export async function GET(req: NextRequest) {
   const token = params.get("hub.verify_token")
   const challenge = params.get("hub.challenge")
 
-  const verifyToken = await getVerifyToken()
-
-  if (mode === "subscribe" && token === verifyToken) {
+  if (mode === "subscribe" && token && (await isValidVerifyToken(token))) {
     console.log("[WA] Webhook verified")
     return new Response(challenge, { status: 200 })
   }
@@ -34,7 +52,25 @@ export async function GET(req: NextRequest) {
 // ── POST: Receive Messages from WhatsApp ─────────────────────────────
 
 export async function POST(req: NextRequest) {
-  const body = await req.json()
+  // The signature covers the exact bytes Meta sent, so read the raw body before parsing
+  const rawBody = await req.text()
+  const signature = req.headers.get("x-hub-signature-256")
+  if (!signature) {
+    console.warn("[WA] Rejected unsigned webhook request")
+    return NextResponse.json({ error: "Missing signature" }, { status: 401 })
+  }
+
+  let body: WebhookBody
+  try {
+    body = JSON.parse(rawBody)
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 })
+  }
+
+  if (!(await verifyDelivery(body, rawBody, signature))) {
+    console.warn("[WA] Rejected webhook with invalid signature")
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 })
+  }
 
   processWebhook(body).catch((err) => {
     console.error("[WA] Processing error:", err.message)
@@ -45,39 +81,81 @@ export async function POST(req: NextRequest) {
 
 // ── Message Processing Pipeline ──────────────────────────────────────
 
-async function processWebhook(body: WebhookBody) {
-  const entry = body.entry?.[0]
-  const changes = entry?.changes?.[0]
-  const value = changes?.value
+/**
+ * Every number in the delivery must belong to a tenant whose app secret produced the signature,
+ * so one tenant's Meta app can't inject messages into another tenant's number.
+ * WHATSAPP_APP_SECRET covers channels without their own appSecret.
+ */
+async function verifyDelivery(body: WebhookBody, rawBody: string, signature: string): Promise<boolean> {
+  const phoneNumberIds = new Set<string>()
+  for (const entry of body.entry || []) {
+    for (const change of entry.changes || []) {
+      if (change.value?.metadata?.phone_number_id) phoneNumberIds.add(change.value.metadata.phone_number_id)
+    }
+  }
+  if (phoneNumberIds.size === 0) {
+    return verifyWebhookSecret("hmac-sha256", signature, process.env.WHATSAPP_APP_SECRET, rawBody)
+  }
 
-  if (!value?.messages?.length) return
+  for (const phoneNumberId of phoneNumberIds) {
+    const channel = await resolveChannel(phoneNumberId)
+    const secret = channel?.config.appSecret || process.env.WHATSAPP_APP_SECRET
+    if (!verifyWebhookSecret("hmac-sha256", signature, secret, rawBody)) return false
+  }
+  return true
+}
+
+async function processWebhook(body: WebhookBody) {
+  // One delivery can batch changes for several numbers, each possibly owned by a different tenant
+  for (const entry of body.entry || []) {
+    for (const change of entry.changes || []) {
+      const value = change.value
+      for (const message of value?.messages || []) {
+        const contact = value.contacts?.find((c) => c.wa_id === message.from) || value.contacts?.[0]
+        await processMessage(value.metadata, message, contact)
+      }
+      for (const status of value?.statuses || []) {
+        await processStatus(status).catch((err) => {
+          console.error(`[WA:Status] Failed to record ${status.status} for ${status.id}:`, err instanceof Error ? err.message : err)
+        })
+      }
+    }
+  }
+}
 
-  const message = value.messages[0]
-  const contact = value.contacts?.[0]
-  const metadata = value.metadata
+async function processMessage(metadata: WaMetadata, message: WaMessage, contact?: WaContact) {
+  // Meta redelivers webhooks it considers unacknowledged; answer each message once
+  if (!(await claimWebhookEvent("whatsapp", message.id))) {
+    console.log(`[WA] Skipping duplicate delivery of message ${message.id}`)
+    return
+  }
 
-  if (message.type !== "text") {
-    console.log(`[WA] Skipping non-text message type: ${message.type}`)
+  if (!SUPPORTED_TYPES.includes(message.type)) {
+    console.log(`[WA] Skipping unsupported message type: ${message.type}`)
     return
   }
 
   const ctx: WaContext = {
     phoneNumberId: metadata.phone_number_id,
     from: message.from,
-    text: message.text.body.trim(),
+    text: (message.text?.body || "").trim(),
+    messageType: message.type,
     messageId: message.id,
     userName: contact?.profile?.name || "User",
     timestamp: message.timestamp,
     startTime: Date.now(),
     toolsUsed: [],
+    attachments: [],
+    images: [],
   }
 
-  if (!ctx.text) return
+  if (message.type === "text" && !ctx.text) return
 
-  console.log(`[WA:Receive] From ${ctx.userName} (${ctx.from}): "${ctx.text.slice(0, 60)}"`)
+  console.log(`[WA:Receive] From ${ctx.userName} (${ctx.from}): ${message.type === "text" ? `"${ctx.text.slice(0, 60)}"` : `[${message.type}]`}`)
 
   try {
     await sessionMiddleware(ctx)
+    if (!(await mediaMiddleware(ctx, message))) return
     await aiMiddleware(ctx)
     await storeMiddleware(ctx)
     await sendMiddleware(ctx)
@@ -95,19 +173,28 @@ async function processWebhook(body: WebhookBody) {
   }
 }
 
+async function processStatus(status: WaStatus) {
+  const error = status.errors?.[0]
+  const errorText = error ? `${error.title || error.message || "Send failed"}${error.code ? ` (${error.code})` : ""}` : undefined
+  const at = status.timestamp ? new Date(Number(status.timestamp) * 1000) : new Date()
+
+  const tracked = await applyStatusUpdate(status.id, status.status, at, errorText)
+  if (status.status === "failed") {
+    console.warn(`[WA:Status] Message ${status.id} to ${status.recipient_id} failed: ${errorText}`)
+  } else if (!tracked) {
+    console.log(`[WA:Status] No tracked message for ${status.id} (${status.status})`)
+  }
+}
+
 // ── Session Middleware ────────────────────────────────────────────────
 
 async function sessionMiddleware(ctx: WaContext) {
-  // Find the WhatsApp channel owner
-  const channelRes = await pool.query(
-    'SELECT "userId", config FROM "UserChannel" WHERE "channelType" = $1 AND enabled = true LIMIT 1',
-    ["whatsapp"]
-  )
-  if (channelRes.rows.length === 0) throw new Error("No WhatsApp channel configured")
+  // Find the tenant that owns the receiving business number
+  const channel = await findChannelByPhoneNumberId(ctx.phoneNumberId)
+  if (!channel) throw new Error(`No WhatsApp channel configured for phone number ID ${ctx.phoneNumberId}`)
 
-  ctx.userId = channelRes.rows[0].userId
-  const rawConfig = channelRes.rows[0].config
-  const config = typeof rawConfig === "string" ? JSON.parse(rawConfig) : rawConfig
+  ctx.userId = channel.userId
+  const config = channel.config
   ctx.accessToken = config.accessToken
   if (!ctx.accessToken) throw new Error("No WhatsApp access token configured")
 
@@ -157,23 +244,144 @@ async function sessionMiddleware(ctx: WaContext) {
     ctx.convoId = cuid()
     await pool.query(
       'INSERT INTO "Conversation" (id, "userId", "channelType", "channelPeer", title, "aiModel", "aiProvider", "createdAt", "updatedAt") VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)',
-      [ctx.convoId, ctx.userId, "whatsapp", ctx.from, ctx.text.slice(0, 50), ctx.aiModel, ctx.aiProvider, ctx.now, ctx.now]
+      [ctx.convoId, ctx.userId, "whatsapp", ctx.from, ctx.text.slice(0, 50) || `[${ctx.messageType}]`, ctx.aiModel, ctx.aiProvider, ctx.now, ctx.now]
     )
   }
 
-  // Load recent history
-  const historyRes = await pool.query(
-    'SELECT role, content FROM "Message" WHERE "conversationId" = $1 ORDER BY "createdAt" DESC LIMIT 10',
-    [ctx.convoId]
-  )
-  ctx.history = historyRes.rows.reverse()
+  // Load as much history as fits the model's budget, plus the rolling summary of older turns.
+  // The provider is only used for token counting and for summarizing overflowing turns.
+  let provider: BaseProvider | undefined
+  try {
+    provider = new ProviderManager().getOrCreate(ctx.aiProvider!, { apiKey: ctx.apiKey!, model: ctx.aiModel })
+  } catch (err) {
+    console.error("[WA:Session] Provider unavailable for summarization:", err instanceof Error ? err.message : err)
+  }
+  const { summary, messages } = await loadHistory(ctx.convoId!, {
+    systemPrompt: buildSystemPrompt(),
+    provider,
+    model: ctx.aiModel,
+  })
+  ctx.summary = summary
+  ctx.history = messages.filter((m) => m.role === "user" || m.role === "assistant")
 
-  console.log(`[WA:Session] Conversation ${(ctx.convoId || "").slice(0, 8)}... | Provider: ${ctx.aiProvider} | Model: ${ctx.aiModel} | ${(ctx.history || []).length} prior messages`)
+  console.log(`[WA:Session] Conversation ${(ctx.convoId || "").slice(0, 8)}... | Provider: ${ctx.aiProvider} | Model: ${ctx.aiModel} | ${(ctx.history || []).length} prior messages${ctx.summary ? " + summary" : ""}`)
+}
+
+// ── Media Middleware ──────────────────────────────────────────────────
+
+/**
+ * Maps media and location messages to Attachments and turns them into something the model
+ * can use: images go to vision models, voice notes are transcribed, everything else is
+ * described in the message text. Returns false if the message can't be processed.
+ */
+async function mediaMiddleware(ctx: WaContext, message: WaMessage): Promise<boolean> {
+  if (message.type === "text") return true
+
+  if (message.type === "location" && message.location) {
+    const { latitude, longitude, name, address } = message.location
+    const label = [name, address].filter(Boolean).join(", ")
+    ctx.attachments.push({
+      type: "location",
+      url: `https://maps.google.com/?q=${latitude},${longitude}`,
+      name: label || undefined,
+    })
+    ctx.text = `[Location] ${label ? `${label} ` : ""}(${latitude}, ${longitude})`
+    return true
+  }
+
+  const media = message.image || message.audio || message.video || message.document
+  if (!media) return false
+
+  const caption = (media.caption || "").trim()
+  const attachment: Attachment = {
+    type: message.type === "document" ? "file" : (message.type as Attachment["type"]),
+    // Graph media IDs stay retrievable (with the channel's token) after the download URL expires
+    url: `${WA_API}/${media.id}`,
+    name: media.filename,
+    mimeType: media.mime_type,
+  }
+  ctx.attachments.push(attachment)
+
+  if (message.type === "image") {
+    const file = await downloadMedia(media.id, ctx.accessToken!)
+    attachment.size = file.size
+    if (file.size <= MAX_VISION_IMAGE_BYTES) {
+      ctx.images.push({ mimeType: file.mimeType, data: file.buffer.toString("base64") })
+    }
+    ctx.text = caption || "[Image]"
+    return true
+  }
+
+  if (message.type === "audio") {
+    const openaiKey = await getOpenAIKeyForUser(pool, ctx.userId)
+    if (!openaiKey) {
+      console.error("[WA:Voice] No OpenAI key for STT — skipping voice note")
+      await waSend(ctx.phoneNumberId, ctx.accessToken!, ctx.from, "⚙️ Voice transcription requires an OpenAI API key. Add one in Settings.")
+      return false
+    }
+
+    try {
+      const file = await downloadMedia(media.id, ctx.accessToken!)
+      attachment.size = file.size
+      // Voice notes arrive as OGG/Opus; Whisper detects the format from the extension
+      const ext = file.mimeType.includes("ogg") ? "ogg" : file.mimeType.split("/")[1]?.split(";")[0] || "ogg"
+      const stt = await transcribeAudio(openaiKey, file.buffer, { filename: `voice.${ext}` })
+      ctx.text = stt.text.trim()
+    } catch (err) {
+      console.error("[WA:Voice] STT error:", err instanceof Error ? err.message : err)
+    }
+
+    if (!ctx.text) {
+      await waSend(ctx.phoneNumberId, ctx.accessToken!, ctx.from, "Sorry, I couldn't understand the voice message. Please try again or type your message.")
+      return false
+    }
+    console.log(`[WA:Voice] Transcribed: "${ctx.text.slice(0, 80)}"`)
+    return true
+  }
+
+  // Video and documents aren't sent to the model, so only their metadata is fetched
+  const info = await getMediaInfo(media.id, ctx.accessToken!)
+  attachment.size = info.file_size
+  attachment.mimeType = info.mime_type || attachment.mimeType
+  const label = message.type === "video" ? "[Video]" : `[Document: ${media.filename || attachment.mimeType || "file"}]`
+  ctx.text = caption ? `${label} ${caption}` : label
+  return true
+}
+
+/** Looks up a media object's short-lived download URL and metadata */
+async function getMediaInfo(mediaId: string, accessToken: string): Promise<WaMediaInfo> {
+  const res = await fetch(`${WA_API}/${mediaId}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  })
+  const data = await res.json()
+  if (data.error || !data.url) throw new Error(`Media lookup failed: ${data.error?.message || `HTTP ${res.status}`}`)
+  return data
+}
+
+async function downloadMedia(
+  mediaId: string,
+  accessToken: string
+): Promise<{ buffer: Buffer; mimeType: string; size: number }> {
+  const info = await getMediaInfo(mediaId, accessToken)
+  if (info.file_size && info.file_size > MAX_MEDIA_BYTES) {
+    throw new Error(`Media too large (${info.file_size} bytes)`)
+  }
+
+  // The download URL also requires the access token
+  const res = await fetch(info.url, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+    signal: AbortSignal.timeout(30000),
+  })
+  if (!res.ok) throw new Error(`Media download failed: HTTP ${res.status}`)
+  const buffer = Buffer.from(await res.arrayBuffer())
+  if (!buffer.length) throw new Error("Downloaded media is empty")
+
+  return { buffer, mimeType: info.mime_type, size: buffer.length }
 }
 
 // ── AI Middleware (Multi-Provider + Tools) ────────────────────────────
 
-function buildSystemPrompt(): string {
+function buildSystemPrompt(summary?: string): string {
   const now = new Date()
   const dateStr = now.toLocaleDateString("en-US", {
     weekday: "long",
@@ -201,12 +409,16 @@ RULES:
 
 IDENTITY:
 - You are Dryads AI, NOT ChatGPT, NOT Google, NOT Siri
-- Your tagline: "Every Messenger is AI Now"`
+- Your tagline: "Every Messenger is AI Now"${summary ? `
+
+EARLIER IN THIS CONVERSATION (summary of older messages):
+${summary}` : ""}`
 }
 
 async function aiMiddleware(ctx: WaContext) {
   const provider = ctx.aiProvider || "openai"
-  const systemPrompt = buildSystemPrompt()
+  // The lib/ai callers only read the first system message, so the summary rides along in it
+  const systemPrompt = buildSystemPrompt(ctx.summary)
 
   const messages = [
     { role: "system" as const, content: systemPrompt },
@@ -214,7 +426,8 @@ async function aiMiddleware(ctx: WaContext) {
       role: m.role as "user" | "assistant",
       content: m.content,
     })),
-    { role: "user" as const, content: ctx.text },
+    // Images ride along for vision-capable models; see the converters in lib/ai
+    { role: "user" as const, content: ctx.text, images: ctx.images.length ? ctx.images : undefined },
   ]
 
   const apiKey = ctx.apiKey!
@@ -261,13 +474,22 @@ async function storeMiddleware(ctx: WaContext) {
   const saveNow = new Date().toISOString()
 
   await pool.query(
-    'INSERT INTO "Message" (id, "conversationId", role, content, "createdAt") VALUES ($1, $2, $3, $4, $5)',
-    [cuid(), ctx.convoId, "user", ctx.text, ctx.now]
+    'INSERT INTO "Message" (id, "conversationId", role, content, attachments, "tokenCount", "createdAt") VALUES ($1, $2, $3, $4, $5, $6, $7)',
+    [
+      cuid(),
+      ctx.convoId,
+      "user",
+      ctx.text,
+      ctx.attachments.length ? JSON.stringify(ctx.attachments) : null,
+      countMessageTokens({ content: ctx.text }, ctx.aiProvider, ctx.aiModel),
+      ctx.now,
+    ]
   )
 
+  ctx.replyMessageId = cuid()
   await pool.query(
-    'INSERT INTO "Message" (id, "conversationId", role, content, "createdAt") VALUES ($1, $2, $3, $4, $5)',
-    [cuid(), ctx.convoId, "assistant", ctx.reply, saveNow]
+    'INSERT INTO "Message" (id, "conversationId", role, content, "tokenCount", "createdAt") VALUES ($1, $2, $3, $4, $5, $6)',
+    [ctx.replyMessageId, ctx.convoId, "assistant", ctx.reply, countMessageTokens({ content: ctx.reply! }, ctx.aiProvider, ctx.aiModel), saveNow]
   )
 
   await pool.query('UPDATE "Conversation" SET "updatedAt" = $1 WHERE id = $2', [saveNow, ctx.convoId])
@@ -276,59 +498,91 @@ async function storeMiddleware(ctx: WaContext) {
 // ── Send Middleware — Send reply via WhatsApp Cloud API ──────────────
 
 async function sendMiddleware(ctx: WaContext) {
-  await waSend(ctx.phoneNumberId, ctx.accessToken!, ctx.from, ctx.reply!)
+  const result = await waSend(ctx.phoneNumberId, ctx.accessToken!, ctx.from, ctx.reply!)
+  // Record the WhatsApp ID so status webhooks can find this reply; failures show in the inbox for retry
+  await recordSendResult(ctx.replyMessageId!, result)
 }
 
-async function waSend(phoneNumberId: string, accessToken: string, to: string, text: string) {
-  const chunks: string[] = []
-  for (let i = 0; i < text.length; i += 4000) {
-    chunks.push(text.slice(i, i + 4000))
-  }
+// ── Helpers ──────────────────────────────────────────────────────────
 
-  for (const chunk of chunks) {
-    const res = await fetch(`${WA_API}/${phoneNumberId}/messages`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        messaging_product: "whatsapp",
-        to,
-        type: "text",
-        text: { body: chunk },
-      }),
-    })
+/** Enabled business-mode WhatsApp channels, config parsed */
+async function getBusinessChannels(): Promise<{ id: string; userId: string; config: WaChannelConfig }[]> {
+  const res = await pool.query(
+    `SELECT id, "userId", config FROM "UserChannel"
+     WHERE "channelType" = 'whatsapp' AND COALESCE("connectionMode", 'business') = 'business' AND enabled = true`
+  )
+  return res.rows.map((row) => ({
+    id: row.id,
+    userId: row.userId,
+    config: typeof row.config === "string" ? JSON.parse(row.config || "{}") : row.config || {},
+  }))
+}
 
-    const data = await res.json()
-    if (data.error) {
-      console.error("[WA] Send failed:", data.error.message)
-    }
-  }
+/**
+ * Resolves the channel that owns a business phone number, without side effects.
+ * Single-tenant installs configured before routing existed have no phoneNumberId stored;
+ * if that lone channel is the only one, it is returned as a legacy match.
+ */
+async function resolveChannel(
+  phoneNumberId: string
+): Promise<{ id: string; userId: string; config: WaChannelConfig; legacy: boolean } | null> {
+  const channels = await getBusinessChannels()
+
+  const match = channels.find((c) => String(c.config.phoneNumberId || "").trim() === phoneNumberId)
+  if (match) return { ...match, legacy: false }
+
+  if (channels.length === 1 && !channels[0].config.phoneNumberId) return { ...channels[0], legacy: true }
+
+  return null
 }
 
-// ── Helpers ──────────────────────────────────────────────────────────
+/** Resolves the owning channel for a verified delivery, saving the ID to a legacy channel's config */
+async function findChannelByPhoneNumberId(
+  phoneNumberId: string
+): Promise<{ userId: string; config: WaChannelConfig } | null> {
+  const channel = await resolveChannel(phoneNumberId)
+  if (!channel) {
+    console.warn(`[WA] No channel owns phone number ID ${phoneNumberId}; dropping message`)
+    return null
+  }
 
-async function getVerifyToken(): Promise<string> {
+  if (channel.legacy) {
+    channel.config = { ...channel.config, phoneNumberId }
+    await pool.query('UPDATE "UserChannel" SET config = $1, "updatedAt" = NOW() WHERE id = $2', [
+      JSON.stringify(channel.config),
+      channel.id,
+    ])
+    console.log(`[WA] Linked phone number ID ${phoneNumberId} to the only configured channel`)
+  }
+  return channel
+}
+
+/**
+ * Meta's verification request doesn't say which number it is for, so a token is valid
+ * if any tenant's WhatsApp business channel uses it (enabled or not — verification
+ * happens during setup), or if it matches the platform-wide fallback.
+ */
+async function isValidVerifyToken(token: string): Promise<boolean> {
   const fallback = process.env.WHATSAPP_VERIFY_TOKEN || "dryadsai_whatsapp_verify_2026"
+  if (token === fallback) return true
   try {
     const timeoutPromise = new Promise<null>((_, reject) =>
       setTimeout(() => reject(new Error("DB timeout")), 5000)
     )
+    // webhookVerifyToken is the key older dashboard versions saved
     const queryPromise = pool.query(
-      'SELECT config FROM "UserChannel" WHERE "channelType" = $1 AND enabled = true LIMIT 1',
-      ["whatsapp"]
+      `SELECT 1 FROM "UserChannel"
+       WHERE "channelType" = 'whatsapp' AND COALESCE("connectionMode", 'business') = 'business'
+         AND (config::jsonb->>'verifyToken' = $1 OR config::jsonb->>'webhookVerifyToken' = $1)
+       LIMIT 1`,
+      [token]
     )
     const res = await Promise.race([queryPromise, timeoutPromise])
-    if (res && res.rows.length > 0) {
-      const raw = res.rows[0].config
-      const config = typeof raw === "string" ? JSON.parse(raw) : raw
-      if (config?.verifyToken) return config.verifyToken
-    }
+    return !!res && res.rows.length > 0
   } catch (err) {
-    console.error("[WA] getVerifyToken error:", err instanceof Error ? err.message : err)
+    console.error("[WA] Verify token lookup error:", err instanceof Error ? err.message : err)
+    return false
   }
-  return fallback
 }
 
 // ── Types ────────────────────────────────────────────────────────────
@@ -337,11 +591,15 @@ interface WaContext {
   phoneNumberId: string
   from: string
   text: string
+  messageType: string
   messageId: string
   userName: string
   timestamp: string
   startTime: number
   toolsUsed: string[]
+  attachments: Attachment[]
+  /** Base64 images for vision-capable models */
+  images: { mimeType: string; data: string }[]
   userId?: string
   apiKey?: string
   accessToken?: string
@@ -350,7 +608,66 @@ interface WaContext {
   aiProvider?: string
   now?: string
   history?: { role: string; content: string }[]
+  summary?: string
   reply?: string
+  replyMessageId?: string
+}
+
+interface WaChannelConfig {
+  accessToken?: string
+  phoneNumberId?: string
+  verifyToken?: string
+  /** Meta app secret, used to check X-Hub-Signature-256 */
+  appSecret?: string
+  [key: string]: unknown
+}
+
+interface WaMetadata {
+  phone_number_id: string
+  display_phone_number: string
+}
+
+interface WaContact {
+  profile: { name: string }
+  wa_id: string
+}
+
+interface WaStatus {
+  /** The WhatsApp message ID returned when the message was sent */
+  id: string
+  status: DeliveryStatus
+  timestamp: string
+  recipient_id: string
+  errors?: { code?: number; title?: string; message?: string }[]
+}
+
+interface WaMedia {
+  id: string
+  mime_type: string
+  sha256?: string
+  caption?: string
+  filename?: string
+  /** Set on audio recorded as a voice note */
+  voice?: boolean
+}
+
+interface WaMediaInfo {
+  url: string
+  mime_type: string
+  file_size?: number
+}
+
+interface WaMessage {
+  from: string
+  id: string
+  timestamp: string
+  type: string
+  text?: { body: string }
+  image?: WaMedia
+  audio?: WaMedia
+  video?: WaMedia
+  document?: WaMedia
+  location?: { latitude: number; longitude: number; name?: string; address?: string }
 }
 
 interface WebhookBody {
@@ -360,16 +677,10 @@ interface WebhookBody {
     changes: {
       value: {
         messaging_product: string
-        metadata: { phone_number_id: string; display_phone_number: string }
-        contacts?: { profile: { name: string }; wa_id: string }[]
-        messages?: {
-          from: string
-          id: string
-          timestamp: string
-          type: string
-          text: { body: string }
-        }[]
-        statuses?: unknown[]
+        metadata: WaMetadata
+        contacts?: WaContact[]
+        messages?: WaMessage[]
+        statuses?: WaStatus[]
       }
       field: string
     }[]
@@ -3,7 +3,7 @@
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { cn } from "@/lib/utils"
-import { LayoutDashboard, MessageCircle, Inbox, Zap, Archive, Settings, Shield } from "lucide-react"
+import { LayoutDashboard, MessageCircle, Inbox, Zap, Archive, CalendarClock, Settings, Shield } from "lucide-react"
 import { useRole } from "@/hooks/useRole"
 
 const navItems = [
@@ -12,6 +12,7 @@ const navItems = [
   { href: "/inbox", label: "Inbox", icon: Inbox },
   { href: "/channels", label: "Channels", icon: Zap },
   { href: "/conversations", label: "Conversations", icon: Archive },
+  { href: "/schedules", label: "Schedules", icon: CalendarClock },
   { href: "/settings", label: "Settings", icon: Settings },
 ]
 
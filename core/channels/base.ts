@@ -15,9 +15,10 @@ export type ChannelType =
   | "nostr"
   | "zalo"
   | "imessage"
+  | "email"
 
 export interface Attachment {
-  type: "image" | "audio" | "video" | "file"
+  type: "image" | "audio" | "video" | "file" | "location"
   url: string
   name?: string
   mimeType?: string
@@ -71,4 +72,10 @@ export abstract class BaseChannel {
   }): Promise<void>
 
   abstract isConnected(): boolean
+
+  /**
+   * Restores what replying needs from the message being answered, for channels that otherwise
+   * learn it from live traffic. Queued messages can be answered after a restart.
+   */
+  restoreReplyState?(message: UnifiedMessage): void
 }
@@ -0,0 +1,142 @@
+import { pool } from "@/lib/db"
+import { ChannelType } from "./base"
+import type { DryadsEngine } from "../engine"
+
+const SYNC_INTERVAL_MS = 10_000
+const RETRY_BASE_MS = 30_000
+const RETRY_MAX_MS = 10 * 60_000
+
+/** Must match the gateway's default in lib/connectors/core-engine.mjs */
+const DEFAULT_CORE_ENGINE_CHANNELS = "matrix,email,irc,twitch,mattermost,msteams"
+
+/** Channel types the core engine connects instead of the gateway (bot.mjs) */
+export function getCoreEngineChannels(): ChannelType[] {
+  return (process.env.CORE_ENGINE_CHANNELS ?? DEFAULT_CORE_ENGINE_CHANNELS)
+    .split(",")
+    .map((type) => type.trim())
+    .filter(Boolean) as ChannelType[]
+}
+
+/**
+ * Rows whose messages arrive through a webhook route, which connects the channel on first use:
+ * Teams (Bot Framework) and Slack's Events API.
+ */
+function isWebhookDriven(type: ChannelType, config: Record<string, unknown>): boolean {
+  if (type === "msteams") return true
+  if (type === "slack") return (config.mode || (config.appToken ? "socket" : "events")) === "events"
+  return false
+}
+
+interface ChannelState {
+  userId: string
+  type: ChannelType
+  /** Serialized config the channel was connected with */
+  config: string
+  connected: boolean
+  failures: number
+  retryAt: number
+}
+
+/**
+ * Keeps the core engine's connections in step with the enabled UserChannel rows of the
+ * core engine's channel types: connects new rows, reconnects when a row's config changes
+ * and disconnects rows that were disabled or deleted. Failed connects are retried with backoff.
+ */
+export class ChannelBootstrap {
+  private states = new Map<string, ChannelState>()
+  private timer?: ReturnType<typeof setInterval>
+  private syncing = false
+
+  constructor(
+    private engine: DryadsEngine,
+    private types: ChannelType[] = getCoreEngineChannels()
+  ) {}
+
+  start() {
+    if (this.timer || !this.types.length) return
+    console.log(`[Bootstrap] Connecting core engine channels: ${this.types.join(", ")}`)
+    this.sync()
+    this.timer = setInterval(() => this.sync(), SYNC_INTERVAL_MS)
+    this.timer.unref()
+  }
+
+  async stop() {
+    clearInterval(this.timer)
+    this.timer = undefined
+    for (const state of this.states.values()) {
+      if (state.connected) await this.engine.disconnectChannel(state.userId, state.type)
+    }
+    this.states.clear()
+  }
+
+  async sync() {
+    if (this.syncing) return
+    this.syncing = true
+    try {
+      const res = await pool.query(
+        `SELECT "userId", "channelType", config FROM "UserChannel"
+         WHERE enabled = true AND "channelType" = ANY($1)`,
+        [this.types]
+      )
+
+      const seen = new Set<string>()
+      for (const row of res.rows) {
+        const type = row.channelType as ChannelType
+        const config = typeof row.config === "string" ? JSON.parse(row.config || "{}") : row.config || {}
+        if (isWebhookDriven(type, config)) continue
+
+        const key = `${type}:${row.userId}`
+        seen.add(key)
+        await this.reconcile(key, row.userId, type, config)
+      }
+
+      for (const [key, state] of this.states) {
+        if (seen.has(key)) continue
+        this.states.delete(key)
+        if (state.connected) {
+          console.log(`[Bootstrap] Disconnecting ${key}`)
+          await this.engine.disconnectChannel(state.userId, state.type).catch((err) =>
+            console.error(`[Bootstrap] Failed to disconnect ${key}:`, err instanceof Error ? err.message : err)
+          )
+        }
+      }
+    } catch (err) {
+      console.error("[Bootstrap] Sync failed:", err instanceof Error ? err.message : err)
+    } finally {
+      this.syncing = false
+    }
+  }
+
+  private async reconcile(key: string, userId: string, type: ChannelType, config: Record<string, unknown>) {
+    const serialized = JSON.stringify(config)
+    const state = this.states.get(key)
+    if (state?.config === serialized && (state.connected || Date.now() < state.retryAt)) return
+
+    if (state?.connected) {
+      console.log(`[Bootstrap] Config changed, reconnecting ${key}`)
+      await this.engine.disconnectChannel(userId, type).catch(() => {})
+    }
+
+    // A changed config gets a fresh retry budget
+    const failures = state?.config === serialized ? state.failures : 0
+    try {
+      await this.engine.connectChannel(userId, type, config)
+      this.states.set(key, { userId, type, config: serialized, connected: true, failures: 0, retryAt: 0 })
+      console.log(`[Bootstrap] Connected ${key}`)
+    } catch (err) {
+      const delay = Math.min(RETRY_BASE_MS * 2 ** failures, RETRY_MAX_MS)
+      this.states.set(key, {
+        userId,
+        type,
+        config: serialized,
+        connected: false,
+        failures: failures + 1,
+        retryAt: Date.now() + delay,
+      })
+      console.error(
+        `[Bootstrap] Failed to connect ${key}, retrying in ${delay / 1000}s:`,
+        err instanceof Error ? err.message : err
+      )
+    }
+  }
+}
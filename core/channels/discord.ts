@@ -6,6 +6,7 @@ import {
   Attachment,
   UnifiedMessage,
 } from "./base"
+import { splitMessage } from "./format"
 
 export class DiscordChannel extends BaseChannel {
   readonly type = "discord" as const
@@ -98,7 +99,7 @@ export class DiscordChannel extends BaseChannel {
     const channel = await this.client.channels.fetch(channelId)
     if (!channel || !("send" in channel)) throw new Error("Invalid channel")
 
-    const chunks = this.splitMessage(content, this.capabilities.maxMessageLength)
+    const chunks = splitMessage(content, this.capabilities.maxMessageLength)
 
     for (let i = 0; i < chunks.length; i++) {
       await (channel as unknown as { send: (opts: Record<string, unknown>) => Promise<unknown> }).send({
@@ -109,21 +110,4 @@ export class DiscordChannel extends BaseChannel {
       })
     }
   }
-
-  private splitMessage(text: string, maxLen: number): string[] {
-    if (text.length <= maxLen) return [text]
-    const chunks: string[] = []
-    let remaining = text
-    while (remaining.length > 0) {
-      if (remaining.length <= maxLen) {
-        chunks.push(remaining)
-        break
-      }
-      let splitAt = remaining.lastIndexOf("\n", maxLen)
-      if (splitAt === -1 || splitAt < maxLen / 2) splitAt = maxLen
-      chunks.push(remaining.slice(0, splitAt))
-      remaining = remaining.slice(splitAt)
-    }
-    return chunks
-  }
 }
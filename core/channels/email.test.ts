@@ -0,0 +1,157 @@
+import { test, before, after } from "node:test"
+import assert from "node:assert/strict"
+import { ImapFlow } from "imapflow"
+import { simpleParser } from "mailparser"
+import nodemailer from "nodemailer"
+import { EmailChannel } from "./email"
+import { UnifiedMessage } from "./base"
+
+/**
+ * EmailChannel against a real mail server. Needs GreenMail with auth disabled, which creates
+ * mailboxes on first login:
+ *
+ *   docker run --rm -p 3025:3025 -p 3143:3143 \
+ *     -e GREENMAIL_OPTS="-Dgreenmail.setup.test.all -Dgreenmail.hostname=0.0.0.0 -Dgreenmail.auth.disabled" \
+ *     greenmail/standalone
+ *   GREENMAIL_HOST=localhost npm test
+ *
+ * Skipped when GREENMAIL_HOST isn't set.
+ */
+
+const HOST = process.env.GREENMAIL_HOST
+const SMTP_PORT = Number(process.env.GREENMAIL_SMTP_PORT) || 3025
+const IMAP_PORT = Number(process.env.GREENMAIL_IMAP_PORT) || 3143
+
+// Fresh addresses per run, so earlier runs' mail doesn't leak in
+const run = Date.now().toString(36)
+const BOT = `bot-${run}@localhost`
+const ALICE = `alice-${run}@localhost`
+
+const skip = HOST ? false : "set GREENMAIL_HOST to run against GreenMail"
+
+function channelConfig() {
+  return {
+    imapHost: HOST,
+    imapPort: IMAP_PORT,
+    imapSecure: false,
+    smtpHost: HOST,
+    smtpPort: SMTP_PORT,
+    smtpSecure: false,
+    smtpAuth: false,
+    username: BOT,
+    password: BOT,
+  }
+}
+
+/** Sends mail from Alice to the bot and returns its Message-ID */
+async function sendFromAlice(subject: string, text: string, headers: Record<string, string> = {}): Promise<string> {
+  const smtp = nodemailer.createTransport({ host: HOST, port: SMTP_PORT, secure: false })
+  try {
+    const info = await smtp.sendMail({ from: ALICE, to: BOT, subject, text, headers })
+    return info.messageId
+  } finally {
+    smtp.close()
+  }
+}
+
+/** Every message in Alice's inbox, parsed */
+async function aliceInbox() {
+  const imap = new ImapFlow({ host: HOST!, port: IMAP_PORT, secure: false, auth: { user: ALICE, pass: ALICE }, logger: false })
+  await imap.connect()
+  try {
+    await imap.mailboxOpen("INBOX")
+    const fetched = await imap.fetchAll("1:*", { source: true }).catch(() => [])
+    return Promise.all(fetched.map((msg) => simpleParser(msg.source!)))
+  } finally {
+    await imap.logout()
+  }
+}
+
+async function waitFor(check: () => boolean | Promise<boolean>, timeoutMs = 10_000) {
+  const deadline = Date.now() + timeoutMs
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for mail")
+    await new Promise((resolve) => setTimeout(resolve, 100))
+  }
+}
+
+function collect(channel: EmailChannel): UnifiedMessage[] {
+  const messages: UnifiedMessage[] = []
+  channel.onMessage(async (message) => {
+    messages.push(message)
+  })
+  return messages
+}
+
+let channel: EmailChannel
+let messages: UnifiedMessage[]
+let firstId = ""
+
+before(async () => {
+  if (skip) return
+  // Log both mailboxes in once so GreenMail creates them before any mail is sent
+  for (const user of [BOT, ALICE]) {
+    const imap = new ImapFlow({ host: HOST!, port: IMAP_PORT, secure: false, auth: { user, pass: user }, logger: false })
+    await imap.connect()
+    await imap.logout()
+  }
+})
+
+after(async () => {
+  await channel?.disconnect()
+})
+
+test("answers unread mail that arrived before connecting", { skip }, async () => {
+  firstId = await sendFromAlice("Opening hours?", "When are you open on Sunday?")
+  await sendFromAlice("Out of office", "I'm away", { "Auto-Submitted": "auto-replied" })
+
+  channel = new EmailChannel()
+  messages = collect(channel)
+  await channel.connect(channelConfig())
+  await waitFor(() => messages.length > 0)
+  // Give the auto-reply time to be (wrongly) delivered
+  await new Promise((resolve) => setTimeout(resolve, 500))
+
+  assert.equal(messages.length, 1)
+  const [message] = messages
+  assert.equal(message.id, firstId)
+  assert.equal(message.channelType, "email")
+  assert.equal(message.channelId, ALICE)
+  assert.equal(message.content, "Opening hours?\n\nWhen are you open on Sunday?")
+})
+
+test("picks up new mail while connected", { skip }, async () => {
+  const id = await sendFromAlice("Parking", "Is there parking nearby?")
+  await waitFor(() => messages.some((m) => m.id === id))
+})
+
+test("replies in the sender's thread with an HTML body", { skip }, async () => {
+  await channel.sendMessage(ALICE, "We're open **10 to 4** on Sundays.", { replyTo: firstId })
+
+  let reply: Awaited<ReturnType<typeof aliceInbox>>[number] | undefined
+  await waitFor(async () => {
+    reply = (await aliceInbox()).find((mail) => mail.inReplyTo === firstId)
+    return !!reply
+  })
+
+  assert.equal(reply!.subject, "Re: Opening hours?")
+  assert.equal(reply!.from?.value[0]?.address, BOT)
+  assert.deepEqual([reply!.references].flat(), [firstId])
+  assert.match(String(reply!.html), /<strong>10 to 4<\/strong>/)
+  assert.equal(reply!.text?.trim(), "We're open **10 to 4** on Sundays.")
+})
+
+test("doesn't answer handled mail again after restarting", { skip }, async () => {
+  const seen = messages.length
+  await channel.disconnect()
+
+  channel = new EmailChannel()
+  messages = collect(channel)
+  await channel.connect(channelConfig())
+  const id = await sendFromAlice("One more thing", "Do you take cards?")
+  await waitFor(() => messages.length > 0)
+  await new Promise((resolve) => setTimeout(resolve, 500))
+
+  assert.ok(seen >= 2)
+  assert.deepEqual(messages.map((m) => m.id), [id])
+})
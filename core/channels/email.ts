@@ -0,0 +1,354 @@
+import { ImapFlow } from "imapflow"
+import { simpleParser, ParsedMail, AddressObject } from "mailparser"
+import nodemailer, { Transporter } from "nodemailer"
+import {
+  BaseChannel,
+  ChannelCapabilities,
+  ChannelConfig,
+  Attachment,
+  UnifiedMessage,
+} from "./base"
+import { markdownToHtml } from "./format"
+
+/** What's needed to reply in-thread to a message */
+interface ThreadInfo {
+  subject: string
+  references: string[]
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 60_000
+/** How far back unread mail is answered on startup, so downtime doesn't drop messages */
+const DEFAULT_CATCH_UP_HOURS = 72
+const MAX_BACKOFF_MS = 5 * 60_000
+/** Larger attachments are dropped rather than inlined as data: URLs */
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+/** Cap on remembered Message-ID → thread mappings */
+const MAX_TRACKED_THREADS = 1000
+
+/**
+ * Email channel — reads a mailbox over IMAP and replies over SMTP.
+ * New mail is picked up with IDLE when the server supports it (or by polling with
+ * mode: "poll"); each message becomes a UnifiedMessage whose channelId is the sender's address
+ * and whose replyTo is its In-Reply-To. Replies carry In-Reply-To/References so clients
+ * thread them, with an HTML and a plain-text body. Handled mail is flagged \Seen, so on startup
+ * unread mail from the last catchUpHours (default 72) is answered too. Works against any IMAP/SMTP server,
+ * including local test servers like GreenMail (set imapSecure/smtpSecure to false).
+ */
+export class EmailChannel extends BaseChannel {
+  readonly type = "email" as const
+  readonly name = "Email"
+  readonly capabilities: ChannelCapabilities = {
+    streaming: false,
+    attachments: true,
+    reactions: false,
+    threads: true,
+    editing: false,
+    maxMessageLength: 100_000,
+  }
+
+  private config: ChannelConfig = {}
+  private imap?: ImapFlow
+  private smtp?: Transporter
+  private address = ""
+  private mailbox = "INBOX"
+  /** Highest UID already handled; mail at or below it isn't answered again */
+  private lastUid = 0
+  /** UIDVALIDITY lastUid belongs to; when the server changes it, UIDs start over */
+  private uidValidity?: bigint
+  private checking: Promise<void> = Promise.resolve()
+  private pollTimer?: ReturnType<typeof setInterval>
+  private reconnectTimer?: ReturnType<typeof setTimeout>
+  private backoffMs = 5000
+  private stopping = false
+  private _connected = false
+  private threads = new Map<string, ThreadInfo>()
+
+  async connect(config: ChannelConfig): Promise<void> {
+    const username = config.username as string
+    const password = config.password as string
+    if (!config.imapHost || !config.smtpHost || !username || !password) {
+      throw new Error("Email IMAP host, SMTP host, username and password required")
+    }
+
+    this.config = config
+    this.address = ((config.fromAddress as string) || username).toLowerCase()
+    this.mailbox = (config.mailbox as string) || "INBOX"
+    this.stopping = false
+
+    const smtpPort = Number(config.smtpPort) || 587
+    this.smtp = nodemailer.createTransport({
+      host: config.smtpHost as string,
+      port: smtpPort,
+      secure: config.smtpSecure !== undefined ? config.smtpSecure === true || config.smtpSecure === "true" : smtpPort === 465,
+      // Test servers like MailHog accept mail without authenticating
+      auth: config.smtpAuth === false ? undefined : {
+        user: (config.smtpUsername as string) || username,
+        pass: (config.smtpPassword as string) || password,
+      },
+      tls: { rejectUnauthorized: !config.allowSelfSigned },
+    })
+    await this.smtp.verify()
+
+    await this.openMailbox()
+    this._connected = true
+
+    if (config.mode === "poll") {
+      const interval = Number(config.pollIntervalMs) || DEFAULT_POLL_INTERVAL_MS
+      this.pollTimer = setInterval(() => this.checkMail(), interval)
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopping = true
+    this._connected = false
+    if (this.pollTimer) clearInterval(this.pollTimer)
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    await this.checking
+    await this.imap?.logout().catch(() => {})
+    this.imap = undefined
+    this.smtp?.close()
+    this.smtp = undefined
+  }
+
+  isConnected(): boolean {
+    return this._connected
+  }
+
+  async sendMessage(
+    channelId: string,
+    content: string,
+    options?: { replyTo?: string; attachments?: Attachment[] }
+  ): Promise<void> {
+    if (!this.smtp) throw new Error("Email not connected")
+
+    const thread = options?.replyTo ? this.threads.get(options.replyTo) : undefined
+    const subject = thread
+      ? /^re:/i.test(thread.subject) ? thread.subject : `Re: ${thread.subject}`
+      : (this.config.defaultSubject as string) || `Message from ${this.fromName()}`
+
+    const info = await this.smtp.sendMail({
+      from: { name: this.fromName(), address: this.address },
+      to: channelId,
+      subject,
+      text: content,
+      html: `<div style="font-family: sans-serif; line-height: 1.5">${markdownToHtml(content)}</div>`,
+      inReplyTo: options?.replyTo,
+      references: options?.replyTo ? [...(thread?.references || []), options.replyTo] : undefined,
+      attachments: options?.attachments?.map((a) => ({
+        filename: a.name || "attachment",
+        contentType: a.mimeType,
+        // nodemailer reads data: URIs from path and fetches http(s) URLs from href
+        ...(a.url.startsWith("data:") ? { path: a.url } : { href: a.url }),
+      })),
+    })
+
+    // A reply to this reply stays in the same thread
+    if (info.messageId && options?.replyTo) {
+      this.rememberThread(info.messageId, {
+        subject,
+        references: [...(thread?.references || []), options.replyTo],
+      })
+    }
+  }
+
+  // ── IMAP ──────────────────────────────────────────────────────────
+
+  private async openMailbox() {
+    const imapPort = Number(this.config.imapPort) || 993
+    const imap = new ImapFlow({
+      host: this.config.imapHost as string,
+      port: imapPort,
+      secure: this.config.imapSecure !== undefined
+        ? this.config.imapSecure === true || this.config.imapSecure === "true"
+        : imapPort === 993,
+      auth: { user: this.config.username as string, pass: this.config.password as string },
+      tls: { rejectUnauthorized: !this.config.allowSelfSigned },
+      logger: false,
+    })
+
+    imap.on("exists", () => this.checkMail())
+    imap.on("error", (err: Error) => console.error("[Email] IMAP error:", err.message))
+    imap.on("close", () => this.scheduleReconnect())
+
+    await imap.connect()
+    const mailbox = await imap.mailboxOpen(this.mailbox)
+    this.imap = imap
+    this.backoffMs = 5000
+
+    // Reconnects catch up from lastUid. Otherwise, answer the unread mail that arrived while
+    // the channel was down, then everything from here on.
+    if (this.lastUid > 0 && mailbox.uidValidity === this.uidValidity) {
+      this.checkMail()
+    } else {
+      this.uidValidity = mailbox.uidValidity
+      this.lastUid = mailbox.uidNext - 1
+      const catchUpHours = Number(this.config.catchUpHours ?? DEFAULT_CATCH_UP_HOURS)
+      const unread = catchUpHours > 0
+        ? await imap.search({ seen: false, since: new Date(Date.now() - catchUpHours * 3600_000) }, { uid: true })
+        : false
+      if (unread && unread.length > 0) {
+        console.log(`[Email] Answering ${unread.length} unread message(s) from before connecting`)
+        this.checkMail(unread)
+      }
+    }
+    // ImapFlow IDLEs on its own once the mailbox is open and no command is running
+  }
+
+  private scheduleReconnect() {
+    if (this.stopping || this.reconnectTimer) return
+    console.warn(`[Email] IMAP connection closed, reconnecting in ${this.backoffMs / 1000}s`)
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined
+      try {
+        await this.openMailbox()
+      } catch (err) {
+        console.error("[Email] Reconnect failed:", err instanceof Error ? err.message : err)
+        this.backoffMs = Math.min(this.backoffMs * 2, MAX_BACKOFF_MS)
+        this.scheduleReconnect()
+      }
+    }, this.backoffMs)
+  }
+
+  /**
+   * Handles mail newer than lastUid, or the given UIDs; runs are chained so IDLE and polling
+   * never overlap
+   */
+  private checkMail(uids?: number[]) {
+    this.checking = this.checking
+      .then(() => this.fetchNewMail(uids))
+      .catch((err) => console.error("[Email] Fetch failed:", err instanceof Error ? err.message : err))
+  }
+
+  private async fetchNewMail(uids?: number[]) {
+    const imap = this.imap
+    if (!imap || !imap.usable || this.stopping) return
+
+    // "N:*" always returns the newest message even when nothing is newer, hence the filter
+    const range = uids ? uids.join(",") : `${this.lastUid + 1}:*`
+    const fetched = await imap.fetchAll(range, { uid: true, source: true }, { uid: true })
+    const fresh = fetched.filter((msg) => (uids || msg.uid > this.lastUid) && msg.source)
+
+    for (const msg of fresh) {
+      if (!uids) this.lastUid = Math.max(this.lastUid, msg.uid)
+      try {
+        const mail = await simpleParser(msg.source!)
+        await this.handleMail(mail)
+      } catch (err) {
+        console.error(`[Email] Failed to handle UID ${msg.uid}:`, err instanceof Error ? err.message : err)
+      }
+    }
+
+    if (fresh.length > 0) {
+      await imap.messageFlagsAdd(fresh.map((msg) => msg.uid), ["\\Seen"], { uid: true })
+    }
+  }
+
+  private async handleMail(mail: ParsedMail) {
+    const from = mail.from?.value[0]
+    const address = from?.address?.toLowerCase()
+    if (!address || !mail.messageId || !this.messageHandler) return
+    if (address === this.address || isAutomated(mail)) return
+
+    const references = toArray(mail.references)
+    this.rememberThread(mail.messageId, { subject: mail.subject || "", references })
+
+    const attachments: Attachment[] = []
+    for (const part of mail.attachments) {
+      // Inline images referenced from the HTML body are usually signature logos
+      if (part.related) continue
+      if (part.size > MAX_ATTACHMENT_BYTES) {
+        console.warn(`[Email] Skipping ${part.filename || "attachment"} (${part.size} bytes) from ${address}`)
+        continue
+      }
+      attachments.push({
+        type: attachmentType(part.contentType),
+        url: `data:${part.contentType};base64,${part.content.toString("base64")}`,
+        name: part.filename,
+        mimeType: part.contentType,
+        size: part.size,
+      })
+    }
+
+    const body = stripQuotedReply(mail.text || "")
+    const message: UnifiedMessage = {
+      id: mail.messageId,
+      channelType: "email",
+      channelId: address,
+      userId: address,
+      userName: from?.name || address,
+      // The subject is often the whole request ("Invoice for March?") with an empty body
+      content: mail.inReplyTo || !mail.subject ? body : `${mail.subject}\n\n${body}`.trim(),
+      attachments: attachments.length > 0 ? attachments : undefined,
+      replyTo: mail.inReplyTo,
+      timestamp: mail.date || new Date(),
+      metadata: {
+        subject: mail.subject,
+        // The first message of the conversation identifies the thread
+        threadId: references[0] || mail.inReplyTo || mail.messageId,
+        references,
+        cc: addressList(mail.cc),
+      },
+    }
+
+    await this.messageHandler(message)
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────
+
+  private fromName(): string {
+    return (this.config.fromName as string) || "Dryads AI"
+  }
+
+  private rememberThread(messageId: string, info: ThreadInfo) {
+    if (this.threads.size >= MAX_TRACKED_THREADS) {
+      this.threads.delete(this.threads.keys().next().value!)
+    }
+    this.threads.set(messageId, info)
+  }
+}
+
+/**
+ * Auto-replies, bounces and list mail (RFC 3834 Auto-Submitted, Precedence) — answering
+ * them risks an endless loop with another robot.
+ */
+function isAutomated(mail: ParsedMail): boolean {
+  const autoSubmitted = String(mail.headers.get("auto-submitted") || "no").toLowerCase()
+  const precedence = String(mail.headers.get("precedence") || "").toLowerCase()
+  return autoSubmitted !== "no"
+    || ["bulk", "junk", "list", "auto_reply"].includes(precedence)
+    || mail.headers.has("list-id")
+    || /^(mailer-daemon|postmaster|no-?reply)@/i.test(mail.from?.value[0]?.address || "")
+}
+
+/** Cuts the quoted history clients append below a reply */
+function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n")
+  const cut = lines.findIndex((line, i) =>
+    /^On .+wrote:\s*$/.test(line) ||
+    /^-{2,}\s*Original Message\s*-{2,}/i.test(line) ||
+    // Outlook-style header block
+    (/^From:\s/.test(line) && /^(Sent|Date):\s/.test(lines[i + 1] || "")) ||
+    // A run of quoted lines at the end of the message
+    (line.startsWith(">") && lines.slice(i).every((l) => l.startsWith(">") || !l.trim()))
+  )
+  return (cut === -1 ? lines : lines.slice(0, cut)).join("\n").trim()
+}
+
+function attachmentType(contentType: string): Attachment["type"] {
+  if (contentType.startsWith("image/")) return "image"
+  if (contentType.startsWith("audio/")) return "audio"
+  if (contentType.startsWith("video/")) return "video"
+  return "file"
+}
+
+function toArray(value: string | string[] | undefined): string[] {
+  if (!value) return []
+  return Array.isArray(value) ? value : value.split(/\s+/).filter(Boolean)
+}
+
+function addressList(value: AddressObject | AddressObject[] | undefined): string[] | undefined {
+  if (!value) return undefined
+  return (Array.isArray(value) ? value : [value])
+    .flatMap((group) => group.value.map((a) => a.address))
+    .filter((a): a is string => !!a)
+}
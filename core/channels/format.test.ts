@@ -0,0 +1,35 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { markdownToHtml, splitMessage, splitWords } from "./format"
+
+test("markdownToHtml renders inline formatting and links", () => {
+  assert.equal(
+    markdownToHtml("**bold**, *em*, `code` and [docs](https://example.org/a?b=1&c=2)"),
+    '<strong>bold</strong>, <em>em</em>, <code>code</code> and <a href="https://example.org/a?b=1&amp;c=2">docs</a>'
+  )
+})
+
+test("markdownToHtml escapes HTML, including quotes that could break out of an href", () => {
+  assert.equal(markdownToHtml("<script>alert(1)</script>"), "&lt;script&gt;alert(1)&lt;/script&gt;")
+  const html = markdownToHtml('[click](https://example.org/"onmouseover="alert(1))')
+  assert.ok(!html.includes('"onmouseover="'))
+  assert.equal(html, '<a href="https://example.org/&quot;onmouseover=&quot;alert(1">click</a>)')
+})
+
+test("markdownToHtml leaves code blocks unformatted", () => {
+  assert.equal(markdownToHtml("```ts\nconst a = **b**\n```"), "<pre><code>const a = **b**\n</code></pre>")
+})
+
+test("splitMessage prefers line breaks and never exceeds the limit", () => {
+  const text = `${"a".repeat(60)}\n${"b".repeat(60)}`
+  assert.deepEqual(splitMessage(text, 100), ["a".repeat(60), `\n${"b".repeat(60)}`])
+  assert.deepEqual(splitMessage("x".repeat(250), 100).map((c) => c.length), [100, 100, 50])
+  assert.deepEqual(splitMessage("short", 100), ["short"])
+})
+
+test("splitWords breaks at whitespace and only cuts oversized words", () => {
+  assert.deepEqual(splitWords("one two three", 7), ["one two", "three"])
+  assert.deepEqual(splitWords("abcdefghij", 4), ["abcd", "efgh", "ij"])
+  // Byte measure: "é" is two bytes
+  assert.deepEqual(splitWords("éé éé", 4, (s) => Buffer.byteLength(s)), ["éé", "éé"])
+})
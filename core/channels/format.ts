@@ -0,0 +1,82 @@
+/**
+ * Markdown → HTML for channels whose clients render HTML (Matrix, email).
+ * Covers what the AI actually writes: code blocks, inline code, bold, italics,
+ * strikethrough, links and headings (rendered bold). Everything else is escaped.
+ */
+export function markdownToHtml(markdown: string): string {
+  // Quotes too: link URLs end up inside a double-quoted href
+  const escape = (s: string) =>
+    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+  return markdown
+    .split(/(```[\s\S]*?```)/g)
+    .map((part, i) => {
+      if (i % 2 === 1) {
+        const code = part.replace(/^```[a-zA-Z0-9_+-]*\n?/, "").replace(/```$/, "")
+        return `<pre><code>${escape(code)}</code></pre>`
+      }
+      return escape(part)
+        .replace(/`([^`\n]+)`/g, "<code>$1</code>")
+        .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+        .replace(/(^|[^*\w])\*(?!\s)([^*\n]+?)\*(?!\w)/g, "$1<em>$2</em>")
+        .replace(/~~(.+?)~~/g, "<del>$1</del>")
+        .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2">$1</a>')
+        .replace(/^#{1,6}\s+(.+)$/gm, "<strong>$1</strong>")
+        .replace(/\n/g, "<br>")
+    })
+    .join("")
+}
+
+/**
+ * Splits one line of text into chunks of at most maxLen, breaking only at whitespace.
+ * A single word longer than maxLen (a long URL) is the only thing ever cut.
+ * `measure` lets byte-limited protocols like IRC count bytes instead of characters.
+ */
+export function splitWords(
+  text: string,
+  maxLen: number,
+  measure: (s: string) => number = (s) => s.length
+): string[] {
+  const chunks: string[] = []
+  let current = ""
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word
+    if (measure(candidate) <= maxLen) {
+      current = candidate
+      continue
+    }
+    if (current) chunks.push(current)
+    current = word
+    // Cut an oversized word into pieces that fit, keeping the remainder for the next chunk
+    while (measure(current) > maxLen) {
+      let cut = Math.min(current.length, maxLen)
+      while (cut > 1 && measure(current.slice(0, cut)) > maxLen) cut--
+      chunks.push(current.slice(0, cut))
+      current = current.slice(cut)
+    }
+  }
+
+  if (current) chunks.push(current)
+  return chunks
+}
+
+/**
+ * Splits a message into chunks of at most maxLen characters for platforms with a length cap,
+ * preferring a line break in the second half of each chunk.
+ */
+export function splitMessage(text: string, maxLen: number): string[] {
+  if (text.length <= maxLen) return [text]
+  const chunks: string[] = []
+  let remaining = text
+  while (remaining.length > 0) {
+    if (remaining.length <= maxLen) {
+      chunks.push(remaining)
+      break
+    }
+    let splitAt = remaining.lastIndexOf("\n", maxLen)
+    if (splitAt === -1 || splitAt < maxLen / 2) splitAt = maxLen
+    chunks.push(remaining.slice(0, splitAt))
+    remaining = remaining.slice(splitAt)
+  }
+  return chunks
+}
@@ -0,0 +1,75 @@
+import { test, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { AddressInfo, createServer, Server, Socket } from "node:net"
+import { IrcChannel } from "./irc"
+
+/** IrcChannel against a stub server that welcomes any nick and records the lines it receives */
+
+let server: Server
+let clients: Socket[]
+let received: string[]
+let channel: IrcChannel
+
+beforeEach(async () => {
+  clients = []
+  received = []
+  server = createServer((socket) => {
+    clients.push(socket)
+    socket.setEncoding("utf8")
+    socket.on("error", () => {})
+    socket.on("data", (data: string) => {
+      for (const line of data.split("\r\n").filter(Boolean)) {
+        received.push(line)
+        if (line.startsWith("NICK ")) socket.write(`:irc.test 001 ${line.slice(5)} :Welcome\r\n`)
+      }
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  channel = new IrcChannel()
+  await channel.connect({
+    server: "127.0.0.1",
+    port: (server.address() as AddressInfo).port,
+    tls: false,
+    nickname: "dryads",
+    // Slow enough that everything past the burst stays queued for the test
+    messageDelayMs: 60_000,
+  })
+})
+
+afterEach(async () => {
+  await channel.disconnect()
+  for (const socket of clients) socket.destroy()
+  await new Promise((resolve) => server.close(resolve))
+})
+
+function privmsgs() {
+  return received.filter((line) => line.startsWith("PRIVMSG"))
+}
+
+async function settle() {
+  await new Promise((resolve) => setTimeout(resolve, 50))
+}
+
+test("sends a burst of lines right away", async () => {
+  await channel.sendMessage("alice", "one\ntwo\nthree")
+  await settle()
+  assert.deepEqual(privmsgs(), ["PRIVMSG alice :one", "PRIVMSG alice :two", "PRIVMSG alice :three"])
+})
+
+test("fails sends still queued when disconnecting, so they can be retried", async () => {
+  const sending = channel.sendMessage("alice", "1\n2\n3\n4\n5\n6")
+  await settle()
+  await channel.disconnect()
+
+  await assert.rejects(sending, /disconnected before the message was sent/)
+  assert.equal(privmsgs().length, 4)
+})
+
+test("fails queued sends when the server drops the connection, and refuses new ones until reconnected", async () => {
+  const sending = channel.sendMessage("alice", "1\n2\n3\n4\n5\n6")
+  await settle()
+  for (const socket of clients) socket.destroy()
+
+  await assert.rejects(sending, /connection closed before the message was sent/)
+  await assert.rejects(channel.sendMessage("alice", "hello"), /not connected/)
+})
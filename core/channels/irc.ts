@@ -0,0 +1,525 @@
+import net from "net"
+import tls from "tls"
+import {
+  BaseChannel,
+  ChannelCapabilities,
+  ChannelConfig,
+  ChannelType,
+  Attachment,
+  UnifiedMessage,
+} from "./base"
+import { splitWords } from "./format"
+
+/** One parsed protocol line: `@tags :prefix COMMAND params :trailing` */
+export interface IrcLine {
+  tags: Record<string, string>
+  prefix: string
+  /** Nick part of the prefix, empty for server lines */
+  nick: string
+  command: string
+  params: string[]
+}
+
+export interface IrcConnectionOptions {
+  host: string
+  port: number
+  tls: boolean
+  nick: string
+  username: string
+  realname: string
+  /** Server password (PASS), also how Twitch takes its OAuth token */
+  password?: string
+  sasl?: { username: string; password: string }
+  /** IRCv3 capabilities to request besides sasl */
+  capabilities: string[]
+  channels: string[]
+  /** In channels, only answer messages that mention the bot's nick. DMs are always answered. */
+  mentionOnly: boolean
+  /** Minimum gap between lines once the burst allowance is used up */
+  messageDelayMs: number
+  burst: number
+}
+
+/** Fields of a UnifiedMessage that depend on the network; Twitch fills them from tags */
+export type IrcMessageFields = Pick<UnifiedMessage, "id" | "userId" | "userName" | "replyTo" | "timestamp" | "metadata">
+
+const REGISTRATION_TIMEOUT_MS = 30_000
+/** No traffic at all (servers PING every few minutes) means the connection is dead */
+const IDLE_TIMEOUT_MS = 5 * 60_000
+const MAX_BACKOFF_MS = 5 * 60_000
+/** Cap on remembered message id → sender nick mappings */
+const MAX_TRACKED_SENDERS = 1000
+
+const byteLength = (s: string) => Buffer.byteLength(s, "utf8")
+
+/**
+ * IRC channel — a plain client over TCP/TLS with optional SASL PLAIN, joining one or more
+ * channels. Private messages get channelId = the sender's nick; channel messages get the
+ * channel name and, in mention-only mode (the default), are answered only when they mention
+ * the bot. Outgoing lines go through a flood-control queue (a small burst, then one line per
+ * messageDelayMs) so the server doesn't disconnect the bot for flooding.
+ * Subclasses (TwitchChannel) adjust the connection and message mapping through the protected hooks.
+ */
+export class IrcChannel extends BaseChannel {
+  readonly type: ChannelType = "irc"
+  readonly name: string = "IRC"
+  readonly capabilities: ChannelCapabilities = {
+    streaming: false,
+    attachments: false,
+    reactions: false,
+    threads: false,
+    editing: false,
+    // Bytes; leaves room in the 512-byte line for the prefix other clients see and the reply's "nick: "
+    maxMessageLength: 380,
+  }
+
+  protected options?: IrcConnectionOptions
+  protected nick = ""
+  private socket?: net.Socket
+  private buffer = ""
+  private _connected = false
+  private stopping = false
+  private reconnectTimer?: ReturnType<typeof setTimeout>
+  private backoffMs = 5000
+  private queue: { line: string; done: () => void; fail: (err: Error) => void }[] = []
+  private tokens = 0
+  private drainTimer?: ReturnType<typeof setTimeout>
+  private lastRefill = 0
+  private counter = 0
+  private senders = new Map<string, string>()
+  private registration?: { resolve: () => void; reject: (err: Error) => void }
+
+  async connect(config: ChannelConfig): Promise<void> {
+    this.options = this.connectionOptions(config)
+    this.stopping = false
+    await this.open()
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopping = true
+    this._connected = false
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    if (this.drainTimer) clearTimeout(this.drainTimer)
+    this.drainTimer = undefined
+    // Queued lines won't be sent; failing them lets the message queue retry the reply
+    this.failQueue(new Error(`${this.name} disconnected before the message was sent`))
+    if (this.socket && !this.socket.destroyed) {
+      this.write("QUIT :Bye")
+      this.socket.end()
+    }
+    this.socket = undefined
+  }
+
+  isConnected(): boolean {
+    return this._connected
+  }
+
+  async sendMessage(
+    channelId: string,
+    content: string,
+    options?: { replyTo?: string; attachments?: Attachment[] }
+  ): Promise<void> {
+    if (!this.socket || !this._connected) throw new Error(`${this.name} not connected`)
+
+    // IRC has no attachments; links still work
+    const links = (options?.attachments || []).map((a) => a.url).filter((url) => /^https?:\/\//.test(url))
+    const text = [plainText(content), ...links].join("\n")
+
+    // Each line of the reply is its own PRIVMSG; overlong lines are split between words
+    const chunks = text
+      .split(/\r?\n/)
+      .flatMap((line) => splitWords(line, this.capabilities.maxMessageLength, byteLength))
+
+    await Promise.all(
+      chunks.map((chunk, i) => this.enqueue(this.privmsg(channelId, chunk, i === 0 ? options?.replyTo : undefined)))
+    )
+  }
+
+  // ── Hooks for subclasses ──────────────────────────────────────────
+
+  protected connectionOptions(config: ChannelConfig): IrcConnectionOptions {
+    const host = config.server as string
+    const nick = config.nickname as string
+    if (!host || !nick) throw new Error("IRC server and nickname required")
+
+    const port = Number(config.port) || 6697
+    const saslPassword = config.saslPassword as string | undefined
+    return {
+      host,
+      port,
+      tls: config.tls !== undefined ? config.tls === true || config.tls === "true" : port === 6697,
+      nick,
+      username: (config.username as string) || nick,
+      realname: (config.realname as string) || "Dryads AI",
+      password: config.password as string | undefined,
+      sasl: saslPassword ? { username: (config.saslUsername as string) || nick, password: saslPassword } : undefined,
+      capabilities: [],
+      channels: channelList(config.channels ?? config.channel),
+      mentionOnly: config.mentionOnly !== false && config.mentionOnly !== "false",
+      messageDelayMs: Number(config.messageDelayMs) || 2000,
+      burst: 4,
+    }
+  }
+
+  /** Sender, id and metadata for an incoming PRIVMSG */
+  protected messageFields(line: IrcLine): IrcMessageFields {
+    return {
+      // Servers with the message-tags capability give messages ids; otherwise make one up
+      id: line.tags.msgid || `${Date.now()}-${this.counter++}`,
+      userId: line.nick,
+      userName: line.nick,
+      timestamp: line.tags.time ? new Date(line.tags.time) : new Date(),
+      metadata: { hostmask: line.prefix },
+    }
+  }
+
+  /**
+   * The raw line for one chunk; `replyTo` is set on the first chunk of a reply.
+   * Plain IRC has no reply threads, so in a channel the reply is addressed to the asker by nick.
+   */
+  protected privmsg(target: string, text: string, replyTo?: string): string {
+    const sender = replyTo ? this.senders.get(replyTo) : undefined
+    return `PRIVMSG ${target} :${sender && isChannelName(target) ? `${sender}: ${text}` : text}`
+  }
+
+  protected handleLine(line: IrcLine) {
+    switch (line.command) {
+      case "PING":
+        this.write(`PONG :${line.params[0] || ""}`)
+        break
+      case "CAP":
+        this.handleCap(line)
+        break
+      case "AUTHENTICATE":
+        if (line.params[0] === "+" && this.options?.sasl) {
+          const { username, password } = this.options.sasl
+          this.write(`AUTHENTICATE ${Buffer.from(`${username}\0${username}\0${password}`).toString("base64")}`)
+        }
+        break
+      case "903": // SASL success
+        this.write("CAP END")
+        break
+      case "904":
+      case "905":
+      case "906":
+        this.failRegistration(new Error(`SASL authentication failed: ${line.params.at(-1)}`))
+        break
+      case "001":
+        this.nick = line.params[0] || this.nick
+        if (this.options?.channels.length) this.write(`JOIN ${this.options.channels.join(",")}`)
+        this._connected = true
+        this.backoffMs = 5000
+        this.registration?.resolve()
+        this.registration = undefined
+        console.log(`[${this.name}] Connected to ${this.options?.host} as ${this.nick}`)
+        break
+      case "433": // Nick in use
+        if (this.registration) {
+          this.nick = `${this.nick}_`
+          this.write(`NICK ${this.nick}`)
+        }
+        break
+      case "464":
+        this.failRegistration(new Error("Server password rejected"))
+        break
+      case "NOTICE":
+        if (this.registration && /authentication failed|improperly formatted auth/i.test(line.params.at(-1) || "")) {
+          this.failRegistration(new Error(line.params.at(-1)))
+        }
+        break
+      case "NICK":
+        if (sameNick(line.nick, this.nick)) this.nick = line.params[0]
+        break
+      case "KICK":
+        if (sameNick(line.params[1], this.nick)) {
+          console.warn(`[${this.name}] Kicked from ${line.params[0]}: ${line.params[2] || ""}`)
+        }
+        break
+      case "ERROR":
+        console.error(`[${this.name}] Server error: ${line.params[0]}`)
+        break
+      case "PRIVMSG":
+        this.handlePrivmsg(line).catch((err) =>
+          console.error(`[${this.name}] Message handler error:`, err instanceof Error ? err.message : err)
+        )
+        break
+    }
+  }
+
+  /** Drops the connection so the reconnect logic opens a new one */
+  protected reconnect() {
+    this.socket?.destroy()
+  }
+
+  // ── Connection ────────────────────────────────────────────────────
+
+  private open(): Promise<void> {
+    const options = this.options!
+    this.nick = options.nick
+    this.buffer = ""
+
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(
+        () => this.failRegistration(new Error(`${this.name} registration timed out`)),
+        REGISTRATION_TIMEOUT_MS
+      )
+      this.registration = {
+        resolve: () => { clearTimeout(timer); resolve() },
+        reject: (err) => { clearTimeout(timer); reject(err) },
+      }
+
+      const socket = options.tls
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+        : net.connect({ host: options.host, port: options.port })
+      this.socket = socket
+
+      socket.setEncoding("utf8")
+      socket.setTimeout(IDLE_TIMEOUT_MS)
+      socket.once(options.tls ? "secureConnect" : "connect", () => this.register())
+      socket.on("data", (data: string) => this.onData(data))
+      socket.on("timeout", () => socket.destroy(new Error("Connection idle")))
+      socket.on("error", (err) => console.error(`[${this.name}] Socket error:`, err.message))
+      socket.on("close", () => {
+        if (this.socket !== socket) return
+        this._connected = false
+        this.failQueue(new Error(`${this.name} connection closed before the message was sent`))
+        if (this.registration) {
+          this.failRegistration(new Error(`${this.name} connection closed during registration`))
+        } else {
+          this.scheduleReconnect()
+        }
+      })
+    })
+  }
+
+  private register() {
+    const options = this.options!
+    const caps = [...options.capabilities, ...(options.sasl ? ["sasl"] : [])]
+    if (caps.length > 0) this.write(`CAP REQ :${caps.join(" ")}`)
+    if (options.password) this.write(`PASS ${options.password}`)
+    this.write(`NICK ${options.nick}`)
+    this.write(`USER ${options.username} 0 * :${options.realname}`)
+  }
+
+  private handleCap(line: IrcLine) {
+    const [, subcommand, list = ""] = line.params
+    if (subcommand === "ACK") {
+      if (list.split(" ").includes("sasl")) {
+        this.write("AUTHENTICATE PLAIN")
+      } else {
+        this.write("CAP END")
+      }
+    } else if (subcommand === "NAK") {
+      if (this.options?.sasl) {
+        this.failRegistration(new Error(`${this.options.host} doesn't support SASL`))
+      } else {
+        this.write("CAP END")
+      }
+    }
+  }
+
+  private failRegistration(err: Error) {
+    const registration = this.registration
+    if (!registration) return
+    this.registration = undefined
+    this.socket?.destroy()
+    this.socket = undefined
+    registration.reject(err)
+  }
+
+  private scheduleReconnect() {
+    if (this.stopping || this.reconnectTimer) return
+    console.warn(`[${this.name}] Disconnected, reconnecting in ${this.backoffMs / 1000}s`)
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined
+      try {
+        await this.open()
+      } catch (err) {
+        console.error(`[${this.name}] Reconnect failed:`, err instanceof Error ? err.message : err)
+        this.backoffMs = Math.min(this.backoffMs * 2, MAX_BACKOFF_MS)
+        this.scheduleReconnect()
+      }
+    }, this.backoffMs)
+  }
+
+  private onData(data: string) {
+    this.buffer += data
+    const lines = this.buffer.split(/\r?\n/)
+    this.buffer = lines.pop() || ""
+    for (const raw of lines) {
+      if (!raw) continue
+      try {
+        this.handleLine(parseIrcLine(raw))
+      } catch (err) {
+        console.error(`[${this.name}] Failed to handle line:`, err instanceof Error ? err.message : err)
+      }
+    }
+  }
+
+  private write(line: string) {
+    // A stray newline would let message text inject protocol commands
+    this.socket?.write(`${line.replace(/[\r\n]/g, " ")}\r\n`)
+  }
+
+  // ── Incoming messages ─────────────────────────────────────────────
+
+  private async handlePrivmsg(line: IrcLine) {
+    const [target, raw = ""] = line.params
+    if (!this.messageHandler || !line.nick || sameNick(line.nick, this.nick)) return
+
+    let text = raw
+    let action = false
+    const ctcp = /^\x01(\w+)(?: (.*?))?\x01?$/.exec(raw)
+    if (ctcp) {
+      // /me is a message; VERSION, PING and other CTCP queries aren't
+      if (ctcp[1] !== "ACTION") return
+      text = ctcp[2] || ""
+      action = true
+    }
+    text = stripFormatting(text)
+
+    const isChannel = isChannelName(target)
+    if (isChannel && this.options?.mentionOnly) {
+      const stripped = stripMention(text, this.nick)
+      if (stripped === null) return
+      text = stripped
+    }
+    if (!text.trim()) return
+
+    const fields = this.messageFields(line)
+    this.rememberSender(fields.id, line.nick)
+
+    const message: UnifiedMessage = {
+      ...fields,
+      channelType: this.type,
+      channelId: isChannel ? target : line.nick,
+      content: action ? `* ${line.nick} ${text}` : text,
+      metadata: { ...fields.metadata, isChannel, action },
+    }
+
+    await this.messageHandler(message)
+  }
+
+  private rememberSender(id: string, nick: string) {
+    if (this.senders.size >= MAX_TRACKED_SENDERS) {
+      this.senders.delete(this.senders.keys().next().value!)
+    }
+    this.senders.set(id, nick)
+  }
+
+  // ── Flood control ─────────────────────────────────────────────────
+
+  /** Queues a line; resolves once it's been written, rejects if the connection goes first */
+  private enqueue(line: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ line, done: resolve, fail: reject })
+      this.drain()
+    })
+  }
+
+  private failQueue(err: Error) {
+    for (const item of this.queue.splice(0)) item.fail(err)
+  }
+
+  /** Token bucket: `burst` lines go out at once, then one per messageDelayMs */
+  private drain() {
+    if (this.drainTimer || !this.options) return
+    const { burst, messageDelayMs } = this.options
+
+    const now = Date.now()
+    this.tokens = Math.min(burst, this.tokens + (now - this.lastRefill) / messageDelayMs)
+    this.lastRefill = now
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      const item = this.queue.shift()!
+      this.write(item.line)
+      this.tokens -= 1
+      item.done()
+    }
+
+    if (this.queue.length > 0) {
+      this.drainTimer = setTimeout(() => {
+        this.drainTimer = undefined
+        this.drain()
+      }, (1 - this.tokens) * messageDelayMs)
+    }
+  }
+}
+
+/** Parses one raw protocol line (without CRLF), including IRCv3 message tags */
+export function parseIrcLine(raw: string): IrcLine {
+  let rest = raw
+  const tags: Record<string, string> = {}
+
+  if (rest.startsWith("@")) {
+    const end = rest.indexOf(" ")
+    for (const tag of rest.slice(1, end).split(";")) {
+      const eq = tag.indexOf("=")
+      const key = eq === -1 ? tag : tag.slice(0, eq)
+      tags[key] = eq === -1 ? "" : unescapeTag(tag.slice(eq + 1))
+    }
+    rest = rest.slice(end + 1).trimStart()
+  }
+
+  let prefix = ""
+  if (rest.startsWith(":")) {
+    const end = rest.indexOf(" ")
+    prefix = rest.slice(1, end)
+    rest = rest.slice(end + 1).trimStart()
+  }
+
+  const params: string[] = []
+  const trailingAt = rest.indexOf(" :")
+  const middle = trailingAt === -1 ? rest : rest.slice(0, trailingAt)
+  const [command, ...args] = middle.split(" ").filter(Boolean)
+  params.push(...args)
+  if (trailingAt !== -1) params.push(rest.slice(trailingAt + 2))
+
+  return { tags, prefix, nick: prefix.includes("!") ? prefix.split("!")[0] : "", command: command.toUpperCase(), params }
+}
+
+function unescapeTag(value: string): string {
+  return value.replace(/\\(.)?/g, (_, c: string | undefined) =>
+    c === ":" ? ";" : c === "s" ? " " : c === "r" ? "\r" : c === "n" ? "\n" : c ?? ""
+  )
+}
+
+function channelList(value: unknown): string[] {
+  const list = Array.isArray(value) ? value.map(String) : String(value || "").split(",")
+  return list.map((c) => c.trim()).filter(Boolean).map((c) => (isChannelName(c) ? c : `#${c}`))
+}
+
+function isChannelName(name: string): boolean {
+  return /^[#&!+]/.test(name)
+}
+
+function sameNick(a: string | undefined, b: string): boolean {
+  return !!a && a.toLowerCase() === b.toLowerCase()
+}
+
+/**
+ * The message without the bot's address ("dryads: hi" → "hi"), the message unchanged when the
+ * nick appears elsewhere in it, or null when it doesn't mention the bot at all.
+ */
+function stripMention(text: string, nick: string): string | null {
+  const escaped = nick.replace(/[.*+?^${}()|[\]\\-]/g, "\\$&")
+  const addressed = new RegExp(`^@?${escaped}[:,]?\\s+`, "i")
+  if (addressed.test(text)) return text.replace(addressed, "")
+  return new RegExp(`(^|[^\\w])@?${escaped}($|[^\\w])`, "i").test(text) ? text : null
+}
+
+/** Removes mIRC bold, color, italic, underline and reset codes */
+function stripFormatting(text: string): string {
+  return text.replace(/\x03(\d{1,2}(,\d{1,2})?)?|[\x02\x0f\x11\x16\x1d\x1e\x1f]/g, "")
+}
+
+/** IRC clients show Markdown literally, so drop the markup the AI tends to write */
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/```[a-zA-Z0-9_+-]*\n?/g, "")
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/__(.+?)__/g, "$1")
+    .replace(/`([^`\n]+)`/g, "$1")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, "$1 ($2)")
+}
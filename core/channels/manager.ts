@@ -2,6 +2,13 @@ import { BaseChannel, ChannelConfig, ChannelType, MessageHandler } from "./base"
 import { WebChatChannel } from "./web-chat"
 import { TelegramChannel } from "./telegram"
 import { DiscordChannel } from "./discord"
+import { SlackChannel } from "./slack"
+import { MatrixChannel } from "./matrix"
+import { EmailChannel } from "./email"
+import { IrcChannel } from "./irc"
+import { TwitchChannel } from "./twitch"
+import { MattermostChannel } from "./mattermost"
+import { MSTeamsChannel } from "./msteams"
 
 type ChannelFactory = () => BaseChannel
 
@@ -9,6 +16,13 @@ const channelRegistry = new Map<ChannelType, ChannelFactory>()
 channelRegistry.set("web", () => new WebChatChannel())
 channelRegistry.set("telegram", () => new TelegramChannel())
 channelRegistry.set("discord", () => new DiscordChannel())
+channelRegistry.set("slack", () => new SlackChannel())
+channelRegistry.set("matrix", () => new MatrixChannel())
+channelRegistry.set("email", () => new EmailChannel())
+channelRegistry.set("irc", () => new IrcChannel())
+channelRegistry.set("twitch", () => new TwitchChannel())
+channelRegistry.set("mattermost", () => new MattermostChannel())
+channelRegistry.set("msteams", () => new MSTeamsChannel())
 
 export class ChannelManager {
   private channels: Map<string, BaseChannel> = new Map()
@@ -26,16 +40,19 @@ export class ChannelManager {
     this.globalHandler = handler
   }
 
+  /** Connects a channel; `handler` takes the place of the global handler for this channel */
   async connectChannel(
     key: string,
     type: ChannelType,
-    config: ChannelConfig
+    config: ChannelConfig,
+    handler?: MessageHandler
   ): Promise<BaseChannel> {
     const factory = channelRegistry.get(type)
     if (!factory) throw new Error(`Channel type "${type}" not registered`)
 
     const channel = factory()
-    if (this.globalHandler) channel.onMessage(this.globalHandler)
+    const onMessage = handler || this.globalHandler
+    if (onMessage) channel.onMessage(onMessage)
     await channel.connect(config)
     this.channels.set(key, channel)
     return channel
@@ -0,0 +1,239 @@
+import { test, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { createServer, IncomingMessage, Server } from "node:http"
+import { AddressInfo } from "node:net"
+import { MatrixChannel, MatrixEdit } from "./matrix"
+import { UnifiedMessage } from "./base"
+
+/**
+ * MatrixChannel against a stub homeserver that replays recorded /sync responses
+ * and records every other request.
+ */
+
+const BOT = "@dryads:example.org"
+const ROOM = "!room:example.org"
+
+interface RecordedRequest {
+  method: string
+  path: string
+  body: Record<string, unknown>
+}
+
+class StubHomeserver {
+  readonly requests: RecordedRequest[] = []
+  private syncs: Record<string, unknown>[] = []
+  private batch = 0
+  private server?: Server
+  url = ""
+
+  /** Queues a /sync response; the channel receives them in order */
+  queueSync(rooms: Record<string, unknown>) {
+    this.syncs.push(rooms)
+  }
+
+  sent(type = "m.room.message") {
+    return this.requests.filter((r) => r.method === "PUT" && r.path.includes(`/send/${encodeURIComponent(type)}/`))
+  }
+
+  async start() {
+    this.server = createServer(async (req, res) => {
+      const path = req.url || ""
+      const body = await readBody(req)
+      const reply = (status: number, data: unknown) => {
+        res.writeHead(status, { "Content-Type": "application/json" })
+        res.end(JSON.stringify(data))
+      }
+
+      if (path.startsWith("/_matrix/client/v3/account/whoami")) return reply(200, { user_id: BOT })
+      if (path.startsWith("/_matrix/client/v3/sync")) {
+        const rooms = this.syncs.shift()
+        // Empty long-polls return after a moment, like a real timeout
+        if (!rooms) await new Promise((resolve) => setTimeout(resolve, 10))
+        return reply(200, { next_batch: `s${++this.batch}`, rooms })
+      }
+
+      this.requests.push({ method: req.method || "GET", path, body })
+      if (req.method === "PUT") return reply(200, { event_id: `$sent${this.requests.length}` })
+      reply(200, {})
+    })
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve))
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`
+  }
+
+  async stop() {
+    await new Promise((resolve) => this.server?.close(resolve))
+  }
+}
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let data = ""
+  for await (const chunk of req) data += chunk
+  return data ? JSON.parse(data) : {}
+}
+
+function timeline(events: Record<string, unknown>[]) {
+  return {
+    join: {
+      [ROOM]: {
+        timeline: {
+          events: events.map((event, i) => ({ sender: "@alice:example.org", origin_server_ts: 1700000000000 + i, ...event })),
+        },
+      },
+    },
+  }
+}
+
+/** Resolves once `check` passes, polling while the sync loop runs */
+async function waitFor(check: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for the channel")
+    await new Promise((resolve) => setTimeout(resolve, 5))
+  }
+}
+
+let homeserver: StubHomeserver
+let channel: MatrixChannel
+let messages: UnifiedMessage[]
+
+beforeEach(async () => {
+  homeserver = new StubHomeserver()
+  await homeserver.start()
+  channel = new MatrixChannel()
+  messages = []
+  channel.onMessage(async (message) => {
+    messages.push(message)
+  })
+})
+
+afterEach(async () => {
+  await channel.disconnect()
+  await homeserver.stop()
+})
+
+function connect() {
+  return channel.connect({ homeserver: homeserver.url, accessToken: "token", syncTimeoutMs: 10 })
+}
+
+test("joins rooms on invite and declines encrypted ones", async () => {
+  homeserver.queueSync({
+    invite: {
+      "!open:example.org": { invite_state: { events: [{ type: "m.room.name" }] } },
+      "!secret:example.org": { invite_state: { events: [{ type: "m.room.encryption" }] } },
+    },
+  })
+  await connect()
+
+  const paths = homeserver.requests.map((r) => r.path)
+  assert.ok(paths.includes(`/_matrix/client/v3/rooms/${encodeURIComponent("!open:example.org")}/join`))
+  assert.ok(paths.includes(`/_matrix/client/v3/rooms/${encodeURIComponent("!secret:example.org")}/leave`))
+  assert.ok(!paths.includes(`/_matrix/client/v3/rooms/${encodeURIComponent("!secret:example.org")}/join`))
+})
+
+test("maps room messages to unified messages, skipping history from before connecting", async () => {
+  homeserver.queueSync(timeline([{ type: "m.room.message", event_id: "$old", content: { msgtype: "m.text", body: "old" } }]))
+  await connect()
+
+  homeserver.queueSync(
+    timeline([
+      { type: "m.room.message", event_id: "$own", sender: BOT, content: { msgtype: "m.text", body: "echo" } },
+      {
+        type: "m.room.message",
+        event_id: "$reply",
+        content: {
+          msgtype: "m.text",
+          body: "> <@bob:example.org> earlier\n\nwhat about this?",
+          "m.relates_to": { "m.in_reply_to": { event_id: "$earlier" } },
+        },
+      },
+    ])
+  )
+  await waitFor(() => messages.length === 1)
+
+  const [message] = messages
+  assert.equal(message.id, "$reply")
+  assert.equal(message.channelType, "matrix")
+  assert.equal(message.channelId, ROOM)
+  assert.equal(message.userId, "@alice:example.org")
+  assert.equal(message.userName, "alice")
+  assert.equal(message.content, "what about this?")
+  assert.equal(message.replyTo, "$earlier")
+})
+
+test("sends edits to onEdit instead of answering the message again", async () => {
+  const edits: MatrixEdit[] = []
+  channel.onEdit(async (edit) => {
+    edits.push(edit)
+  })
+  await connect()
+
+  homeserver.queueSync(
+    timeline([
+      { type: "m.room.message", event_id: "$msg", content: { msgtype: "m.text", body: "helo" } },
+      {
+        type: "m.room.message",
+        event_id: "$edit",
+        content: {
+          msgtype: "m.text",
+          body: "* hello",
+          "m.new_content": { msgtype: "m.text", body: "hello" },
+          "m.relates_to": { rel_type: "m.replace", event_id: "$msg" },
+        },
+      },
+    ])
+  )
+  await waitFor(() => edits.length === 1)
+
+  assert.deepEqual(messages.map((m) => m.id), ["$msg"])
+  assert.deepEqual(edits[0], { roomId: ROOM, eventId: "$msg", userId: "@alice:example.org", content: "hello" })
+})
+
+test("posts a single notice in encrypted rooms instead of replying", async () => {
+  await connect()
+
+  homeserver.queueSync(
+    timeline([
+      { type: "m.room.encrypted", event_id: "$e1", content: { algorithm: "m.megolm.v1.aes-sha2" } },
+      { type: "m.room.encrypted", event_id: "$e2", content: { algorithm: "m.megolm.v1.aes-sha2" } },
+    ])
+  )
+  await waitFor(() => homeserver.sent().length > 0)
+  await new Promise((resolve) => setTimeout(resolve, 50))
+
+  assert.equal(messages.length, 0)
+  assert.equal(homeserver.sent().length, 1)
+  assert.equal(homeserver.sent()[0].body.msgtype, "m.notice")
+})
+
+test("replies inside the thread of a threaded message", async () => {
+  await connect()
+
+  homeserver.queueSync(
+    timeline([
+      {
+        type: "m.room.message",
+        event_id: "$in-thread",
+        content: {
+          msgtype: "m.text",
+          body: "question",
+          "m.relates_to": { rel_type: "m.thread", event_id: "$root", is_falling_back: true, "m.in_reply_to": { event_id: "$root" } },
+        },
+      },
+    ])
+  )
+  await waitFor(() => messages.length === 1)
+  assert.equal(messages[0].replyTo, "$root")
+  assert.equal(messages[0].metadata?.threadId, "$root")
+
+  await channel.sendMessage(ROOM, "**answer**", { replyTo: "$in-thread" })
+
+  const [sent] = homeserver.sent()
+  assert.equal(sent.body.body, "**answer**")
+  assert.equal(sent.body.formatted_body, "<strong>answer</strong>")
+  assert.deepEqual(sent.body["m.relates_to"], {
+    rel_type: "m.thread",
+    event_id: "$root",
+    is_falling_back: false,
+    "m.in_reply_to": { event_id: "$in-thread" },
+  })
+})
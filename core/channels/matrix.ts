@@ -0,0 +1,462 @@
+import {
+  BaseChannel,
+  ChannelCapabilities,
+  ChannelConfig,
+  Attachment,
+  UnifiedMessage,
+} from "./base"
+import { markdownToHtml, splitMessage } from "./format"
+
+/** A room event as returned by /sync; only the fields this channel reads */
+interface MatrixEvent {
+  type: string
+  event_id: string
+  sender: string
+  origin_server_ts: number
+  content: Record<string, unknown> & {
+    msgtype?: string
+    body?: string
+    url?: string
+    info?: { mimetype?: string; size?: number }
+    "m.relates_to"?: MatrixRelation
+    "m.new_content"?: { body?: string; msgtype?: string }
+  }
+}
+
+interface MatrixRelation {
+  rel_type?: "m.replace" | "m.thread" | "m.annotation" | string
+  event_id?: string
+  key?: string
+  is_falling_back?: boolean
+  "m.in_reply_to"?: { event_id: string }
+}
+
+interface SyncResponse {
+  next_batch: string
+  rooms?: {
+    join?: Record<string, { timeline?: { events?: MatrixEvent[] } }>
+    invite?: Record<string, { invite_state?: { events?: { type: string }[] } }>
+  }
+}
+
+export interface MatrixReaction {
+  roomId: string
+  eventId: string
+  userId: string
+  key: string
+}
+
+/** An m.replace edit of an earlier message; the edited message was already answered */
+export interface MatrixEdit {
+  roomId: string
+  /** The message being replaced */
+  eventId: string
+  userId: string
+  content: string
+}
+
+const SYNC_TIMEOUT_MS = 30_000
+const MAX_BACKOFF_MS = 60_000
+/** Cap on remembered event → thread root mappings */
+const MAX_TRACKED_EVENTS = 1000
+
+const ENCRYPTED_ROOM_NOTICE =
+  "This room is end-to-end encrypted, so I can't read messages here. Please talk to me in an unencrypted room."
+
+/** Only what the channel handles; keeps /sync responses small */
+const SYNC_FILTER = JSON.stringify({
+  presence: { types: [] },
+  account_data: { types: [] },
+  room: {
+    timeline: { types: ["m.room.message", "m.reaction", "m.room.encrypted"], limit: 50 },
+    state: { lazy_load_members: true, types: [] },
+    ephemeral: { types: [] },
+    account_data: { types: [] },
+  },
+})
+
+/**
+ * Matrix channel — a bot account on any homeserver (Synapse, Conduit, Dendrite) using the
+ * Client-Server API directly. Logs in with an access token, long-polls /sync, joins rooms it's
+ * invited to and answers in the room the message came from (channelId = room ID).
+ * Replies and threads follow the m.relates_to conventions. Edits go to onEdit rather than the
+ * message handler, so an edited message isn't answered twice; the bot edits its own with editMessage.
+ * Only unencrypted rooms are supported: invites to encrypted rooms are declined, and a room that
+ * turns on encryption later gets a one-time notice instead of replies.
+ */
+export class MatrixChannel extends BaseChannel {
+  readonly type = "matrix" as const
+  readonly name = "Matrix"
+  readonly capabilities: ChannelCapabilities = {
+    streaming: false,
+    attachments: true,
+    reactions: true,
+    threads: true,
+    editing: true,
+    maxMessageLength: 16000,
+  }
+
+  private homeserver = ""
+  private accessToken = ""
+  private botUserId = ""
+  private autoJoin = true
+  private syncTimeoutMs = SYNC_TIMEOUT_MS
+  private since?: string
+  private abort?: AbortController
+  private syncLoop?: Promise<void>
+  private _connected = false
+  private txnCounter = 0
+  /** Event id → thread root, so replies to a threaded message stay in its thread */
+  private threadRoots = new Map<string, string>()
+  private warnedEncrypted = new Set<string>()
+  private reactionHandler?: (reaction: MatrixReaction) => Promise<void>
+  private editHandler?: (edit: MatrixEdit) => Promise<void>
+
+  async connect(config: ChannelConfig): Promise<void> {
+    const homeserver = config.homeserver as string
+    const accessToken = config.accessToken as string
+    if (!homeserver || !accessToken) throw new Error("Matrix homeserver URL and access token required")
+
+    this.homeserver = homeserver.replace(/\/+$/, "")
+    this.accessToken = accessToken
+    this.autoJoin = config.autoJoin !== false
+    if (config.syncTimeoutMs) this.syncTimeoutMs = Number(config.syncTimeoutMs)
+
+    const whoami = await this.request<{ user_id: string }>("GET", "/_matrix/client/v3/account/whoami")
+    if (config.userId && config.userId !== whoami.user_id) {
+      throw new Error(`Access token belongs to ${whoami.user_id}, not ${config.userId}`)
+    }
+    this.botUserId = whoami.user_id
+
+    // The first sync only establishes where to start; history from before connecting isn't answered
+    const initial = await this.sync(0)
+    await this.joinInvites(initial)
+
+    this.abort = new AbortController()
+    this._connected = true
+    this.syncLoop = this.runSyncLoop(this.abort.signal)
+  }
+
+  async disconnect(): Promise<void> {
+    this._connected = false
+    this.abort?.abort()
+    await this.syncLoop?.catch(() => {})
+    this.syncLoop = undefined
+  }
+
+  isConnected(): boolean {
+    return this._connected
+  }
+
+  /** Called for m.reaction events on other users' behalf (e.g. a 👍 on a reply) */
+  onReaction(handler: (reaction: MatrixReaction) => Promise<void>) {
+    this.reactionHandler = handler
+  }
+
+  /** Called when another user edits one of their messages (m.replace) */
+  onEdit(handler: (edit: MatrixEdit) => Promise<void>) {
+    this.editHandler = handler
+  }
+
+  async sendMessage(
+    channelId: string,
+    content: string,
+    options?: { replyTo?: string; attachments?: Attachment[] }
+  ): Promise<void> {
+    const relation = this.replyRelation(options?.replyTo)
+    const chunks = splitMessage(content, this.capabilities.maxMessageLength)
+
+    for (let i = 0; i < chunks.length; i++) {
+      if (!chunks[i].trim()) continue
+      await this.sendEvent(channelId, "m.room.message", {
+        ...textContent(chunks[i]),
+        // Only the first chunk quotes the message; later ones just stay in the thread
+        ...(relation ? { "m.relates_to": i === 0 ? relation : withoutReply(relation) } : {}),
+      })
+    }
+
+    for (const attachment of options?.attachments || []) {
+      const mxc = await this.upload(attachment)
+      await this.sendEvent(channelId, "m.room.message", {
+        msgtype: attachmentMsgtype(attachment),
+        body: attachment.name || "attachment",
+        url: mxc,
+        info: { mimetype: attachment.mimeType, size: attachment.size },
+        ...(relation ? { "m.relates_to": withoutReply(relation) } : {}),
+      })
+    }
+  }
+
+  /** Replaces the text of a message the bot sent earlier (m.replace) */
+  async editMessage(roomId: string, eventId: string, content: string): Promise<string> {
+    return this.sendEvent(roomId, "m.room.message", {
+      ...textContent(`* ${content}`),
+      "m.new_content": textContent(content),
+      "m.relates_to": { rel_type: "m.replace", event_id: eventId },
+    })
+  }
+
+  /** Reacts to a message with an emoji or other key (m.annotation) */
+  async sendReaction(roomId: string, eventId: string, key: string): Promise<string> {
+    return this.sendEvent(roomId, "m.reaction", {
+      "m.relates_to": { rel_type: "m.annotation", event_id: eventId, key },
+    })
+  }
+
+  /** Downloads an mxc:// URL through the authenticated media API */
+  async downloadMedia(mxcUrl: string): Promise<Buffer> {
+    const res = await fetch(this.mediaUrl(mxcUrl), {
+      headers: { Authorization: `Bearer ${this.accessToken}` },
+      signal: AbortSignal.timeout(30000),
+    })
+    if (!res.ok) throw new Error(`Matrix media download failed: ${res.status}`)
+    return Buffer.from(await res.arrayBuffer())
+  }
+
+  // ── Sync ──────────────────────────────────────────────────────────
+
+  private async runSyncLoop(signal: AbortSignal): Promise<void> {
+    let backoffMs = 1000
+    while (!signal.aborted) {
+      try {
+        const res = await this.sync(this.syncTimeoutMs, signal)
+        backoffMs = 1000
+        await this.joinInvites(res)
+        await this.handleTimeline(res)
+      } catch (err) {
+        if (signal.aborted) return
+        console.error(`[Matrix] Sync failed, retrying in ${backoffMs / 1000}s:`, err instanceof Error ? err.message : err)
+        await new Promise((resolve) => setTimeout(resolve, backoffMs))
+        backoffMs = Math.min(backoffMs * 2, MAX_BACKOFF_MS)
+      }
+    }
+  }
+
+  private async sync(timeoutMs: number, signal?: AbortSignal): Promise<SyncResponse> {
+    const params = new URLSearchParams({ timeout: String(timeoutMs), filter: SYNC_FILTER })
+    if (this.since) params.set("since", this.since)
+    const res = await this.request<SyncResponse>("GET", `/_matrix/client/v3/sync?${params}`, undefined, signal)
+    this.since = res.next_batch
+    return res
+  }
+
+  private async joinInvites(res: SyncResponse) {
+    if (!this.autoJoin) return
+    for (const [roomId, invite] of Object.entries(res.rooms?.invite || {})) {
+      const room = encodeURIComponent(roomId)
+      try {
+        if (invite.invite_state?.events?.some((event) => event.type === "m.room.encryption")) {
+          await this.request("POST", `/_matrix/client/v3/rooms/${room}/leave`, {})
+          console.warn(`[Matrix] Declined invite to ${roomId}: end-to-end encrypted rooms aren't supported`)
+          continue
+        }
+        await this.request("POST", `/_matrix/client/v3/rooms/${room}/join`, {})
+        console.log(`[Matrix] Joined ${roomId} on invite`)
+      } catch (err) {
+        console.error(`[Matrix] Failed to join ${roomId}:`, err instanceof Error ? err.message : err)
+      }
+    }
+  }
+
+  private async handleTimeline(res: SyncResponse) {
+    for (const [roomId, room] of Object.entries(res.rooms?.join || {})) {
+      for (const event of room.timeline?.events || []) {
+        if (event.sender === this.botUserId) continue
+        try {
+          await this.handleEvent(roomId, event)
+        } catch (err) {
+          console.error(`[Matrix] Failed to handle ${event.event_id}:`, err instanceof Error ? err.message : err)
+        }
+      }
+    }
+  }
+
+  private async handleEvent(roomId: string, event: MatrixEvent) {
+    const relation = event.content["m.relates_to"]
+
+    if (event.type === "m.room.encrypted") {
+      if (!this.warnedEncrypted.has(roomId)) {
+        this.warnedEncrypted.add(roomId)
+        console.warn(`[Matrix] ${roomId} is end-to-end encrypted; its messages can't be read and are skipped`)
+        await this.sendEvent(roomId, "m.room.message", { msgtype: "m.notice", body: ENCRYPTED_ROOM_NOTICE })
+      }
+      return
+    }
+
+    if (event.type === "m.reaction") {
+      if (this.reactionHandler && relation?.rel_type === "m.annotation" && relation.event_id && relation.key) {
+        await this.reactionHandler({ roomId, eventId: relation.event_id, userId: event.sender, key: relation.key })
+      }
+      return
+    }
+
+    if (event.type !== "m.room.message") return
+
+    if (relation?.rel_type === "m.replace") {
+      const content = event.content["m.new_content"]?.body
+      if (this.editHandler && relation.event_id && content !== undefined) {
+        await this.editHandler({ roomId, eventId: relation.event_id, userId: event.sender, content: stripReplyFallback(content) })
+      }
+      return
+    }
+
+    if (!this.messageHandler) return
+
+    const msgtype = event.content.msgtype
+    const threadRoot = relation?.rel_type === "m.thread" ? relation.event_id : undefined
+    if (threadRoot) this.rememberThread(event.event_id, threadRoot)
+
+    // Thread fallbacks carry m.in_reply_to pointing at the latest thread message; that isn't a real reply
+    const inReplyTo = relation?.is_falling_back ? undefined : relation?.["m.in_reply_to"]?.event_id
+
+    const attachments: Attachment[] = []
+    if (event.content.url && msgtype && msgtype !== "m.text" && msgtype !== "m.notice" && msgtype !== "m.emote") {
+      attachments.push({
+        type: msgtype === "m.image" ? "image" : msgtype === "m.audio" ? "audio" : msgtype === "m.video" ? "video" : "file",
+        url: this.mediaUrl(event.content.url),
+        name: event.content.body,
+        mimeType: event.content.info?.mimetype,
+        size: event.content.info?.size,
+      })
+    }
+
+    const text = attachments.length > 0 ? "" : stripReplyFallback(event.content.body || "")
+    const message: UnifiedMessage = {
+      id: event.event_id,
+      channelType: "matrix",
+      channelId: roomId,
+      userId: event.sender,
+      userName: event.sender.replace(/^@/, "").split(":")[0],
+      content: msgtype === "m.emote" ? `* ${text}` : text,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      replyTo: inReplyTo || threadRoot,
+      timestamp: new Date(event.origin_server_ts),
+      metadata: {
+        threadId: threadRoot,
+        msgtype,
+        // Attachment URLs use authenticated media; fetch them with downloadMedia()
+        mxcUrl: event.content.url,
+      },
+    }
+
+    await this.messageHandler(message)
+  }
+
+  // ── Sending ───────────────────────────────────────────────────────
+
+  /**
+   * m.relates_to for a reply: inside a thread when the replied-to message was threaded
+   * (with the reply as the thread fallback), otherwise a plain rich reply.
+   */
+  private replyRelation(replyTo?: string): MatrixRelation | undefined {
+    if (!replyTo) return undefined
+    const root = this.threadRoots.get(replyTo)
+    if (root) {
+      return { rel_type: "m.thread", event_id: root, is_falling_back: false, "m.in_reply_to": { event_id: replyTo } }
+    }
+    return { "m.in_reply_to": { event_id: replyTo } }
+  }
+
+  private async sendEvent(roomId: string, type: string, content: Record<string, unknown>): Promise<string> {
+    const txnId = `dryads.${Date.now()}.${this.txnCounter++}`
+    const res = await this.request<{ event_id: string }>(
+      "PUT",
+      `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/send/${encodeURIComponent(type)}/${txnId}`,
+      content
+    )
+    return res.event_id
+  }
+
+  private async upload(attachment: Attachment): Promise<string> {
+    let data: Buffer
+    if (attachment.url.startsWith("mxc://")) return attachment.url
+    if (attachment.url.startsWith("data:")) {
+      data = Buffer.from(attachment.url.slice(attachment.url.indexOf(",") + 1), "base64")
+    } else {
+      const res = await fetch(attachment.url, { signal: AbortSignal.timeout(30000) })
+      if (!res.ok) throw new Error(`Attachment download failed: ${res.status}`)
+      data = Buffer.from(await res.arrayBuffer())
+    }
+
+    const params = new URLSearchParams({ filename: attachment.name || "attachment" })
+    const res = await fetch(`${this.homeserver}/_matrix/media/v3/upload?${params}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        "Content-Type": attachment.mimeType || "application/octet-stream",
+      },
+      body: new Uint8Array(data),
+      signal: AbortSignal.timeout(60000),
+    })
+    if (!res.ok) throw new Error(`Matrix upload failed: ${res.status}`)
+    const { content_uri } = (await res.json()) as { content_uri: string }
+    return content_uri
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────
+
+  private async request<T>(method: string, path: string, body?: unknown, signal?: AbortSignal): Promise<T> {
+    const res = await fetch(`${this.homeserver}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      // Long-polls need longer than the sync timeout itself
+      signal: signal
+        ? AbortSignal.any([signal, AbortSignal.timeout(this.syncTimeoutMs + 30000)])
+        : AbortSignal.timeout(30000),
+    })
+    if (!res.ok) {
+      const err = (await res.json().catch(() => ({}))) as { errcode?: string; error?: string }
+      throw new Error(`Matrix ${method} ${path.split("?")[0]} failed: ${res.status} ${err.errcode || ""} ${err.error || ""}`.trim())
+    }
+    return (await res.json()) as T
+  }
+
+  private mediaUrl(mxcUrl: string): string {
+    const [serverName, mediaId] = mxcUrl.replace(/^mxc:\/\//, "").split("/")
+    return `${this.homeserver}/_matrix/client/v1/media/download/${encodeURIComponent(serverName)}/${encodeURIComponent(mediaId)}`
+  }
+
+  private rememberThread(eventId: string, root: string) {
+    if (this.threadRoots.size >= MAX_TRACKED_EVENTS) {
+      this.threadRoots.delete(this.threadRoots.keys().next().value!)
+    }
+    this.threadRoots.set(eventId, root)
+  }
+}
+
+function attachmentMsgtype(attachment: Attachment): string {
+  switch (attachment.type) {
+    case "image": return "m.image"
+    case "audio": return "m.audio"
+    case "video": return "m.video"
+    default: return "m.file"
+  }
+}
+
+/** A thread relation without the quoted reply, for follow-up chunks and attachments */
+function withoutReply(relation: MatrixRelation): MatrixRelation | undefined {
+  if (relation.rel_type !== "m.thread") return undefined
+  return { rel_type: "m.thread", event_id: relation.event_id, is_falling_back: true, "m.in_reply_to": relation["m.in_reply_to"] }
+}
+
+/** Clients that predate rich replies quote the original as "> " lines before the reply */
+function stripReplyFallback(body: string): string {
+  if (!body.startsWith("> ")) return body.trim()
+  const lines = body.split("\n")
+  const firstReal = lines.findIndex((line) => !line.startsWith(">"))
+  return lines.slice(firstReal === -1 ? lines.length : firstReal).join("\n").trim()
+}
+
+/** m.text content with an HTML rendering of the Markdown the AI writes */
+function textContent(markdown: string) {
+  return {
+    msgtype: "m.text",
+    body: markdown,
+    format: "org.matrix.custom.html",
+    formatted_body: markdownToHtml(markdown),
+  }
+}
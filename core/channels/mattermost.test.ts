@@ -0,0 +1,259 @@
+import { test, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { createHash } from "node:crypto"
+import { createServer, IncomingMessage, Server } from "node:http"
+import { AddressInfo, Socket } from "node:net"
+import { MattermostChannel } from "./mattermost"
+import { UnifiedMessage } from "./base"
+
+/**
+ * MattermostChannel against a stub server: REST answers for /users/me and /posts, and a bare
+ * WebSocket endpoint that answers the authentication challenge and pushes events.
+ * The channel uses the global WebSocket, so these are skipped on Node versions without it.
+ */
+
+const BOT_ID = "bot-id"
+const ALICE_ID = "alice-id"
+
+const skip = typeof WebSocket === "undefined" ? "needs the global WebSocket (Node 22+)" : false
+
+interface RecordedRequest {
+  method: string
+  path: string
+  body: Record<string, unknown>
+}
+
+class StubMattermost {
+  readonly requests: RecordedRequest[] = []
+  readonly challenges: Record<string, unknown>[] = []
+  /** How the WebSocket answers the authentication challenge; "silent" never answers */
+  authReply: "OK" | "FAIL" | "silent" = "OK"
+  private sockets: Socket[] = []
+  private server?: Server
+  url = ""
+
+  posts() {
+    return this.requests.filter((r) => r.method === "POST" && r.path === "/api/v4/posts")
+  }
+
+  /** Pushes a WebSocket event to every connected client */
+  emit(event: Record<string, unknown>) {
+    for (const socket of this.sockets) socket.write(frame(JSON.stringify(event)))
+  }
+
+  async start() {
+    this.server = createServer(async (req, res) => {
+      const path = req.url || ""
+      const body = await readBody(req)
+      const reply = (status: number, data: unknown) => {
+        res.writeHead(status, { "Content-Type": "application/json" })
+        res.end(JSON.stringify(data))
+      }
+
+      if (path === "/api/v4/users/me") return reply(200, { id: BOT_ID, username: "dryads" })
+      this.requests.push({ method: req.method || "GET", path, body })
+      reply(201, { id: `post${this.requests.length}` })
+    })
+
+    this.server.on("upgrade", (req: IncomingMessage, socket: Socket) => {
+      const accept = createHash("sha1")
+        .update(`${req.headers["sec-websocket-key"]}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+        .digest("base64")
+      socket.write(
+        `HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`
+      )
+      socket.on("error", () => {})
+      this.sockets.push(socket)
+      readFrames(socket, (opcode, payload) => {
+        if (opcode === 8) return socket.end(frame("", 8))
+        if (opcode !== 1) return
+        const message = JSON.parse(payload.toString())
+        if (message.action !== "authentication_challenge") return
+        this.challenges.push(message)
+        if (this.authReply !== "silent") socket.write(frame(JSON.stringify({ status: this.authReply, seq_reply: message.seq })))
+      })
+    })
+
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve))
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`
+  }
+
+  async stop() {
+    for (const socket of this.sockets) socket.destroy()
+    await new Promise((resolve) => this.server?.close(resolve))
+  }
+}
+
+/** An unmasked server-to-client frame */
+function frame(text: string, opcode = 1): Buffer {
+  const payload = Buffer.from(text)
+  const header = payload.length < 126
+    ? Buffer.from([0x80 | opcode, payload.length])
+    : Buffer.from([0x80 | opcode, 126, payload.length >> 8, payload.length & 0xff])
+  return Buffer.concat([header, payload])
+}
+
+/** Calls `onFrame` for each masked client-to-server frame */
+function readFrames(socket: Socket, onFrame: (opcode: number, payload: Buffer) => void) {
+  let buffer = Buffer.alloc(0)
+  socket.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk])
+    while (buffer.length >= 2) {
+      let length = buffer[1] & 0x7f
+      let offset = 2
+      if (length === 126) {
+        if (buffer.length < 4) return
+        length = buffer.readUInt16BE(2)
+        offset = 4
+      }
+      if (buffer.length < offset + 4 + length) return
+      const mask = buffer.subarray(offset, offset + 4)
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length))
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+      const opcode = buffer[0] & 0x0f
+      buffer = buffer.subarray(offset + 4 + length)
+      onFrame(opcode, payload)
+    }
+  })
+}
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let data = ""
+  for await (const chunk of req) data += chunk
+  return data ? JSON.parse(data) : {}
+}
+
+/** A `posted` event; Mattermost sends the post and the mention list as JSON strings */
+function posted(post: Record<string, unknown>, data: Record<string, unknown> = {}) {
+  return {
+    event: "posted",
+    data: {
+      post: JSON.stringify({ user_id: ALICE_ID, channel_id: "town", create_at: 1700000000000, ...post }),
+      channel_type: "O",
+      channel_name: "town-square",
+      sender_name: "@alice",
+      team_id: "team1",
+      ...data,
+    },
+  }
+}
+
+const mentionsBot = { mentions: JSON.stringify([BOT_ID]) }
+
+async function waitFor(check: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for the channel")
+    await new Promise((resolve) => setTimeout(resolve, 5))
+  }
+}
+
+let server: StubMattermost
+let channel: MattermostChannel
+let messages: UnifiedMessage[]
+
+beforeEach(async () => {
+  server = new StubMattermost()
+  await server.start()
+  channel = new MattermostChannel()
+  messages = []
+  channel.onMessage(async (message) => {
+    messages.push(message)
+  })
+})
+
+afterEach(async () => {
+  await channel.disconnect()
+  await server.stop()
+})
+
+function connect(config: Record<string, unknown> = {}) {
+  return channel.connect({ serverUrl: `${server.url}/`, botToken: "token", ...config })
+}
+
+test("authenticates the WebSocket with the bot token", { skip }, async () => {
+  await connect()
+
+  assert.ok(channel.isConnected())
+  assert.deepEqual(server.challenges, [{ seq: 1, action: "authentication_challenge", data: { token: "token" } }])
+})
+
+test("fails to connect when the server refuses the token", { skip }, async () => {
+  server.authReply = "FAIL"
+
+  await assert.rejects(connect(), /authentication failed/)
+  assert.ok(!channel.isConnected())
+})
+
+test("gives up on a server that never answers the challenge", { skip }, async () => {
+  server.authReply = "silent"
+
+  await assert.rejects(connect({ authTimeoutMs: 50 }), /authentication timed out/)
+  assert.equal(server.challenges.length, 1)
+  assert.ok(!channel.isConnected())
+})
+
+test("maps channel mentions with files, and ignores chatter, its own posts and system posts", { skip }, async () => {
+  await connect()
+
+  server.emit(posted({ id: "chatter", message: "lunch?" }))
+  server.emit(posted({ id: "own", user_id: BOT_ID, message: "@dryads echo" }, mentionsBot))
+  server.emit(posted({ id: "join", type: "system_join_channel", message: "@dryads joined" }, mentionsBot))
+  server.emit(
+    posted(
+      {
+        id: "question",
+        message: "@dryads what does this chart show?",
+        file_ids: ["f1"],
+        metadata: { files: [{ id: "f1", name: "chart.png", mime_type: "image/png", size: 10 }] },
+      },
+      mentionsBot
+    )
+  )
+  await waitFor(() => messages.length > 0)
+
+  assert.equal(messages.length, 1)
+  const [message] = messages
+  assert.equal(message.id, "question")
+  assert.equal(message.channelType, "mattermost")
+  assert.equal(message.channelId, "town")
+  assert.equal(message.userId, ALICE_ID)
+  assert.equal(message.userName, "alice")
+  assert.equal(message.content, "what does this chart show?")
+  assert.equal(message.replyTo, undefined)
+  assert.deepEqual(message.attachments, [
+    { type: "image", url: `${server.url}/api/v4/files/f1`, name: "chart.png", mimeType: "image/png", size: 10 },
+  ])
+  assert.equal(message.metadata?.threadId, "question")
+  assert.equal(message.metadata?.isMention, true)
+  assert.equal(message.metadata?.isDM, false)
+  assert.equal(message.metadata?.attachmentsRequireAuth, true)
+})
+
+test("answers every direct message", { skip }, async () => {
+  await connect()
+
+  server.emit(posted({ id: "dm", channel_id: "dm-channel", message: "hi" }, { channel_type: "D" }))
+  await waitFor(() => messages.length > 0)
+
+  assert.equal(messages[0].content, "hi")
+  assert.equal(messages[0].metadata?.isDM, true)
+})
+
+test("replies into the thread, then follows it without further mentions", { skip }, async () => {
+  await connect()
+
+  server.emit(posted({ id: "in-thread", root_id: "root", message: "@dryads any update?" }, mentionsBot))
+  await waitFor(() => messages.length === 1)
+  assert.equal(messages[0].replyTo, "root")
+  assert.equal(messages[0].metadata?.threadId, "root")
+
+  await channel.sendMessage("town", "Shipping today.", { replyTo: "in-thread" })
+  assert.deepEqual(server.posts().map((r) => r.body), [{ channel_id: "town", message: "Shipping today.", root_id: "root" }])
+
+  server.emit(posted({ id: "other-thread", root_id: "elsewhere", message: "unrelated" }))
+  server.emit(posted({ id: "follow-up", root_id: "root", message: "great, thanks" }))
+  await waitFor(() => messages.length === 2)
+  assert.equal(messages[1].id, "follow-up")
+  assert.equal(messages[1].content, "great, thanks")
+})
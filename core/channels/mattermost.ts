@@ -0,0 +1,340 @@
+import {
+  BaseChannel,
+  ChannelCapabilities,
+  ChannelConfig,
+  Attachment,
+  UnifiedMessage,
+} from "./base"
+import { splitMessage } from "./format"
+
+/** The fields of a Mattermost post this channel reads */
+interface MattermostPost {
+  id: string
+  user_id: string
+  channel_id: string
+  message: string
+  root_id?: string
+  type?: string
+  create_at: number
+  file_ids?: string[]
+  metadata?: {
+    files?: { id: string; name: string; mime_type?: string; size?: number }[]
+  }
+}
+
+/** A WebSocket event; `posted` carries the post as a JSON string */
+interface MattermostEvent {
+  event?: string
+  seq_reply?: number
+  status?: string
+  data?: {
+    post?: string
+    channel_type?: string
+    channel_name?: string
+    sender_name?: string
+    team_id?: string
+    mentions?: string
+  }
+}
+
+const MAX_BACKOFF_MS = 60_000
+/** A server that accepts the socket but never answers the challenge would otherwise stall connect() */
+const AUTH_TIMEOUT_MS = 30_000
+/** Cap on remembered post ids (thread roots, threads the bot is in) */
+const MAX_TRACKED_POSTS = 1000
+
+/**
+ * Mattermost channel — a bot account on a Mattermost server.
+ * Receives posts over the v4 WebSocket API and replies through the REST API.
+ * In channels the bot answers when @-mentioned or inside a thread it has replied in; in DMs
+ * it answers everything. Replies go into the thread of the message they answer.
+ */
+export class MattermostChannel extends BaseChannel {
+  readonly type = "mattermost" as const
+  readonly name = "Mattermost"
+  readonly capabilities: ChannelCapabilities = {
+    streaming: false,
+    attachments: true,
+    reactions: true,
+    threads: true,
+    editing: true,
+    maxMessageLength: 16383,
+  }
+
+  private serverUrl = ""
+  private botToken = ""
+  private botUserId = ""
+  private botUsername = ""
+  private socket?: WebSocket
+  private seq = 1
+  private stopping = false
+  private reconnectTimer?: ReturnType<typeof setTimeout>
+  private backoffMs = 1000
+  private authTimeoutMs = AUTH_TIMEOUT_MS
+  private _connected = false
+  /** Post id → thread root, so replies land in the thread the user wrote in */
+  private threadRoots = new Map<string, string>()
+  private activeThreads = new Set<string>()
+
+  async connect(config: ChannelConfig): Promise<void> {
+    const serverUrl = config.serverUrl as string
+    const token = config.botToken as string
+    if (!serverUrl || !token) throw new Error("Mattermost server URL and bot token required")
+
+    this.serverUrl = serverUrl.replace(/\/+$/, "")
+    this.botToken = token
+    this.stopping = false
+    if (config.authTimeoutMs) this.authTimeoutMs = Number(config.authTimeoutMs)
+
+    const me = await this.api<{ id: string; username: string }>("GET", "/users/me")
+    this.botUserId = me.id
+    this.botUsername = me.username
+
+    await this.openSocket()
+    this._connected = true
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopping = true
+    this._connected = false
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.socket?.close()
+    this.socket = undefined
+  }
+
+  isConnected(): boolean {
+    return this._connected
+  }
+
+  async sendMessage(
+    channelId: string,
+    content: string,
+    options?: { replyTo?: string; attachments?: Attachment[] }
+  ): Promise<void> {
+    if (!this.botToken) throw new Error("Mattermost not connected")
+
+    const rootId = options?.replyTo ? this.threadRoots.get(options.replyTo) || options.replyTo : undefined
+    if (rootId) this.remember(this.activeThreads, rootId)
+
+    const fileIds: string[] = []
+    for (const attachment of options?.attachments || []) {
+      fileIds.push(await this.upload(channelId, attachment))
+    }
+
+    const chunks = splitMessage(content, this.capabilities.maxMessageLength)
+    for (let i = 0; i < chunks.length; i++) {
+      // Files go on the last post so they appear below the full reply
+      const withFiles = i === chunks.length - 1 && fileIds.length > 0
+      if (!chunks[i].trim() && !withFiles) continue
+      await this.api("POST", "/posts", {
+        channel_id: channelId,
+        message: chunks[i],
+        ...(rootId ? { root_id: rootId } : {}),
+        ...(withFiles ? { file_ids: fileIds } : {}),
+      })
+    }
+  }
+
+  /** Downloads a file attached to a post; /api/v4/files links need the bot token */
+  async downloadFile(url: string): Promise<Buffer> {
+    const res = await fetch(url, {
+      headers: { Authorization: `Bearer ${this.botToken}` },
+      signal: AbortSignal.timeout(30000),
+    })
+    if (!res.ok) throw new Error(`Mattermost file download failed: ${res.status}`)
+    return Buffer.from(await res.arrayBuffer())
+  }
+
+  // ── WebSocket ─────────────────────────────────────────────────────
+
+  private openSocket(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(`${this.serverUrl.replace(/^http/, "ws")}/api/v4/websocket`)
+      this.socket = socket
+      let authenticated = false
+      const authTimer = setTimeout(() => {
+        reject(new Error("Mattermost WebSocket authentication timed out"))
+        socket.close()
+      }, this.authTimeoutMs)
+
+      socket.addEventListener("open", () => {
+        const seq = this.seq++
+        socket.send(JSON.stringify({ seq, action: "authentication_challenge", data: { token: this.botToken } }))
+      })
+
+      socket.addEventListener("message", (event) => {
+        let payload: MattermostEvent
+        try {
+          payload = JSON.parse(String(event.data))
+        } catch {
+          return
+        }
+
+        if (!authenticated && payload.seq_reply !== undefined) {
+          clearTimeout(authTimer)
+          if (payload.status !== "OK") {
+            reject(new Error("Mattermost WebSocket authentication failed"))
+            socket.close()
+            return
+          }
+          authenticated = true
+          this.backoffMs = 1000
+          resolve()
+          return
+        }
+
+        if (payload.event === "posted") {
+          this.handlePosted(payload).catch((err) =>
+            console.error("[Mattermost] Message handler error:", err instanceof Error ? err.message : err)
+          )
+        }
+      })
+
+      socket.addEventListener("close", () => {
+        if (this.socket !== socket) return
+        if (!authenticated) {
+          clearTimeout(authTimer)
+          reject(new Error("Mattermost WebSocket closed before authenticating"))
+          return
+        }
+        this.scheduleReconnect()
+      })
+
+      socket.addEventListener("error", () => {
+        console.error("[Mattermost] WebSocket error")
+      })
+    })
+  }
+
+  private scheduleReconnect() {
+    if (this.stopping || this.reconnectTimer) return
+    console.warn(`[Mattermost] WebSocket closed, reconnecting in ${this.backoffMs / 1000}s`)
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined
+      try {
+        await this.openSocket()
+      } catch (err) {
+        console.error("[Mattermost] Reconnect failed:", err instanceof Error ? err.message : err)
+        this.backoffMs = Math.min(this.backoffMs * 2, MAX_BACKOFF_MS)
+        this.scheduleReconnect()
+      }
+    }, this.backoffMs)
+  }
+
+  private async handlePosted(event: MattermostEvent) {
+    if (!this.messageHandler || !event.data?.post) return
+    const post = JSON.parse(event.data.post) as MattermostPost
+    // System posts (joins, header changes) have a type; user posts don't
+    if (post.user_id === this.botUserId || post.type) return
+
+    const isDM = event.data.channel_type === "D"
+    const mentions: string[] = event.data.mentions ? JSON.parse(event.data.mentions) : []
+    const isMention = mentions.includes(this.botUserId)
+    const followsUp = !!post.root_id && this.activeThreads.has(post.root_id)
+    if (!isDM && !isMention && !followsUp) return
+
+    if (post.root_id) this.rememberThread(post.id, post.root_id)
+
+    const mention = new RegExp(`@${this.botUsername.replace(/[.*+?^${}()|[\]\\-]/g, "\\$&")}\\b`, "gi")
+    const attachments: Attachment[] = (post.metadata?.files || []).map((f) => ({
+      type: (f.mime_type?.startsWith("image/")
+        ? "image"
+        : f.mime_type?.startsWith("audio/")
+          ? "audio"
+          : f.mime_type?.startsWith("video/")
+            ? "video"
+            : "file") as Attachment["type"],
+      url: `${this.serverUrl}/api/v4/files/${f.id}`,
+      name: f.name,
+      mimeType: f.mime_type,
+      size: f.size,
+    }))
+
+    const message: UnifiedMessage = {
+      id: post.id,
+      channelType: "mattermost",
+      channelId: post.channel_id,
+      userId: post.user_id,
+      userName: event.data.sender_name?.replace(/^@/, ""),
+      content: post.message.replace(mention, "").trim(),
+      attachments: attachments.length > 0 ? attachments : undefined,
+      replyTo: post.root_id || undefined,
+      timestamp: new Date(post.create_at),
+      metadata: {
+        teamId: event.data.team_id,
+        channelName: event.data.channel_name,
+        threadId: post.root_id || post.id,
+        isDM,
+        isMention,
+        mentions,
+        // Attachment URLs need the bot token; fetch them with downloadFile()
+        attachmentsRequireAuth: attachments.length > 0,
+      },
+    }
+
+    await this.messageHandler(message)
+  }
+
+  // ── REST ──────────────────────────────────────────────────────────
+
+  private async api<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const res = await fetch(`${this.serverUrl}/api/v4${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.botToken}`,
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(30000),
+    })
+    if (!res.ok) {
+      const err = (await res.json().catch(() => ({}))) as { message?: string }
+      throw new Error(`Mattermost ${method} ${path} failed: ${res.status} ${err.message || ""}`.trim())
+    }
+    return (await res.json()) as T
+  }
+
+  private async upload(channelId: string, attachment: Attachment): Promise<string> {
+    let data: Buffer
+    if (attachment.url.startsWith("data:")) {
+      data = Buffer.from(attachment.url.slice(attachment.url.indexOf(",") + 1), "base64")
+    } else if (attachment.url.startsWith(`${this.serverUrl}/api/v4/files/`)) {
+      data = await this.downloadFile(attachment.url)
+    } else {
+      const res = await fetch(attachment.url, { signal: AbortSignal.timeout(30000) })
+      if (!res.ok) throw new Error(`Attachment download failed: ${res.status}`)
+      data = Buffer.from(await res.arrayBuffer())
+    }
+
+    const form = new FormData()
+    form.append("channel_id", channelId)
+    form.append(
+      "files",
+      new Blob([new Uint8Array(data)], { type: attachment.mimeType || "application/octet-stream" }),
+      attachment.name || "attachment"
+    )
+    const res = await fetch(`${this.serverUrl}/api/v4/files`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${this.botToken}` },
+      body: form,
+      signal: AbortSignal.timeout(60000),
+    })
+    if (!res.ok) throw new Error(`Mattermost upload failed: ${res.status}`)
+    const { file_infos } = (await res.json()) as { file_infos: { id: string }[] }
+    return file_infos[0].id
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────
+
+  private rememberThread(postId: string, root: string) {
+    if (this.threadRoots.size >= MAX_TRACKED_POSTS) {
+      this.threadRoots.delete(this.threadRoots.keys().next().value!)
+    }
+    this.threadRoots.set(postId, root)
+  }
+
+  private remember(set: Set<string>, value: string) {
+    if (set.size >= MAX_TRACKED_POSTS) set.delete(set.values().next().value!)
+    set.add(value)
+  }
+}
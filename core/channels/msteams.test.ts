@@ -0,0 +1,151 @@
+import { test, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { createServer, IncomingMessage, Server } from "node:http"
+import { AddressInfo } from "node:net"
+import { MSTeamsChannel, TeamsActivity } from "./msteams"
+import { UnifiedMessage } from "./base"
+
+/**
+ * MSTeamsChannel without an App ID (Bot Framework Emulator mode), so no token is fetched,
+ * replying to a stub Bot Connector service that records every request.
+ */
+
+const BOT = { id: "28:bot", name: "Dryads" }
+const ALICE = { id: "29:alice", name: "Alice", aadObjectId: "aad-alice" }
+const CHANNEL_THREAD = "19:general@thread.tacv2;messageid=1700000000001"
+
+interface RecordedRequest {
+  method: string
+  path: string
+  headers: IncomingMessage["headers"]
+  body: Record<string, unknown>
+}
+
+let server: Server
+let serviceUrl: string
+let requests: RecordedRequest[]
+let channel: MSTeamsChannel
+let messages: UnifiedMessage[]
+
+beforeEach(async () => {
+  requests = []
+  server = createServer(async (req, res) => {
+    let data = ""
+    for await (const chunk of req) data += chunk
+    requests.push({ method: req.method || "GET", path: req.url || "", headers: req.headers, body: data ? JSON.parse(data) : {} })
+    res.writeHead(200, { "Content-Type": "application/json" })
+    res.end(JSON.stringify({ id: `sent${requests.length}` }))
+  })
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  serviceUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+
+  channel = new MSTeamsChannel()
+  messages = []
+  channel.onMessage(async (message) => {
+    messages.push(message)
+  })
+  await channel.connect({})
+})
+
+afterEach(async () => {
+  await channel.disconnect()
+  await new Promise((resolve) => server.close(resolve))
+})
+
+function activity(overrides: Partial<TeamsActivity> = {}): TeamsActivity {
+  return {
+    type: "message",
+    id: "1700000000002",
+    timestamp: "2026-01-01T12:00:00.000Z",
+    serviceUrl,
+    channelId: "msteams",
+    from: ALICE,
+    recipient: BOT,
+    conversation: { id: "a:personal-chat", conversationType: "personal", tenantId: "tenant1" },
+    text: "hello",
+    ...overrides,
+  }
+}
+
+function channelActivity(text: string, entities: TeamsActivity["entities"] = []) {
+  return activity({
+    conversation: { id: CHANNEL_THREAD, conversationType: "channel", tenantId: "tenant1" },
+    text,
+    entities,
+    channelData: { team: { id: "team1" }, channel: { id: "19:general@thread.tacv2" } },
+  })
+}
+
+test("answers everything in personal chats", async () => {
+  await channel.handleActivity(activity({ text: "<p>What&#39;s on today?</p>" }))
+
+  assert.equal(messages.length, 1)
+  const [message] = messages
+  assert.equal(message.channelType, "msteams")
+  assert.equal(message.channelId, "a:personal-chat")
+  assert.equal(message.userId, "aad-alice")
+  assert.equal(message.userName, "Alice")
+  assert.equal(message.content, "What's on today?")
+  assert.equal(message.metadata?.isMention, false)
+})
+
+test("answers channel messages only when mentioned, without its own mention", async () => {
+  await channel.handleActivity(channelActivity("<p>Lunch, anyone?</p>"))
+  assert.equal(messages.length, 0)
+
+  await channel.handleActivity(
+    channelActivity("<p><at>Dryads</at> can you ask <at>Bob</at> about the release?</p>", [
+      { type: "mention", mentioned: BOT, text: "<at>Dryads</at>" },
+      { type: "mention", mentioned: { id: "29:bob", name: "Bob" }, text: "<at>Bob</at>" },
+    ])
+  )
+
+  assert.equal(messages.length, 1)
+  const [message] = messages
+  assert.equal(message.content, "can you ask @Bob about the release?")
+  assert.equal(message.replyTo, "1700000000001")
+  assert.equal(message.metadata?.threadId, "1700000000001")
+  assert.equal(message.metadata?.teamId, "team1")
+  assert.equal(message.metadata?.isMention, true)
+  assert.deepEqual(message.metadata?.mentions, [
+    { id: BOT.id, name: "Dryads" },
+    { id: "29:bob", name: "Bob" },
+  ])
+})
+
+test("ignores its own activities and non-message activities", async () => {
+  await channel.handleActivity(activity({ from: BOT }))
+  await channel.handleActivity(activity({ type: "conversationUpdate" }))
+
+  assert.equal(messages.length, 0)
+})
+
+test("posts replies to the service URL the conversation came from", async () => {
+  const incoming = channelActivity("<at>Dryads</at> status?", [{ type: "mention", mentioned: BOT, text: "<at>Dryads</at>" }])
+  await channel.handleActivity(incoming)
+
+  await channel.sendMessage(CHANNEL_THREAD, "**All green.**", { replyTo: incoming.id })
+
+  assert.equal(requests.length, 1)
+  const [request] = requests
+  assert.equal(request.method, "POST")
+  assert.equal(request.path, `/v3/conversations/${encodeURIComponent(CHANNEL_THREAD)}/activities/${incoming.id}`)
+  assert.equal(request.headers.authorization, undefined)
+  assert.deepEqual(request.body, { type: "message", text: "**All green.**", textFormat: "markdown", replyToId: incoming.id })
+})
+
+test("replies after a restart using the service URL saved with the message", async () => {
+  await channel.handleActivity(activity())
+  // Queued jobs store the message as JSON
+  const queued = JSON.parse(JSON.stringify(messages[0])) as UnifiedMessage
+
+  const restarted = new MSTeamsChannel()
+  await restarted.connect({})
+  await assert.rejects(restarted.sendMessage(queued.channelId, "Hi!"), /No Teams service URL known/)
+
+  restarted.restoreReplyState(queued)
+  await restarted.sendMessage(queued.channelId, "Hi!", { replyTo: queued.id })
+
+  assert.equal(requests.length, 1)
+  assert.equal(requests[0].path, `/v3/conversations/${encodeURIComponent("a:personal-chat")}/activities/${queued.id}`)
+})
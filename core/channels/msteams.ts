@@ -0,0 +1,282 @@
+import {
+  BaseChannel,
+  ChannelCapabilities,
+  ChannelConfig,
+  Attachment,
+  UnifiedMessage,
+} from "./base"
+import { splitMessage } from "./format"
+
+/** The fields of a Bot Framework activity this channel reads */
+export interface TeamsActivity {
+  type: "message" | "conversationUpdate" | string
+  id: string
+  timestamp?: string
+  serviceUrl: string
+  /** "msteams", or "emulator" for the Bot Framework Emulator */
+  channelId: string
+  from: { id: string; name?: string; aadObjectId?: string }
+  recipient: { id: string; name?: string }
+  conversation: {
+    id: string
+    conversationType?: "personal" | "channel" | "groupChat"
+    tenantId?: string
+  }
+  text?: string
+  replyToId?: string
+  attachments?: {
+    contentType: string
+    contentUrl?: string
+    name?: string
+    content?: { downloadUrl?: string; fileType?: string }
+  }[]
+  entities?: { type: string; mentioned?: { id: string; name?: string }; text?: string }[]
+  channelData?: {
+    team?: { id: string; name?: string }
+    channel?: { id: string; name?: string }
+  }
+}
+
+const TOKEN_SCOPE = "https://api.botframework.com/.default"
+/** Teams rejects activities over ~28 KB */
+const MAX_TEXT_LENGTH = 25000
+/** Cap on remembered conversation → serviceUrl mappings */
+const MAX_TRACKED_CONVERSATIONS = 1000
+
+/**
+ * Microsoft Teams channel — a Bot Framework bot.
+ * There's no connection to hold open: app/api/webhooks/msteams verifies each incoming activity
+ * and passes it to handleActivity, and replies are posted to the activity's serviceUrl with an
+ * app token. channelId is the conversation id, which for a channel thread includes
+ * ";messageid=<root>", so replies land in the thread. In channels and group chats the bot
+ * answers when @-mentioned; in personal chats it answers everything.
+ * Without an App ID the channel talks to the Bot Framework Emulator unauthenticated.
+ */
+export class MSTeamsChannel extends BaseChannel {
+  readonly type = "msteams" as const
+  readonly name = "Microsoft Teams"
+  readonly capabilities: ChannelCapabilities = {
+    streaming: false,
+    attachments: true,
+    reactions: false,
+    threads: true,
+    editing: true,
+    maxMessageLength: MAX_TEXT_LENGTH,
+  }
+
+  private appId = ""
+  private appPassword = ""
+  private tenantId = "botframework.com"
+  private defaultServiceUrl?: string
+  private token?: { value: string; expiresAt: number }
+  private _connected = false
+  /** Conversation id → serviceUrl; replies must go to the region the activity came from */
+  private serviceUrls = new Map<string, string>()
+
+  async connect(config: ChannelConfig): Promise<void> {
+    this.appId = (config.appId as string) || ""
+    this.appPassword = (config.appPassword as string) || ""
+    if (this.appId && !this.appPassword) throw new Error("Teams app password required")
+    // Single-tenant bots get tokens from their own tenant
+    if (config.tenantId) this.tenantId = config.tenantId as string
+    this.defaultServiceUrl = config.serviceUrl as string | undefined
+
+    if (this.appId) await this.getToken()
+    this._connected = true
+  }
+
+  async disconnect(): Promise<void> {
+    this.token = undefined
+    this._connected = false
+  }
+
+  isConnected(): boolean {
+    return this._connected
+  }
+
+  /** Handles an activity that app/api/webhooks/msteams has already authenticated */
+  async handleActivity(activity: TeamsActivity): Promise<void> {
+    this.rememberServiceUrl(activity.conversation.id, activity.serviceUrl)
+    if (activity.type !== "message" || !this.messageHandler) return
+    if (activity.from.id === activity.recipient.id) return
+
+    const mentions = (activity.entities || []).filter((e) => e.type === "mention" && e.mentioned)
+    const isMention = mentions.some((e) => e.mentioned!.id === activity.recipient.id)
+    const isPersonal = (activity.conversation.conversationType || "personal") === "personal"
+    if (!isPersonal && !isMention) return
+
+    let text = activity.text || ""
+    for (const mention of mentions) {
+      if (!mention.text) continue
+      // The bot's own mention is just addressing; other mentions become @Name
+      const replacement = mention.mentioned!.id === activity.recipient.id ? "" : `@${mention.mentioned!.name || ""}`
+      text = text.split(mention.text).join(replacement)
+    }
+
+    const attachments: Attachment[] = []
+    for (const a of activity.attachments || []) {
+      if (a.contentType === "application/vnd.microsoft.teams.file.download.info" && a.content?.downloadUrl) {
+        attachments.push({ type: "file", url: a.content.downloadUrl, name: a.name })
+      } else if (a.contentUrl && !a.contentType.startsWith("text/") && !a.contentType.startsWith("application/vnd.microsoft.card")) {
+        attachments.push({
+          type: a.contentType.startsWith("image/") ? "image" : a.contentType.startsWith("audio/") ? "audio" : a.contentType.startsWith("video/") ? "video" : "file",
+          url: a.contentUrl,
+          name: a.name,
+          mimeType: a.contentType.includes("/") ? a.contentType : undefined,
+        })
+      }
+    }
+
+    const threadId = activity.conversation.id.match(/;messageid=(\d+)/)?.[1]
+    const message: UnifiedMessage = {
+      id: activity.id,
+      channelType: "msteams",
+      channelId: activity.conversation.id,
+      userId: activity.from.aadObjectId || activity.from.id,
+      userName: activity.from.name,
+      content: htmlToText(text),
+      attachments: attachments.length > 0 ? attachments : undefined,
+      replyTo: activity.replyToId || (threadId !== activity.id ? threadId : undefined),
+      timestamp: activity.timestamp ? new Date(activity.timestamp) : new Date(),
+      metadata: {
+        conversationType: activity.conversation.conversationType,
+        tenantId: activity.conversation.tenantId,
+        teamId: activity.channelData?.team?.id,
+        teamChannelId: activity.channelData?.channel?.id,
+        threadId,
+        // Saved with the queued message, so a reply after a restart still knows where to go
+        serviceUrl: activity.serviceUrl,
+        isMention,
+        mentions: mentions.map((e) => ({ id: e.mentioned!.id, name: e.mentioned!.name })),
+        // Inline images on Teams' service URL need the bot token; fetch them with downloadFile()
+        attachmentsRequireAuth: attachments.some((a) => a.url.startsWith(activity.serviceUrl)),
+      },
+    }
+
+    await this.messageHandler(message)
+  }
+
+  /** Re-learns the conversation's serviceUrl from a message handled before a restart */
+  restoreReplyState(message: UnifiedMessage): void {
+    const serviceUrl = message.metadata.serviceUrl
+    if (typeof serviceUrl === "string" && !this.serviceUrls.has(message.channelId)) {
+      this.rememberServiceUrl(message.channelId, serviceUrl)
+    }
+  }
+
+  async sendMessage(
+    channelId: string,
+    content: string,
+    options?: { replyTo?: string; attachments?: Attachment[] }
+  ): Promise<void> {
+    const chunks = splitMessage(content, this.capabilities.maxMessageLength)
+    const attachments = (options?.attachments || []).map((a) => ({
+      contentType: a.mimeType || (a.type === "image" ? "image/png" : "application/octet-stream"),
+      contentUrl: a.url,
+      name: a.name,
+    }))
+
+    for (let i = 0; i < chunks.length; i++) {
+      const last = i === chunks.length - 1
+      if (!chunks[i].trim() && !(last && attachments.length > 0)) continue
+      await this.postActivity(channelId, {
+        type: "message",
+        text: chunks[i],
+        textFormat: "markdown",
+        ...(options?.replyTo ? { replyToId: options.replyTo } : {}),
+        ...(last && attachments.length > 0 ? { attachments } : {}),
+      }, options?.replyTo)
+    }
+  }
+
+  /** Replaces the text of a message the bot sent earlier */
+  async editMessage(channelId: string, activityId: string, content: string): Promise<void> {
+    await this.request(
+      "PUT",
+      `${this.serviceUrlFor(channelId)}/v3/conversations/${encodeURIComponent(channelId)}/activities/${encodeURIComponent(activityId)}`,
+      { type: "message", id: activityId, text: content, textFormat: "markdown" }
+    )
+  }
+
+  /** Downloads an inline attachment; Teams' contentUrls need the bot token */
+  async downloadFile(url: string): Promise<Buffer> {
+    const headers: Record<string, string> = {}
+    if (this.appId) headers.Authorization = `Bearer ${await this.getToken()}`
+    const res = await fetch(url, { headers, signal: AbortSignal.timeout(30000) })
+    if (!res.ok) throw new Error(`Teams file download failed: ${res.status}`)
+    return Buffer.from(await res.arrayBuffer())
+  }
+
+  // ── Bot Connector API ─────────────────────────────────────────────
+
+  private async postActivity(conversationId: string, activity: Record<string, unknown>, replyTo?: string) {
+    const base = `${this.serviceUrlFor(conversationId)}/v3/conversations/${encodeURIComponent(conversationId)}/activities`
+    await this.request("POST", replyTo ? `${base}/${encodeURIComponent(replyTo)}` : base, activity)
+  }
+
+  private async request(method: string, url: string, body: unknown) {
+    const headers: Record<string, string> = { "Content-Type": "application/json" }
+    if (this.appId) headers.Authorization = `Bearer ${await this.getToken()}`
+    const res = await fetch(url, {
+      method,
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(30000),
+    })
+    if (!res.ok) {
+      const err = (await res.json().catch(() => ({}))) as { error?: { message?: string } }
+      throw new Error(`Teams ${method} failed: ${res.status} ${err.error?.message || ""}`.trim())
+    }
+  }
+
+  /** App token for the Bot Connector API, cached until shortly before it expires */
+  private async getToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now() + 5 * 60_000) return this.token.value
+
+    const res = await fetch(`https://login.microsoftonline.com/${this.tenantId}/oauth2/v2.0/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "client_credentials",
+        client_id: this.appId,
+        client_secret: this.appPassword,
+        scope: TOKEN_SCOPE,
+      }),
+      signal: AbortSignal.timeout(15000),
+    })
+    const data = (await res.json()) as { access_token?: string; expires_in?: number; error_description?: string }
+    if (!res.ok || !data.access_token) {
+      throw new Error(`Teams token request failed: ${data.error_description || res.status}`)
+    }
+    this.token = { value: data.access_token, expiresAt: Date.now() + (data.expires_in || 3600) * 1000 }
+    return this.token.value
+  }
+
+  private serviceUrlFor(conversationId: string): string {
+    const url = this.serviceUrls.get(conversationId) || this.defaultServiceUrl
+    if (!url) throw new Error(`No Teams service URL known for conversation ${conversationId}`)
+    return url.replace(/\/+$/, "")
+  }
+
+  private rememberServiceUrl(conversationId: string, serviceUrl: string) {
+    if (!this.serviceUrls.has(conversationId) && this.serviceUrls.size >= MAX_TRACKED_CONVERSATIONS) {
+      this.serviceUrls.delete(this.serviceUrls.keys().next().value!)
+    }
+    this.serviceUrls.set(conversationId, serviceUrl)
+  }
+}
+
+/** Teams sends message text as light HTML (<p>, <br>, entities); the AI gets plain text */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/p>\s*<p[^>]*>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim()
+}
@@ -0,0 +1,323 @@
+import { App, LogLevel, webApi } from "@slack/bolt"
+import {
+  BaseChannel,
+  ChannelCapabilities,
+  ChannelConfig,
+  Attachment,
+  UnifiedMessage,
+} from "./base"
+import { splitMessage } from "./format"
+
+/** The fields of a Slack message / app_mention event this channel reads */
+interface SlackMessageEvent {
+  type: string
+  subtype?: string
+  channel: string
+  channel_type?: string
+  user?: string
+  bot_id?: string
+  text?: string
+  ts: string
+  thread_ts?: string
+  team?: string
+  files?: {
+    name?: string
+    mimetype?: string
+    size?: number
+    url_private?: string
+    url_private_download?: string
+  }[]
+}
+
+/** Events API request body (https://api.slack.com/apis/events-api) */
+export interface SlackEventsPayload {
+  type: "url_verification" | "event_callback" | string
+  challenge?: string
+  team_id?: string
+  event_id?: string
+  event?: SlackMessageEvent
+}
+
+/** Cap on remembered message timestamps (thread roots, seen events, threads the bot is in) */
+const MAX_TRACKED_MESSAGES = 1000
+
+/**
+ * Slack channel — a bot in a Slack workspace.
+ * Runs over Socket Mode when an app-level token (xapp-) is configured, otherwise over the
+ * Events API, where app/api/webhooks/slack passes verified request bodies to handleEventsPayload.
+ * In channels the bot answers when mentioned or inside a thread it has replied in; in DMs it
+ * answers everything.
+ */
+export class SlackChannel extends BaseChannel {
+  readonly type = "slack" as const
+  readonly name = "Slack"
+  readonly capabilities: ChannelCapabilities = {
+    streaming: false,
+    attachments: true,
+    reactions: true,
+    threads: true,
+    editing: true,
+    maxMessageLength: 4000,
+  }
+
+  private app?: App
+  private client?: webApi.WebClient
+  private botToken?: string
+  private botUserId?: string
+  private replyInThread = true
+  private _connected = false
+  /** Message ts → thread root, so replies land in the thread the user wrote in */
+  private threadRoots = new Map<string, string>()
+  private activeThreads = new Set<string>()
+  private seen = new Set<string>()
+
+  async connect(config: ChannelConfig): Promise<void> {
+    const token = config.botToken as string
+    if (!token) throw new Error("Slack bot token required")
+    const appToken = config.appToken as string | undefined
+    const mode = (config.mode as string | undefined) || (appToken ? "socket" : "events")
+    this.botToken = token
+    this.replyInThread = config.replyInThread !== false
+
+    if (mode === "socket") {
+      if (!appToken) throw new Error("Slack app token (xapp-) required for Socket Mode")
+      this.app = new App({ token, appToken, socketMode: true, logLevel: LogLevel.WARN })
+      this.app.event("message", async ({ event }) => {
+        await this.handleEvent(event as unknown as SlackMessageEvent)
+      })
+      this.app.event("app_mention", async ({ event }) => {
+        await this.handleEvent(event as unknown as SlackMessageEvent)
+      })
+      this.client = this.app.client
+    } else {
+      if (!config.signingSecret) throw new Error("Slack signing secret required for the Events API")
+      this.client = new webApi.WebClient(token)
+    }
+
+    const auth = await this.client.auth.test()
+    this.botUserId = auth.user_id
+
+    if (this.app) await this.app.start()
+    this._connected = true
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.app) {
+      await this.app.stop()
+      this.app = undefined
+    }
+    this.client = undefined
+    this._connected = false
+  }
+
+  isConnected(): boolean {
+    return this._connected
+  }
+
+  /**
+   * Handles an Events API request body that has already passed signature verification.
+   * Returns the challenge for url_verification; message events are handed to the message handler.
+   */
+  async handleEventsPayload(payload: SlackEventsPayload): Promise<{ challenge?: string }> {
+    if (payload.type === "url_verification") return { challenge: payload.challenge }
+    if (payload.type === "event_callback" && payload.event) {
+      await this.handleEvent({ ...payload.event, team: payload.event.team || payload.team_id })
+    }
+    return {}
+  }
+
+  async sendMessage(
+    channelId: string,
+    content: string,
+    options?: { replyTo?: string; attachments?: Attachment[] }
+  ): Promise<void> {
+    if (!this.client) throw new Error("Slack client not connected")
+
+    const threadTs = this.resolveThread(channelId, options?.replyTo)
+    if (threadTs) this.remember(this.activeThreads, threadTs)
+    const chunks = splitMessage(toMrkdwn(content), this.capabilities.maxMessageLength)
+
+    for (const chunk of chunks) {
+      if (!chunk.trim()) continue
+      await this.client.chat.postMessage({
+        channel: channelId,
+        text: chunk,
+        mrkdwn: true,
+        ...(threadTs ? { thread_ts: threadTs } : {}),
+      })
+    }
+
+    for (const attachment of options?.attachments || []) {
+      const file = await this.loadAttachment(attachment)
+      const filename = attachment.name || fileNameFromUrl(attachment.url)
+      await this.client.files.uploadV2(
+        threadTs
+          ? { channel_id: channelId, thread_ts: threadTs, file, filename }
+          : { channel_id: channelId, file, filename }
+      )
+    }
+  }
+
+  /** Downloads a file shared in Slack; url_private links need the bot token */
+  async downloadFile(url: string): Promise<Buffer> {
+    if (!this.botToken) throw new Error("Slack client not connected")
+    const res = await fetch(url, {
+      headers: { Authorization: `Bearer ${this.botToken}` },
+      signal: AbortSignal.timeout(30000),
+    })
+    if (!res.ok) throw new Error(`Slack file download failed: ${res.status}`)
+    return Buffer.from(await res.arrayBuffer())
+  }
+
+  private async handleEvent(event: SlackMessageEvent): Promise<void> {
+    if (!this.messageHandler) return
+    if (event.bot_id || (this.botUserId && event.user === this.botUserId) || !event.user) return
+    if (event.subtype && event.subtype !== "file_share" && event.subtype !== "thread_broadcast") return
+
+    // A mention arrives both as "message" and "app_mention"; handle it once
+    if (this.seen.has(event.ts)) return
+    this.remember(this.seen, event.ts)
+
+    const isDM = event.channel_type === "im" || event.channel.startsWith("D")
+    const mention = this.botUserId ? `<@${this.botUserId}>` : null
+    const isMention = event.type === "app_mention" || (!!mention && !!event.text?.includes(mention))
+    const inThread = !!event.thread_ts && event.thread_ts !== event.ts
+    const followsUp = inThread && this.activeThreads.has(event.thread_ts!)
+    if (!isDM && !isMention && !followsUp) return
+
+    if (inThread) this.rememberThread(event.ts, event.thread_ts!)
+
+    const text = mention ? (event.text || "").split(mention).join("") : event.text || ""
+    const attachments: Attachment[] = (event.files || [])
+      .filter((f) => f.url_private_download || f.url_private)
+      .map((f) => ({
+        type: (f.mimetype?.startsWith("image/")
+          ? "image"
+          : f.mimetype?.startsWith("audio/")
+            ? "audio"
+            : f.mimetype?.startsWith("video/")
+              ? "video"
+              : "file") as Attachment["type"],
+        url: (f.url_private_download || f.url_private)!,
+        name: f.name,
+        mimeType: f.mimetype,
+        size: f.size,
+      }))
+
+    const message: UnifiedMessage = {
+      id: event.ts,
+      channelType: "slack",
+      channelId: event.channel,
+      userId: event.user,
+      content: fromMrkdwn(text),
+      attachments: attachments.length > 0 ? attachments : undefined,
+      replyTo: inThread ? event.thread_ts : undefined,
+      timestamp: new Date(Number(event.ts) * 1000),
+      metadata: {
+        teamId: event.team,
+        threadTs: event.thread_ts,
+        isDM,
+        isMention,
+        // Attachment URLs are url_private links; fetch them with downloadFile()
+        attachmentsRequireAuth: attachments.length > 0,
+      },
+    }
+
+    await this.messageHandler(message)
+  }
+
+  /**
+   * Thread to post a reply in: the thread the replied-to message was in, or a new thread
+   * under it in channels (replyInThread). DMs get plain replies unless already threaded.
+   */
+  private resolveThread(channelId: string, replyTo?: string): string | undefined {
+    if (!replyTo) return undefined
+    const root = this.threadRoots.get(replyTo)
+    if (root) return root
+    if (channelId.startsWith("D") || !this.replyInThread) return undefined
+    return replyTo
+  }
+
+  private rememberThread(ts: string, root: string) {
+    if (this.threadRoots.size >= MAX_TRACKED_MESSAGES) {
+      this.threadRoots.delete(this.threadRoots.keys().next().value!)
+    }
+    this.threadRoots.set(ts, root)
+  }
+
+  private remember(set: Set<string>, value: string) {
+    if (set.size >= MAX_TRACKED_MESSAGES) set.delete(set.values().next().value!)
+    set.add(value)
+  }
+
+  private async loadAttachment(attachment: Attachment): Promise<Buffer> {
+    if (attachment.url.startsWith("data:")) {
+      return Buffer.from(attachment.url.slice(attachment.url.indexOf(",") + 1), "base64")
+    }
+    // Files from this workspace need the bot token; anything else is a public URL
+    if (attachment.url.startsWith("https://files.slack.com/")) return this.downloadFile(attachment.url)
+
+    const res = await fetch(attachment.url, { signal: AbortSignal.timeout(30000) })
+    if (!res.ok) throw new Error(`Attachment download failed: ${res.status}`)
+    return Buffer.from(await res.arrayBuffer())
+  }
+}
+
+function fileNameFromUrl(url: string): string {
+  if (url.startsWith("data:")) return "attachment"
+  try {
+    return decodeURIComponent(new URL(url).pathname.split("/").pop() || "") || "attachment"
+  } catch {
+    return "attachment"
+  }
+}
+
+// ── mrkdwn ↔ Markdown ────────────────────────────────────────────────
+
+/** Runs `convert` on the text outside code blocks and inline code, which Slack renders verbatim */
+function outsideCode(text: string, convert: (segment: string) => string): string {
+  return text
+    .split(/(```[\s\S]*?```|`[^`\n]+`)/g)
+    .map((part, i) => (i % 2 === 1 ? part : convert(part)))
+    .join("")
+}
+
+/** Converts the Markdown the AI writes into Slack mrkdwn */
+export function toMrkdwn(markdown: string): string {
+  const text = markdown.replace(/```[a-zA-Z0-9_+-]*\n/g, "```\n") // Slack ignores language tags
+  return outsideCode(text, (s) =>
+    s
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      // Restore blockquotes, which start a line with ">"
+      .replace(/^&gt; ?/gm, "> ")
+      .replace(/!?\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, "<$2|$1>")
+      // Bold (and headings, shown bold) is parked on \u0000 so the italic pass leaves it alone
+      .replace(/^#{1,6}\s+(.+)$/gm, "\u0000$1\u0000")
+      .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_m, a, b) => `\u0000${a ?? b}\u0000`)
+      .replace(/(^|[^*\w])\*(?!\s)([^*\n]+?)\*(?!\w)/g, "$1_$2_")
+      .replace(/\u0000/g, "*")
+      .replace(/~~(.+?)~~/g, "~$1~")
+      .replace(/^(\s*)[-*+]\s+/gm, "$1• ")
+  )
+}
+
+/** Converts Slack mrkdwn from an incoming message into plain Markdown */
+export function fromMrkdwn(mrkdwn: string): string {
+  return outsideCode(mrkdwn, (s) =>
+    s
+      .replace(/<@([A-Z0-9]+)(?:\|([^>]+))?>/g, (_m, id, name) => `@${name || id}`)
+      .replace(/<#([A-Z0-9]+)(?:\|([^>]*))?>/g, (_m, id, name) => `#${name || id}`)
+      .replace(/<!(here|channel|everyone)(?:\|[^>]*)?>/g, "@$1")
+      .replace(/<!subteam\^[A-Z0-9]+(?:\|([^>]+))?>/g, (_m, name) => name || "@group")
+      .replace(/<((?:https?|mailto):[^|>]+)\|([^>]+)>/g, "[$2]($1)")
+      .replace(/<((?:https?|mailto):[^>]+)>/g, "$1")
+      .replace(/(^|[^\w*])\*(?!\s)([^*\n]+?)\*(?!\w)/g, "$1**$2**")
+      .replace(/(^|[^\w_])_(?!\s)([^_\n]+?)_(?!\w)/g, "$1*$2*")
+      .replace(/(^|[^\w~])~(?!\s)([^~\n]+?)~(?!\w)/g, "$1~~$2~~")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&amp;/g, "&")
+  ).trim()
+}
@@ -6,6 +6,7 @@ import {
   Attachment,
   UnifiedMessage,
 } from "./base"
+import { splitMessage } from "./format"
 
 export class TelegramChannel extends BaseChannel {
   readonly type = "telegram" as const
@@ -78,7 +79,7 @@ export class TelegramChannel extends BaseChannel {
     const chatId = Number(channelId)
 
     // Split long messages
-    const chunks = this.splitMessage(content, this.capabilities.maxMessageLength)
+    const chunks = splitMessage(content, this.capabilities.maxMessageLength)
 
     for (const chunk of chunks) {
       await this.bot.api.sendMessage(chatId, chunk, {
@@ -89,21 +90,4 @@ export class TelegramChannel extends BaseChannel {
       })
     }
   }
-
-  private splitMessage(text: string, maxLen: number): string[] {
-    if (text.length <= maxLen) return [text]
-    const chunks: string[] = []
-    let remaining = text
-    while (remaining.length > 0) {
-      if (remaining.length <= maxLen) {
-        chunks.push(remaining)
-        break
-      }
-      let splitAt = remaining.lastIndexOf("\n", maxLen)
-      if (splitAt === -1 || splitAt < maxLen / 2) splitAt = maxLen
-      chunks.push(remaining.slice(0, splitAt))
-      remaining = remaining.slice(splitAt)
-    }
-    return chunks
-  }
 }
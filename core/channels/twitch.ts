@@ -0,0 +1,84 @@
+import { ChannelCapabilities, ChannelConfig, ChannelType } from "./base"
+import { IrcChannel, IrcConnectionOptions, IrcLine, IrcMessageFields } from "./irc"
+
+/**
+ * Twitch chat — IrcChannel over Twitch's IRC interface (irc.chat.twitch.tv).
+ * Logs in with an OAuth token as PASS and requests the tags capability, so messages carry
+ * Twitch user ids, display names, badges and message ids; replies use Twitch's native
+ * reply threads (reply-parent-msg-id) instead of addressing the user by nick.
+ */
+export class TwitchChannel extends IrcChannel {
+  readonly type: ChannelType = "twitch"
+  readonly name: string = "Twitch"
+  readonly capabilities: ChannelCapabilities = {
+    streaming: false,
+    attachments: false,
+    reactions: false,
+    threads: true,
+    editing: false,
+    maxMessageLength: 500,
+  }
+
+  protected connectionOptions(config: ChannelConfig): IrcConnectionOptions {
+    const token = config.oauthToken as string
+    const botUsername = config.botUsername as string
+    if (!token || !botUsername) throw new Error("Twitch OAuth token and bot username required")
+
+    const channels = String(config.channels ?? config.channel ?? "")
+      .split(",")
+      .map((c) => c.trim().replace(/^#/, "").toLowerCase())
+      .filter(Boolean)
+    if (channels.length === 0) throw new Error("Twitch channel name required")
+
+    return {
+      host: "irc.chat.twitch.tv",
+      port: 6697,
+      tls: true,
+      nick: botUsername.toLowerCase(),
+      username: botUsername.toLowerCase(),
+      realname: botUsername,
+      password: token.startsWith("oauth:") ? token : `oauth:${token}`,
+      capabilities: ["twitch.tv/tags", "twitch.tv/commands"],
+      channels: channels.map((c) => `#${c}`),
+      mentionOnly: config.mentionOnly !== false && config.mentionOnly !== "false",
+      // Twitch allows 20 messages per 30 seconds for bots that aren't moderators
+      messageDelayMs: Number(config.messageDelayMs) || 1500,
+      burst: 4,
+    }
+  }
+
+  protected messageFields(line: IrcLine): IrcMessageFields {
+    const { tags } = line
+    const badges = tags.badges ? tags.badges.split(",").map((b) => b.split("/")[0]) : []
+    return {
+      id: tags.id || `${Date.now()}`,
+      userId: tags["user-id"] || line.nick,
+      userName: tags["display-name"] || line.nick,
+      replyTo: tags["reply-parent-msg-id"] || undefined,
+      timestamp: tags["tmi-sent-ts"] ? new Date(Number(tags["tmi-sent-ts"])) : new Date(),
+      metadata: {
+        login: line.nick,
+        badges,
+        isModerator: tags.mod === "1",
+        isBroadcaster: badges.includes("broadcaster"),
+        isSubscriber: tags.subscriber === "1",
+        bits: tags.bits ? Number(tags.bits) : undefined,
+        roomId: tags["room-id"],
+      },
+    }
+  }
+
+  protected privmsg(target: string, text: string, replyTo?: string): string {
+    return replyTo ? `@reply-parent-msg-id=${replyTo} PRIVMSG ${target} :${text}` : `PRIVMSG ${target} :${text}`
+  }
+
+  protected handleLine(line: IrcLine) {
+    // Twitch asks clients to reconnect before restarting a chat server
+    if (line.command === "RECONNECT") {
+      console.log("[Twitch] Server requested reconnect")
+      this.reconnect()
+      return
+    }
+    super.handleLine(line)
+  }
+}
@@ -2,6 +2,13 @@ import { ChannelManager } from "./channels/manager"
 import { ProviderManager } from "./providers/manager"
 import { MessageRouter } from "./middleware/router"
 import { ChannelType } from "./channels/base"
+import { toolRegistry } from "./tools/registry"
+import { registerGatewayTools } from "./tools/gateway-tools"
+import { jobQueue } from "./middleware/queue"
+import { pool } from "@/lib/db"
+
+/** How often platform API keys and the active provider are re-read, so Settings changes apply */
+const PROVIDER_REFRESH_MS = 60_000
 
 /**
  * Dryads AI Core Engine
@@ -11,11 +18,27 @@ export class DryadsEngine {
   readonly channels: ChannelManager
   readonly providers: ProviderManager
   readonly router: MessageRouter
+  private providerTimer?: ReturnType<typeof setInterval>
 
   constructor() {
     this.channels = new ChannelManager()
     this.providers = new ProviderManager()
-    this.router = new MessageRouter(this.channels, this.providers)
+    this.router = new MessageRouter(this.channels, this.providers, toolRegistry, jobQueue)
+
+    // Start draining the durable message queue, including jobs left over from a previous run,
+    // once the providers are loaded so replayed jobs don't fail for lack of one
+    this.refreshProviders()
+      .catch((err) => console.error("[Engine] Failed to load providers:", err instanceof Error ? err.message : err))
+      .finally(() => jobQueue.start())
+    this.providerTimer = setInterval(() => {
+      this.refreshProviders().catch((err) =>
+        console.error("[Engine] Failed to refresh providers:", err instanceof Error ? err.message : err)
+      )
+    }, PROVIDER_REFRESH_MS)
+    this.providerTimer.unref()
+
+    // Share the gateway's tool implementations with the core agent loop
+    registerGatewayTools(toolRegistry)
 
     // Wire up: when any channel receives a message, route it
     // The router needs a dbUserId which we get from the channel key
@@ -26,19 +49,42 @@ export class DryadsEngine {
     })
   }
 
+  /**
+   * Loads the platform's providers (admin API keys, then env vars) and puts the active
+   * provider from Settings at the head of the default fallback chain.
+   */
+  async refreshProviders() {
+    const settings = await pool.query(
+      `SELECT key, value FROM "PlatformSetting" WHERE key IN ('activeAiProvider', 'activeAiModel')`
+    )
+    const setting = (key: string) => settings.rows.find((row) => row.key === key)?.value as string | undefined
+    const active = setting("activeAiProvider") || "openai"
+    const activeModel = setting("activeAiModel")
+
+    await this.providers.loadPlatformProviders(activeModel ? { [active]: activeModel } : {})
+    this.router.setDefaultFallbackChain(Array.from(new Set([active, ...ProviderManager.getAvailableProviders()])))
+  }
+
   /** Initialize the AI provider for a user */
   initProvider(provider: string, apiKey: string, model?: string) {
     this.providers.getOrCreate(provider, { apiKey, model })
   }
 
-  /** Connect a channel for a specific user */
+  /** Set the ordered list of providers to try for a platform, e.g. ["anthropic", "openai", "gemini"] */
+  setFallbackChain(channelType: ChannelType, providers: string[]) {
+    this.router.setFallbackChain(channelType, providers)
+  }
+
+  /** Connect a channel for a specific user; its messages are routed on that user's behalf */
   async connectChannel(
     userId: string,
     channelType: ChannelType,
     config: Record<string, unknown>
   ) {
     const key = `${channelType}:${userId}`
-    return this.channels.connectChannel(key, channelType, config)
+    return this.channels.connectChannel(key, channelType, config, (message) =>
+      this.router.handleMessage(message, userId)
+    )
   }
 
   /** Disconnect a channel for a specific user */
@@ -48,14 +94,17 @@ export class DryadsEngine {
   }
 
   async shutdown() {
+    clearInterval(this.providerTimer)
+    jobQueue.stop()
     await this.channels.disconnectAll()
   }
 }
 
-// Singleton engine instance
-let engine: DryadsEngine | null = null
+// Singleton engine instance, shared via globalThis: route handlers are bundled separately
+// from the instrumentation hook that connects the channels
+const globalForEngine = globalThis as unknown as { dryadsEngine?: DryadsEngine }
 
 export function getEngine(): DryadsEngine {
-  if (!engine) engine = new DryadsEngine()
-  return engine
+  if (!globalForEngine.dryadsEngine) globalForEngine.dryadsEngine = new DryadsEngine()
+  return globalForEngine.dryadsEngine
 }
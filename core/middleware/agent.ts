@@ -0,0 +1,110 @@
+import { BaseProvider, ProviderMessage, StreamChunk, ToolCall, ToolDefinition } from "../providers/base"
+import { ToolContext, ToolRegistry } from "../tools/registry"
+
+const MAX_TOOL_ROUNDS = 10
+const MAX_TOOL_CALLS = 20
+
+/**
+ * Progress of an agent loop. Callers that fall back to another provider pass the same state
+ * along, so tool steps carry over and side-effecting tools never run twice.
+ */
+export interface AgentLoopState {
+  steps: ProviderMessage[]
+  rounds: number
+  toolCallCount: number
+}
+
+export interface AgentLoopOptions {
+  model: string
+  tools: ToolRegistry
+  toolContext: ToolContext
+  state?: AgentLoopState
+  /** Receives every chunk the provider streams, e.g. to forward text to a client */
+  onChunk?: (chunk: StreamChunk) => void
+}
+
+export interface AgentLoopResult {
+  /** The final answer's text */
+  content: string
+  /** Assistant tool-call turns and tool results that led to the answer */
+  steps: ProviderMessage[]
+  usage?: StreamChunk["usage"]
+  /** Set when the provider failed; steps taken so far are kept in the state */
+  error?: string
+}
+
+export function createAgentLoopState(): AgentLoopState {
+  return { steps: [], rounds: 0, toolCallCount: 0 }
+}
+
+/** Streams one provider turn, collecting the text and any tool calls it asks for */
+async function runTurn(
+  provider: BaseProvider,
+  messages: ProviderMessage[],
+  options: { model: string; tools?: ToolDefinition[]; onChunk?: AgentLoopOptions["onChunk"] }
+): Promise<{ content: string; toolCalls: ToolCall[]; usage?: StreamChunk["usage"]; error?: string }> {
+  let content = ""
+  const toolCalls: ToolCall[] = []
+  let usage: StreamChunk["usage"]
+  for await (const chunk of provider.chat(messages, { model: options.model, tools: options.tools })) {
+    options.onChunk?.(chunk)
+    if (chunk.type === "text" && chunk.content) {
+      content += chunk.content
+    }
+    if (chunk.type === "tool_call" && chunk.toolCall) {
+      toolCalls.push(chunk.toolCall)
+    }
+    if (chunk.type === "done") {
+      usage = chunk.usage
+    }
+    if (chunk.type === "error") {
+      return { content, toolCalls, usage, error: chunk.error }
+    }
+  }
+  return { content, toolCalls, usage }
+}
+
+/**
+ * Runs the bounded tool-calling agent loop against one provider: each turn may call tools,
+ * whose results are fed back until the model answers. After MAX_TOOL_ROUNDS turns or
+ * MAX_TOOL_CALLS calls, the model is asked for a final answer without tools.
+ */
+export async function runAgentLoop(
+  provider: BaseProvider,
+  context: ProviderMessage[],
+  options: AgentLoopOptions
+): Promise<AgentLoopResult> {
+  const definitions = options.tools.getDefinitions()
+  const state = options.state || createAgentLoopState()
+
+  for (;;) {
+    // Once a limit is hit, ask for a final answer without offering tools
+    const allowTools =
+      definitions.length > 0 && state.rounds < MAX_TOOL_ROUNDS && state.toolCallCount < MAX_TOOL_CALLS
+    state.rounds++
+
+    const turn = await runTurn(provider, [...context, ...state.steps], {
+      model: options.model,
+      tools: allowTools ? definitions : undefined,
+      onChunk: options.onChunk,
+    })
+
+    if (turn.error) {
+      return { content: turn.content, steps: state.steps, usage: turn.usage, error: turn.error }
+    }
+
+    if (!turn.toolCalls.length || !allowTools) {
+      return { content: turn.content, steps: state.steps, usage: turn.usage }
+    }
+
+    state.steps.push({ role: "assistant", content: turn.content, toolCalls: turn.toolCalls })
+    for (const toolCall of turn.toolCalls) {
+      const result = state.toolCallCount < MAX_TOOL_CALLS
+        ? await options.tools.execute(toolCall.name, toolCall.arguments, options.toolContext)
+        : "Tool call limit reached. Please provide your best answer with the information gathered so far."
+      state.toolCallCount++
+      console.log(`[Agent] Tool ${toolCall.name} (${state.toolCallCount}/${MAX_TOOL_CALLS}) via ${provider.name}`)
+      state.steps.push({ role: "tool", content: result, toolCallId: toolCall.id })
+    }
+  }
+}
@@ -1,31 +1,134 @@
-import { ProviderMessage } from "../providers/base"
+import { BaseProvider, ProviderMessage } from "../providers/base"
+import { estimateTokens, messageTokenText } from "../providers/tokenizer"
+import { getLatestSummary, scheduleSummary } from "./summarizer"
+import { fitHistory } from "@/lib/middleware/history.mjs"
 import { pool } from "@/lib/db"
 
 const DEFAULT_SYSTEM_PROMPT = `You are Dryads AI, a helpful AI assistant. You are knowledgeable, friendly, and concise. You can help with a wide range of tasks including writing, coding, analysis, and general conversation.`
 
-const MAX_CONTEXT_MESSAGES = 50
+/** Upper bound on prompt size regardless of model window, to keep per-message cost predictable */
+const MAX_CONTEXT_TOKENS = 32_000
 
-/** Builds the conversation context (message history) for the AI provider */
-export async function buildContext(
-  conversationId: string,
+/** Tokens held back for the model's reply */
+const DEFAULT_COMPLETION_RESERVE = 4096
+
+/** Per-message framing overhead (role markers, separators) added by every chat format */
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+/** Safety cap on rows scanned per conversation */
+const MAX_SCANNED_MESSAGES = 500
+
+export interface ContextOptions {
   systemPrompt?: string
-): Promise<ProviderMessage[]> {
+  /** Provider whose tokenizer and context window size the budget */
+  provider?: BaseProvider
+  model?: string
+  completionReserve?: number
+}
+
+/** Token count for a message's content plus any tool calls it carries (stored as "tokenCount") */
+export function countMessageTokens(
+  message: Pick<ProviderMessage, "content" | "toolCalls">,
+  provider?: BaseProvider,
+  model?: string
+): number {
+  const text = messageTokenText(message)
+  return provider ? provider.countTokens(text, model) : estimateTokens(text)
+}
+
+interface HistoryRow {
+  role: string
+  content: string
+  toolCalls: ProviderMessage["toolCalls"] | null
+  toolCallId: string | null
+  tokenCount: number | null
+  createdAt: Date
+}
+
+export interface ConversationHistory {
+  /** Rolling summary of the turns older than `messages` */
+  summary?: string
+  messages: ProviderMessage[]
+}
+
+/**
+ * Loads as much recent history as fits the model's token budget, newest first.
+ * Turns already covered by the rolling summary are skipped. When the remaining turns overflow
+ * the budget and a provider is given, the oldest ones are scheduled for summarization
+ * so they are condensed instead of silently dropped.
+ */
+export async function loadHistory(
+  conversationId: string,
+  options: ContextOptions = {}
+): Promise<ConversationHistory> {
+  const { provider, model } = options
+  const systemPrompt = options.systemPrompt || DEFAULT_SYSTEM_PROMPT
+  const completionReserve = options.completionReserve ?? DEFAULT_COMPLETION_RESERVE
+
+  const window = Math.min(provider?.getContextWindow(model) ?? MAX_CONTEXT_TOKENS, MAX_CONTEXT_TOKENS)
+  const historyBudget =
+    window -
+    completionReserve -
+    countMessageTokens({ content: systemPrompt }, provider, model) -
+    MESSAGE_OVERHEAD_TOKENS
+
+  const summary = await getLatestSummary(conversationId)
+  const budget = summary
+    ? historyBudget -
+      (summary.tokenCount ?? countMessageTokens({ content: summary.content }, provider, model)) -
+      MESSAGE_OVERHEAD_TOKENS
+    : historyBudget
+
   const result = await pool.query(
-    'SELECT role, content, "toolCalls" FROM "Message" WHERE "conversationId" = $1 ORDER BY "createdAt" ASC LIMIT $2',
-    [conversationId, MAX_CONTEXT_MESSAGES]
+    `SELECT role, content, "toolCalls", "toolCallId", "tokenCount", "createdAt" FROM "Message"
+     WHERE "conversationId" = $1 AND role != 'summary' AND "createdAt" > $2
+     ORDER BY "createdAt" DESC LIMIT $3`,
+    [conversationId, summary?.summarizedUntil ?? new Date(0), MAX_SCANNED_MESSAGES]
   )
 
-  const context: ProviderMessage[] = [
-    { role: "system", content: systemPrompt || DEFAULT_SYSTEM_PROMPT },
-  ]
-
-  for (const msg of result.rows) {
-    context.push({
-      role: msg.role as ProviderMessage["role"],
-      content: msg.content,
-      toolCalls: msg.toolCalls as unknown as ProviderMessage["toolCalls"],
-    })
+  const fitted = fitHistory<HistoryRow>(result.rows, {
+    budget,
+    fullBudget: historyBudget,
+    // Stored counts were made with the writer's tokenizer; only recount rows that lack one
+    countTokens: (msg) =>
+      (msg.tokenCount ?? countMessageTokens({ content: msg.content, toolCalls: msg.toolCalls ?? undefined }, provider, model)) +
+      MESSAGE_OVERHEAD_TOKENS,
+  })
+  // Summarizing down to half the budget leaves room for several turns before the next run
+  if (fitted.summarizeThrough && provider) {
+    scheduleSummary(conversationId, provider, model, fitted.summarizeThrough)
   }
 
-  return context
+  const history: ProviderMessage[] = fitted.rows.map((msg) => ({
+    role: msg.role as ProviderMessage["role"],
+    content: msg.content,
+    toolCalls: msg.toolCalls ?? undefined,
+    toolCallId: msg.toolCallId || undefined,
+  }))
+
+  // A tool result is meaningless without the assistant turn that requested it
+  while (history[0]?.role === "tool") history.shift()
+
+  return { summary: summary?.content, messages: history }
+}
+
+/**
+ * Builds the conversation context (message history) for the AI provider:
+ * the system prompt, then the rolling summary of older turns, then the recent tail
+ * that fits the token budget.
+ */
+export async function buildContext(
+  conversationId: string,
+  options: ContextOptions = {}
+): Promise<ProviderMessage[]> {
+  const systemPrompt = options.systemPrompt || DEFAULT_SYSTEM_PROMPT
+  const { summary, messages } = await loadHistory(conversationId, options)
+
+  return [
+    { role: "system", content: systemPrompt },
+    ...(summary
+      ? [{ role: "system" as const, content: `Summary of the earlier conversation:\n${summary}` }]
+      : []),
+    ...messages,
+  ]
 }
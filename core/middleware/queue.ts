@@ -1,40 +1,218 @@
-type QueueTask<T> = {
-  execute: () => Promise<T>
-  resolve: (value: T) => void
-  reject: (error: Error) => void
+import { pool, cuid } from "@/lib/db"
+
+export interface Job<P = unknown> {
+  id: string
+  /** Ordering key: jobs sharing a key run one at a time, oldest first */
+  key: string
+  type: string
+  payload: P
+  attempts: number
+  maxAttempts: number
+  lastError: string | null
+  createdAt: Date
+}
+
+export type JobHandler<P = unknown> = (payload: P, job: Job<P>) => Promise<void>
+
+export interface JobQueueOptions {
+  /** Jobs run at once across different keys */
+  concurrency?: number
+  maxAttempts?: number
+  /** First retry delay; doubles with every failed attempt */
+  baseDelayMs?: number
+  maxDelayMs?: number
+  pollIntervalMs?: number
+  /** Running jobs older than this are assumed orphaned by a crashed worker and retried */
+  lockTimeoutMs?: number
 }
 
-/** Simple in-memory message queue. Processes messages sequentially per key (user/conversation). */
-export class MessageQueue {
-  private queues = new Map<string, QueueTask<unknown>[]>()
-  private processing = new Set<string>()
-
-  async enqueue<T>(key: string, execute: () => Promise<T>): Promise<T> {
-    return new Promise<T>((resolve, reject) => {
-      if (!this.queues.has(key)) this.queues.set(key, [])
-      this.queues.get(key)!.push({ execute, resolve: resolve as (v: unknown) => void, reject })
-      this.process(key)
-    })
-  }
-
-  private async process(key: string) {
-    if (this.processing.has(key)) return
-    this.processing.add(key)
-
-    const queue = this.queues.get(key)
-    while (queue && queue.length > 0) {
-      const task = queue.shift()!
-      try {
-        const result = await task.execute()
-        task.resolve(result)
-      } catch (err) {
-        task.reject(err instanceof Error ? err : new Error(String(err)))
+/**
+ * Durable Postgres-backed job queue (job_queue table).
+ * Jobs survive restarts and are processed sequentially per key (user/conversation),
+ * with concurrency across keys. Failures are retried with exponential backoff; jobs that
+ * exhaust their attempts move to job_dead_letter, where an admin can inspect and replay them.
+ */
+export class JobQueue {
+  private handlers = new Map<string, JobHandler<never>>()
+  private active = 0
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private started = false
+  private ticking = false
+
+  private concurrency: number
+  private maxAttempts: number
+  private baseDelayMs: number
+  private maxDelayMs: number
+  private pollIntervalMs: number
+  private lockTimeoutMs: number
+
+  constructor(options: JobQueueOptions = {}) {
+    this.concurrency = options.concurrency ?? (Number(process.env.JOB_QUEUE_CONCURRENCY) || 4)
+    this.maxAttempts = options.maxAttempts ?? 5
+    this.baseDelayMs = options.baseDelayMs ?? 2000
+    this.maxDelayMs = options.maxDelayMs ?? 10 * 60_000
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5 * 60_000
+  }
+
+  registerHandler<P>(type: string, handler: JobHandler<P>) {
+    this.handlers.set(type, handler as JobHandler<never>)
+  }
+
+  /** Persists a job and wakes the worker. Resolves once the job is stored, not when it has run. */
+  async enqueue<P>(key: string, type: string, payload: P, options: { maxAttempts?: number } = {}): Promise<string> {
+    const id = cuid()
+    await pool.query(
+      'INSERT INTO job_queue (id, key, type, payload, "maxAttempts") VALUES ($1, $2, $3, $4, $5)',
+      [id, key, type, JSON.stringify(payload), options.maxAttempts ?? this.maxAttempts]
+    )
+    if (this.started) this.schedule(0)
+    return id
+  }
+
+  start() {
+    if (this.started) return
+    this.started = true
+    this.schedule(0)
+  }
+
+  stop() {
+    this.started = false
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+
+  private schedule(delayMs: number) {
+    if (!this.started) return
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = setTimeout(() => this.tick(), delayMs)
+  }
+
+  private async tick() {
+    this.timer = null
+    if (this.ticking) return
+    this.ticking = true
+    try {
+      await this.releaseStaleJobs()
+      const jobs = await this.claim(this.concurrency - this.active)
+      for (const job of jobs) {
+        this.active++
+        this.run(job).finally(() => {
+          this.active--
+          this.schedule(0)
+        })
       }
+    } catch (err) {
+      console.error("[Queue] Poll failed:", err instanceof Error ? err.message : err)
+    } finally {
+      this.ticking = false
+      this.schedule(this.pollIntervalMs)
+    }
+  }
+
+  /**
+   * Claims up to `limit` runnable jobs: each must be the oldest unfinished job for its key,
+   * with no other job for that key running. SKIP LOCKED lets several instances share the table.
+   */
+  private async claim(limit: number): Promise<Job[]> {
+    if (limit <= 0) return []
+    const result = await pool.query(
+      `UPDATE job_queue SET status = 'running', "lockedAt" = NOW(), attempts = attempts + 1
+       WHERE id IN (
+         SELECT j.id FROM job_queue j
+         WHERE j.status = 'pending' AND j."runAt" <= NOW()
+           AND NOT EXISTS (
+             SELECT 1 FROM job_queue o
+             WHERE o.key = j.key AND (o.status = 'running' OR (o.status = 'pending' AND o.seq < j.seq))
+           )
+         ORDER BY j.seq
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id, key, type, payload, attempts, "maxAttempts", "lastError", "createdAt"`,
+      [limit]
+    )
+    return result.rows
+  }
+
+  /** Hands jobs whose worker died mid-run back to the queue */
+  private async releaseStaleJobs() {
+    const result = await pool.query(
+      `UPDATE job_queue SET status = 'pending', "lockedAt" = NULL, "lastError" = 'Worker lock expired'
+       WHERE status = 'running' AND "lockedAt" < NOW() - $1 * INTERVAL '1 millisecond'`,
+      [this.lockTimeoutMs]
+    )
+    if (result.rowCount) console.warn(`[Queue] Released ${result.rowCount} stale job(s)`)
+  }
+
+  private async run(job: Job) {
+    const handler = this.handlers.get(job.type)
+    try {
+      if (!handler) throw new Error(`No handler registered for job type "${job.type}"`)
+      await handler(job.payload as never, job as Job<never>)
+      await pool.query("DELETE FROM job_queue WHERE id = $1", [job.id])
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      await this.fail(job, message).catch((e) => {
+        console.error(`[Queue] Failed to record failure of job ${job.id}:`, e instanceof Error ? e.message : e)
+      })
+    }
+  }
+
+  private async fail(job: Job, error: string) {
+    if (job.attempts < job.maxAttempts) {
+      const delayMs = Math.min(this.baseDelayMs * 2 ** (job.attempts - 1), this.maxDelayMs)
+      await pool.query(
+        `UPDATE job_queue SET status = 'pending', "lockedAt" = NULL, "lastError" = $2,
+           "runAt" = NOW() + $3 * INTERVAL '1 millisecond'
+         WHERE id = $1`,
+        [job.id, error, delayMs]
+      )
+      console.warn(`[Queue] Job ${job.type}:${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delayMs}ms: ${error}`)
+      return
     }
 
-    this.processing.delete(key)
-    if (queue?.length === 0) this.queues.delete(key)
+    // Out of attempts: move to the dead-letter table so later jobs for the key can proceed
+    const client = await pool.connect()
+    try {
+      await client.query("BEGIN")
+      await client.query(
+        `INSERT INTO job_dead_letter (id, key, type, payload, attempts, "lastError", "createdAt")
+         SELECT id, key, type, payload, attempts, $2, "createdAt" FROM job_queue WHERE id = $1`,
+        [job.id, error]
+      )
+      await client.query("DELETE FROM job_queue WHERE id = $1", [job.id])
+      await client.query("COMMIT")
+    } catch (err) {
+      await client.query("ROLLBACK").catch(() => {})
+      throw err
+    } finally {
+      client.release()
+    }
+    console.error(`[Queue] Job ${job.type}:${job.id} dead-lettered after ${job.attempts} attempts: ${error}`)
+  }
+}
+
+/** Moves a dead-lettered job back onto the queue with a fresh set of attempts */
+export async function replayDeadLetter(id: string): Promise<boolean> {
+  const client = await pool.connect()
+  try {
+    await client.query("BEGIN")
+    const result = await client.query(
+      `INSERT INTO job_queue (id, key, type, payload, "maxAttempts")
+       SELECT id, key, type, payload, GREATEST(attempts, 1) FROM job_dead_letter WHERE id = $1
+       RETURNING id`,
+      [id]
+    )
+    await client.query("DELETE FROM job_dead_letter WHERE id = $1", [id])
+    await client.query("COMMIT")
+    return result.rows.length > 0
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => {})
+    throw err
+  } finally {
+    client.release()
   }
 }
 
-export const messageQueue = new MessageQueue()
+export const jobQueue = new JobQueue()
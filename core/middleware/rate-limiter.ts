@@ -1,30 +1,21 @@
-interface RateLimitEntry {
-  count: number
-  resetAt: number
-}
-
-const limits = new Map<string, RateLimitEntry>()
-
-const DEFAULT_MAX = 30 // messages per window
-const DEFAULT_WINDOW_MS = 60_000 // 1 minute
+import { consumeRateLimit, formatRetryAfter } from "@/lib/rate-limit.mjs"
+import { pool } from "@/lib/db"
 
-export function checkRateLimit(
-  userId: string,
-  max = DEFAULT_MAX,
-  windowMs = DEFAULT_WINDOW_MS
-): { allowed: boolean; remaining: number; resetIn: number } {
-  const now = Date.now()
-  const entry = limits.get(userId)
+export { formatRetryAfter }
 
-  if (!entry || now > entry.resetAt) {
-    limits.set(userId, { count: 1, resetAt: now + windowMs })
-    return { allowed: true, remaining: max - 1, resetIn: windowMs }
-  }
-
-  if (entry.count >= max) {
-    return { allowed: false, remaining: 0, resetIn: entry.resetAt - now }
-  }
+export interface RateLimitResult {
+  allowed: boolean
+  limitedBy: "minute" | "day" | null
+  remaining: { minute: number; day: number }
+  /** Seconds until the request would be allowed (0 when allowed) */
+  retryAfter: number
+  limits: { plan: string; perMinute: number; perDay: number }
+}
 
-  entry.count++
-  return { allowed: true, remaining: max - entry.count, resetIn: entry.resetAt - now }
+/**
+ * Per-user token-bucket check against the shared Postgres buckets, the same ones the
+ * gateway's metering middleware uses. Limits come from the user's plan (see PLAN_LIMITS).
+ */
+export async function checkRateLimit(userId: string, cost = 1): Promise<RateLimitResult> {
+  return (await consumeRateLimit(pool, userId, cost)) as RateLimitResult
 }
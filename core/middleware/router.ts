@@ -1,29 +1,122 @@
-import { UnifiedMessage } from "../channels/base"
+import { ChannelType, UnifiedMessage } from "../channels/base"
 import { ChannelManager } from "../channels/manager"
 import { ProviderManager } from "../providers/manager"
+import { BaseProvider, ProviderMessage } from "../providers/base"
+import { getCircuitBreaker } from "../providers/circuit-breaker"
 import { normalizeMessage } from "./normalizer"
-import { getOrCreateSession } from "./session"
-import { buildContext } from "./context"
-import { checkRateLimit } from "./rate-limiter"
-import { messageQueue } from "./queue"
+import { getOrCreateSession, setSession } from "./session"
+import { buildContext, countMessageTokens } from "./context"
+import { createAgentLoopState, runAgentLoop } from "./agent"
+import { checkRateLimit, formatRetryAfter } from "./rate-limiter"
+import { JobQueue, jobQueue } from "./queue"
+import { ToolContext, ToolRegistry, toolRegistry } from "../tools/registry"
 import { pool, cuid } from "@/lib/db"
 
+const DEFAULT_FALLBACK_CHAIN = ["openai", "anthropic", "gemini"]
+
+const UNAVAILABLE_REPLY = "Sorry, I'm having trouble responding right now. Please try again in a moment."
+
+const INBOUND_MESSAGE_JOB = "inbound_message"
+
+interface InboundMessageJob {
+  message: UnifiedMessage
+  dbUserId: string
+}
+
 export class MessageRouter {
+  /** Ordered provider fallback lists per platform. Platforms without one use the default chain. */
+  private fallbackChains = new Map<ChannelType, string[]>()
+  private defaultChain = DEFAULT_FALLBACK_CHAIN
+
   constructor(
     private channelManager: ChannelManager,
-    private providerManager: ProviderManager
-  ) {}
+    private providerManager: ProviderManager,
+    private tools: ToolRegistry = toolRegistry,
+    private queue: JobQueue = jobQueue
+  ) {
+    this.queue.registerHandler<InboundMessageJob>(INBOUND_MESSAGE_JOB, (payload, job) =>
+      // Payloads round-trip through JSON, so the timestamp comes back as a string
+      this.processMessage(normalizeMessage(payload.message), payload.dbUserId, job.id)
+    )
+  }
+
+  setFallbackChain(channelType: ChannelType, providers: string[]) {
+    this.fallbackChains.set(channelType, providers)
+  }
+
+  /** Chain for platforms without their own, e.g. led by the platform's active provider */
+  setDefaultFallbackChain(providers: string[]) {
+    this.defaultChain = providers
+  }
+
+  getFallbackChain(channelType: ChannelType): string[] {
+    return this.fallbackChains.get(channelType) || this.defaultChain
+  }
+
+  /** First initialized provider in the platform's chain; its tokenizer and window size the context */
+  private primaryProvider(channelType: ChannelType): BaseProvider | undefined {
+    for (const name of this.getFallbackChain(channelType)) {
+      const provider = this.providerManager.getProvider(name)
+      if (provider) return provider
+    }
+    return undefined
+  }
+
+  /**
+   * Runs the bounded tool-calling agent loop, trying each initialized provider in the platform's
+   * fallback chain and skipping those whose circuit breaker is open.
+   * Returns null if every provider failed or was unavailable.
+   */
+  private async generateReply(
+    channelType: ChannelType,
+    context: ProviderMessage[],
+    toolContext: ToolContext,
+    preferredModel?: string
+  ): Promise<{ content: string; provider: string; model: string; steps: ProviderMessage[] } | null> {
+    // Tool steps carry over to the next provider on fallback so side-effecting tools never run twice
+    const state = createAgentLoopState()
+
+    for (const name of this.getFallbackChain(channelType)) {
+      const provider = this.providerManager.getProvider(name)
+      if (!provider) continue
+
+      const breaker = getCircuitBreaker(name)
+      if (!breaker.canRequest()) {
+        console.warn(`[Router] Skipping ${name}: circuit open`)
+        continue
+      }
+
+      // The session's model only makes sense for the provider that offers it
+      const model = preferredModel && provider.models.includes(preferredModel)
+        ? preferredModel
+        : provider.defaultModel
+
+      const result = await runAgentLoop(provider, context, { model, tools: this.tools, toolContext, state })
+      if (result.error) {
+        breaker.recordFailure()
+        console.error(`[Router] ${name} failed, trying next provider: ${result.error}`)
+        continue
+      }
+
+      breaker.recordSuccess()
+      return { content: result.content, provider: name, model, steps: result.steps }
+    }
+
+    return null
+  }
 
   /**
    * Main message pipeline:
-   * Receive → Normalize → Rate Limit → Session → Queue → Context → AI → Save → Route back
+   * Receive → Normalize → Rate Limit → Queue → Session → Context → AI → Save → Route back
+   * The message is persisted to the durable job queue, which processes one message at a time
+   * per conversation and retries failures with backoff.
    */
   async handleMessage(message: UnifiedMessage, dbUserId: string): Promise<void> {
     const normalized = normalizeMessage(message)
     if (!normalized.content) return
 
-    // Rate limit
-    const limit = checkRateLimit(normalized.userId)
+    // Rate limit (per account, shared with the gateway pipeline)
+    const limit = await checkRateLimit(dbUserId)
     if (!limit.allowed) {
       const channel = this.channelManager.getChannel(
         `${normalized.channelType}:${dbUserId}`
@@ -31,89 +124,154 @@ export class MessageRouter {
       if (channel) {
         await channel.sendMessage(
           normalized.channelId,
-          `Rate limited. Try again in ${Math.ceil(limit.resetIn / 1000)}s.`
+          limit.limitedBy === "day"
+            ? `Daily message limit reached. Try again in ${formatRetryAfter(limit.retryAfter)}.`
+            : `Rate limited. Try again in ${formatRetryAfter(limit.retryAfter)}.`
         )
       }
       return
     }
 
+    // Process in queue (one at a time per conversation)
+    const queueKey = `${dbUserId}:${normalized.channelType}:${normalized.channelId}`
+    await this.queue.enqueue<InboundMessageJob>(queueKey, INBOUND_MESSAGE_JOB, {
+      message: normalized,
+      dbUserId,
+    })
+  }
+
+  /**
+   * Runs a queued inbound message through session, context, AI and delivery. Throws to trigger a
+   * retry; a retry after the reply was stored only resends it.
+   */
+  private async processMessage(normalized: UnifiedMessage, dbUserId: string, jobId: string): Promise<void> {
+    // Jobs can outlive a connection (e.g. replayed after a restart); wait for the channel to come back
+    const channel = this.channelManager.getChannel(
+      `${normalized.channelType}:${dbUserId}`
+    )
+    if (!channel) throw new Error(`Channel ${normalized.channelType}:${dbUserId} is not connected`)
+    channel.restoreReplyState?.(normalized)
+
     // Session
-    const session = getOrCreateSession(
+    const session = await getOrCreateSession(
       normalized.channelType,
       normalized.channelId,
       normalized.userId
     )
 
-    // Process in queue (one at a time per conversation)
-    const queueKey = `${dbUserId}:${normalized.channelType}:${normalized.channelId}`
-    await messageQueue.enqueue(queueKey, async () => {
-      // Get or create conversation
-      let conversationId: string | undefined = session.conversationId
-      if (conversationId) {
-        const existing = await pool.query(
-          'SELECT id FROM "Conversation" WHERE id = $1',
-          [conversationId]
-        )
-        if (existing.rows.length === 0) conversationId = undefined
-      }
-
-      if (!conversationId) {
-        conversationId = cuid()
-        const now = new Date().toISOString()
-        await pool.query(
-          'INSERT INTO "Conversation" (id, "userId", "channelType", "channelPeer", "aiModel", title, "createdAt", "updatedAt") VALUES ($1, $2, $3, $4, $5, $6, $7, $8)',
-          [conversationId, dbUserId, normalized.channelType, normalized.userId, session.aiModel, normalized.content.slice(0, 50), now, now]
-        )
-        session.conversationId = conversationId
-      }
+    // Get or create conversation
+    let conversationId: string | undefined = session.conversationId
+    if (conversationId) {
+      const existing = await pool.query(
+        'SELECT id FROM "Conversation" WHERE id = $1',
+        [conversationId]
+      )
+      if (existing.rows.length === 0) conversationId = undefined
+    }
 
-      // Save user message
-      const userMsgId = cuid()
+    if (!conversationId) {
+      conversationId = cuid()
       const now = new Date().toISOString()
       await pool.query(
-        'INSERT INTO "Message" (id, "conversationId", role, content, "createdAt") VALUES ($1, $2, $3, $4, $5)',
-        [userMsgId, conversationId, "user", normalized.content, now]
+        'INSERT INTO "Conversation" (id, "userId", "channelType", "channelPeer", "aiModel", title, "createdAt", "updatedAt") VALUES ($1, $2, $3, $4, $5, $6, $7, $8)',
+        [conversationId, dbUserId, normalized.channelType, normalized.userId, session.aiModel, normalized.content.slice(0, 50), now, now]
       )
+      session.conversationId = conversationId
+      await setSession(normalized.channelType, normalized.channelId, normalized.userId, session)
+    }
 
-      // Build context and call AI
-      const context = await buildContext(conversationId, session.systemPrompt)
-      const provider = this.providerManager.getProvider("openai")
-      if (!provider) return
-
-      let fullResponse = ""
-      for await (const chunk of provider.chat(context, { model: session.aiModel })) {
-        if (chunk.type === "text" && chunk.content) {
-          fullResponse += chunk.content
-        }
-        if (chunk.type === "error") {
-          fullResponse = `Error: ${chunk.error}`
-          break
-        }
-      }
+    const primary = this.primaryProvider(normalized.channelType)
 
-      // Save assistant message
-      const asstMsgId = cuid()
-      const saveNow = new Date().toISOString()
-      await pool.query(
-        'INSERT INTO "Message" (id, "conversationId", role, content, "createdAt") VALUES ($1, $2, $3, $4, $5)',
-        [asstMsgId, conversationId, "assistant", fullResponse, saveNow]
-      )
+    // Save user message. Keyed by the job id so a retried job doesn't store it twice.
+    const now = new Date().toISOString()
+    await pool.query(
+      'INSERT INTO "Message" (id, "conversationId", role, content, "tokenCount", "createdAt") VALUES ($1, $2, $3, $4, $5, $6) ON CONFLICT (id) DO NOTHING',
+      [jobId, conversationId, "user", normalized.content, countMessageTokens({ content: normalized.content }, primary, session.aiModel), now]
+    )
+
+    // A retried job whose reply was already generated only needs delivering again; running the
+    // agent loop a second time would repeat side-effecting tools and store a second answer
+    const replyId = `${jobId}:reply`
+    const stored = await pool.query('SELECT content FROM "Message" WHERE id = $1', [replyId])
+    if (stored.rows.length > 0) {
+      await channel.sendMessage(normalized.channelId, stored.rows[0].content, {
+        replyTo: normalized.id,
+      })
+      return
+    }
+
+    // Build context and call AI (falling back through the platform's provider chain)
+    const context = await buildContext(conversationId, {
+      systemPrompt: session.systemPrompt,
+      provider: primary,
+      model: session.aiModel,
+    })
+    const result = await this.generateReply(
+      normalized.channelType,
+      context,
+      {
+        userId: dbUserId,
+        conversationId,
+        channelType: normalized.channelType,
+        channelPeer: normalized.channelId,
+      },
+      session.aiModel
+    )
+
+    // Every provider failed — tell the user without persisting a bogus assistant turn
+    if (!result) {
+      await channel.sendMessage(normalized.channelId, UNAVAILABLE_REPLY, {
+        replyTo: normalized.id,
+      })
+      return
+    }
+
+    const fullResponse = result.content
+
+    // Save tool-calling steps, then the final assistant message, along with the provider
+    // that actually answered. Ids derive from the job and the rows go in together, so the
+    // reply is stored exactly once. Timestamps are staggered so replay order is preserved.
+    const baseTime = Date.now()
+    const rows = [...result.steps, { role: "assistant" as const, content: fullResponse }]
+    const saveNow = new Date(baseTime + rows.length - 1).toISOString()
+    const client = await pool.connect()
+    try {
+      await client.query("BEGIN")
+      for (let i = 0; i < rows.length; i++) {
+        const row: ProviderMessage = rows[i]
+        await client.query(
+          'INSERT INTO "Message" (id, "conversationId", role, content, "toolCalls", "toolCallId", "tokenCount", provider, model, "createdAt") VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) ON CONFLICT (id) DO NOTHING',
+          [
+            i === rows.length - 1 ? replyId : `${jobId}:${i}`,
+            conversationId,
+            row.role,
+            row.content,
+            row.toolCalls ? JSON.stringify(row.toolCalls) : null,
+            row.toolCallId || null,
+            countMessageTokens(row, this.providerManager.getProvider(result.provider), result.model),
+            row.role === "assistant" ? result.provider : null,
+            row.role === "assistant" ? result.model : null,
+            new Date(baseTime + i).toISOString(),
+          ]
+        )
+      }
 
       // Update conversation timestamp
-      await pool.query(
+      await client.query(
         'UPDATE "Conversation" SET "updatedAt" = $1 WHERE id = $2',
         [saveNow, conversationId]
       )
+      await client.query("COMMIT")
+    } catch (err) {
+      await client.query("ROLLBACK").catch(() => {})
+      throw err
+    } finally {
+      client.release()
+    }
 
-      // Route response back to channel
-      const channel = this.channelManager.getChannel(
-        `${normalized.channelType}:${dbUserId}`
-      )
-      if (channel) {
-        await channel.sendMessage(normalized.channelId, fullResponse, {
-          replyTo: normalized.id,
-        })
-      }
+    // Route response back to channel
+    await channel.sendMessage(normalized.channelId, fullResponse, {
+      replyTo: normalized.id,
     })
   }
 }
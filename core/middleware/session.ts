@@ -1,3 +1,5 @@
+import { pool } from "@/lib/db"
+
 export interface SessionData {
   userId: string
   channelType: string
@@ -8,24 +10,120 @@ export interface SessionData {
   metadata: Record<string, unknown>
 }
 
-/** In-memory session store. Keys are "channelType:channelId:userId" */
-const sessions = new Map<string, SessionData>()
+/** Sessions expire after this long without being read or written */
+const DEFAULT_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+/** Minimum gap between sweeps of expired sessions */
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000
+
+/** Pluggable session storage. Keys are "channelType:channelId:userId" */
+export interface SessionStore {
+  get(key: string): Promise<SessionData | undefined>
+  set(key: string, data: SessionData): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+/** Per-process store. Fine for a single instance; sessions are lost on restart. */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, { data: SessionData; expiresAt: number }>()
+  private lastPrune = 0
+
+  constructor(private ttlMs = DEFAULT_SESSION_TTL_MS) {}
+
+  async get(key: string): Promise<SessionData | undefined> {
+    const entry = this.sessions.get(key)
+    if (!entry) return undefined
+    if (entry.expiresAt <= Date.now()) {
+      this.sessions.delete(key)
+      return undefined
+    }
+    entry.expiresAt = Date.now() + this.ttlMs
+    return entry.data
+  }
+
+  async set(key: string, data: SessionData): Promise<void> {
+    this.sessions.set(key, { data, expiresAt: Date.now() + this.ttlMs })
+    this.prune()
+  }
+
+  async delete(key: string): Promise<void> {
+    this.sessions.delete(key)
+  }
+
+  private prune() {
+    const now = Date.now()
+    if (now - this.lastPrune < PRUNE_INTERVAL_MS) return
+    this.lastPrune = now
+    for (const [key, entry] of this.sessions) {
+      if (entry.expiresAt <= now) this.sessions.delete(key)
+    }
+  }
+}
+
+/** Shared store in the chat_session table; survives restarts and works across instances */
+export class PostgresSessionStore implements SessionStore {
+  private lastPrune = 0
+
+  constructor(private ttlMs = DEFAULT_SESSION_TTL_MS) {}
+
+  async get(key: string): Promise<SessionData | undefined> {
+    // Reading a live session slides its expiry forward
+    const result = await pool.query(
+      `UPDATE chat_session SET "expiresAt" = NOW() + $2 * INTERVAL '1 millisecond'
+       WHERE key = $1 AND "expiresAt" > NOW()
+       RETURNING data`,
+      [key, this.ttlMs]
+    )
+    return result.rows[0]?.data
+  }
+
+  async set(key: string, data: SessionData): Promise<void> {
+    await pool.query(
+      `INSERT INTO chat_session (key, data, "expiresAt", "updatedAt")
+       VALUES ($1, $2, NOW() + $3 * INTERVAL '1 millisecond', NOW())
+       ON CONFLICT (key) DO UPDATE SET data = EXCLUDED.data, "expiresAt" = EXCLUDED."expiresAt", "updatedAt" = NOW()`,
+      [key, JSON.stringify(data), this.ttlMs]
+    )
+    await this.prune()
+  }
+
+  async delete(key: string): Promise<void> {
+    await pool.query("DELETE FROM chat_session WHERE key = $1", [key])
+  }
+
+  private async prune() {
+    const now = Date.now()
+    if (now - this.lastPrune < PRUNE_INTERVAL_MS) return
+    this.lastPrune = now
+    await pool.query('DELETE FROM chat_session WHERE "expiresAt" <= NOW()').catch((err) => {
+      console.error("[Session] Failed to prune expired sessions:", err.message)
+    })
+  }
+}
+
+/** Postgres by default so every instance sees the same sessions; SESSION_STORE=memory opts out */
+let store: SessionStore =
+  process.env.SESSION_STORE === "memory" ? new MemorySessionStore() : new PostgresSessionStore()
+
+export function setSessionStore(next: SessionStore) {
+  store = next
+}
 
 function sessionKey(channelType: string, channelId: string, userId: string): string {
   return `${channelType}:${channelId}:${userId}`
 }
 
-export function getSession(channelType: string, channelId: string, userId: string): SessionData | undefined {
-  return sessions.get(sessionKey(channelType, channelId, userId))
+export async function getSession(channelType: string, channelId: string, userId: string): Promise<SessionData | undefined> {
+  return store.get(sessionKey(channelType, channelId, userId))
 }
 
-export function setSession(channelType: string, channelId: string, userId: string, data: SessionData): void {
-  sessions.set(sessionKey(channelType, channelId, userId), data)
+export async function setSession(channelType: string, channelId: string, userId: string, data: SessionData): Promise<void> {
+  await store.set(sessionKey(channelType, channelId, userId), data)
 }
 
-export function getOrCreateSession(channelType: string, channelId: string, userId: string): SessionData {
+export async function getOrCreateSession(channelType: string, channelId: string, userId: string): Promise<SessionData> {
   const key = sessionKey(channelType, channelId, userId)
-  let session = sessions.get(key)
+  let session = await store.get(key)
   if (!session) {
     session = {
       userId,
@@ -34,11 +132,11 @@ export function getOrCreateSession(channelType: string, channelId: string, userI
       aiModel: "gpt-4o",
       metadata: {},
     }
-    sessions.set(key, session)
+    await store.set(key, session)
   }
   return session
 }
 
-export function deleteSession(channelType: string, channelId: string, userId: string): void {
-  sessions.delete(sessionKey(channelType, channelId, userId))
+export async function deleteSession(channelType: string, channelId: string, userId: string): Promise<void> {
+  await store.delete(sessionKey(channelType, channelId, userId))
 }
@@ -0,0 +1,63 @@
+import { BaseProvider, ProviderMessage } from "../providers/base"
+import {
+  getLatestSummary as loadSummary,
+  scheduleSummary as scheduleWith,
+  summarizeConversation as summarizeWith,
+} from "@/lib/ai/summarizer.mjs"
+import { pool } from "@/lib/db"
+
+export interface ConversationSummary {
+  content: string
+  /** createdAt of the newest message the summary covers */
+  summarizedUntil: Date
+  tokenCount: number | null
+}
+
+/** Latest rolling summary for a conversation, stored as a Message row with role "summary" */
+export async function getLatestSummary(conversationId: string): Promise<ConversationSummary | null> {
+  return loadSummary(pool, conversationId)
+}
+
+/** Runs the shared summarizer (lib/ai/summarizer.mjs) on an engine provider and its tokenizer */
+function summaryOptions(conversationId: string, provider: BaseProvider, model: string | undefined, through: Date) {
+  const chatModel = model && provider.models.includes(model) ? model : undefined
+  return {
+    convoId: conversationId,
+    through,
+    provider: provider.name,
+    model: chatModel || provider.defaultModel,
+    complete: async (messages: { role: string; content: string }[]) => {
+      let content = ""
+      const chat = provider.chat(messages as ProviderMessage[], { model: chatModel, temperature: 0.2, maxTokens: 600 })
+      for await (const chunk of chat) {
+        if (chunk.type === "text" && chunk.content) content += chunk.content
+        if (chunk.type === "error") throw new Error(chunk.error || "Summary generation failed")
+      }
+      return content
+    },
+    countTokens: (text: string) => provider.countTokens(text, chatModel),
+  }
+}
+
+/**
+ * Folds messages up to and including `through` into the conversation's rolling summary.
+ * The previous summary is the starting point, so each run only reads the messages it hasn't seen.
+ */
+export async function summarizeConversation(
+  conversationId: string,
+  provider: BaseProvider,
+  model: string | undefined,
+  through: Date
+): Promise<ConversationSummary | null> {
+  return summarizeWith(pool, summaryOptions(conversationId, provider, model, through))
+}
+
+/** Runs summarizeConversation in the background; the current reply never waits on it */
+export function scheduleSummary(
+  conversationId: string,
+  provider: BaseProvider,
+  model: string | undefined,
+  through: Date
+) {
+  scheduleWith(pool, summaryOptions(conversationId, provider, model, through))
+}
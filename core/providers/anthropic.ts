@@ -0,0 +1,168 @@
+import Anthropic from "@anthropic-ai/sdk"
+import {
+  BaseProvider,
+  parseToolArguments,
+  ProviderConfig,
+  ProviderMessage,
+  StreamChunk,
+  ToolDefinition,
+} from "./base"
+import { countProviderTokens } from "./tokenizer"
+
+export class AnthropicProvider extends BaseProvider {
+  readonly name = "anthropic"
+  readonly models = ["claude-sonnet-4-6", "claude-haiku-4-5-20251001", "claude-opus-4-6"]
+  readonly defaultModel = "claude-sonnet-4-6"
+
+  private client: Anthropic
+
+  constructor(config: ProviderConfig) {
+    super(config)
+    this.client = new Anthropic({ apiKey: config.apiKey })
+  }
+
+  async *chat(
+    messages: ProviderMessage[],
+    options?: {
+      model?: string
+      tools?: ToolDefinition[]
+      temperature?: number
+      maxTokens?: number
+      systemPrompt?: string
+    }
+  ): AsyncGenerator<StreamChunk> {
+    const model = options?.model || this.config.model || this.defaultModel
+
+    // Anthropic takes the system prompt as a top-level param, not as a message
+    const systemParts: string[] = []
+    if (options?.systemPrompt || this.config.systemPrompt) {
+      systemParts.push((options?.systemPrompt || this.config.systemPrompt)!)
+    }
+
+    const anthropicMessages: Anthropic.MessageParam[] = []
+
+    for (const msg of messages) {
+      if (msg.role === "system") {
+        systemParts.push(msg.content)
+      } else if (msg.role === "tool") {
+        const result: Anthropic.ToolResultBlockParam = {
+          type: "tool_result",
+          tool_use_id: msg.toolCallId || "",
+          content: msg.content,
+        }
+        // Consecutive tool results must be grouped into a single user turn
+        const last = anthropicMessages[anthropicMessages.length - 1]
+        if (last?.role === "user" && Array.isArray(last.content)) {
+          last.content.push(result)
+        } else {
+          anthropicMessages.push({ role: "user", content: [result] })
+        }
+      } else if (msg.role === "assistant" && msg.toolCalls?.length) {
+        const content: Anthropic.ContentBlockParam[] = []
+        if (msg.content) content.push({ type: "text", text: msg.content })
+        for (const tc of msg.toolCalls) {
+          content.push({
+            type: "tool_use",
+            id: tc.id,
+            name: tc.name,
+            input: parseToolArguments(tc.arguments),
+          })
+        }
+        anthropicMessages.push({ role: "assistant", content })
+      } else {
+        anthropicMessages.push({ role: msg.role, content: msg.content })
+      }
+    }
+
+    const tools: Anthropic.Tool[] | undefined = options?.tools?.map((t) => ({
+      name: t.name,
+      description: t.description,
+      input_schema: t.parameters as Anthropic.Tool.InputSchema,
+    }))
+
+    try {
+      const stream = await this.client.messages.create({
+        model,
+        system: systemParts.length ? systemParts.join("\n\n") : undefined,
+        messages: anthropicMessages,
+        tools: tools?.length ? tools : undefined,
+        temperature: options?.temperature ?? this.config.temperature ?? 0.7,
+        max_tokens: options?.maxTokens ?? this.config.maxTokens ?? 4096,
+        stream: true,
+      })
+
+      const toolUseBuffers: Map<number, { id: string; name: string; args: string }> =
+        new Map()
+      let promptTokens = 0
+      let completionTokens = 0
+
+      for await (const event of stream) {
+        switch (event.type) {
+          case "message_start":
+            promptTokens = event.message.usage.input_tokens
+            completionTokens = event.message.usage.output_tokens
+            break
+
+          case "content_block_start":
+            if (event.content_block.type === "tool_use") {
+              toolUseBuffers.set(event.index, {
+                id: event.content_block.id,
+                name: event.content_block.name,
+                args: "",
+              })
+            }
+            break
+
+          case "content_block_delta":
+            if (event.delta.type === "text_delta") {
+              yield { type: "text", content: event.delta.text }
+            } else if (event.delta.type === "input_json_delta") {
+              const buf = toolUseBuffers.get(event.index)
+              if (buf) buf.args += event.delta.partial_json
+            }
+            break
+
+          case "content_block_stop": {
+            const buf = toolUseBuffers.get(event.index)
+            if (buf) {
+              yield {
+                type: "tool_call",
+                toolCall: { id: buf.id, name: buf.name, arguments: buf.args || "{}" },
+              }
+              toolUseBuffers.delete(event.index)
+            }
+            break
+          }
+
+          case "message_delta":
+            completionTokens = event.usage.output_tokens
+            break
+
+          case "message_stop":
+            yield {
+              type: "done",
+              usage: {
+                promptTokens,
+                completionTokens,
+                totalTokens: promptTokens + completionTokens,
+              },
+            }
+            break
+        }
+      }
+    } catch (err) {
+      yield {
+        type: "error",
+        error: err instanceof Error ? err.message : "Unknown Anthropic error",
+      }
+    }
+  }
+
+  countTokens(text: string): number {
+    return countProviderTokens(text, "anthropic")
+  }
+
+  getContextWindow(): number {
+    return 200_000
+  }
+}
@@ -27,12 +27,23 @@ export interface StreamChunk {
 
 export interface ProviderConfig {
   apiKey: string
+  /** OpenAI-compatible endpoint root (e.g. http://localhost:11434/v1) for self-hosted servers */
+  baseUrl?: string
   model?: string
   maxTokens?: number
   temperature?: number
   systemPrompt?: string
 }
 
+/** Tool-call arguments arrive as a JSON string; providers with structured inputs need an object */
+export function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    return args ? JSON.parse(args) : {}
+  } catch {
+    return {}
+  }
+}
+
 export abstract class BaseProvider {
   abstract readonly name: string
   abstract readonly models: string[]
@@ -55,5 +66,13 @@ export abstract class BaseProvider {
     }
   ): AsyncGenerator<StreamChunk>
 
-  abstract countTokens(text: string): number
+  abstract countTokens(text: string, model?: string): number
+
+  /** Total context window (prompt + completion) for a model, in tokens */
+  abstract getContextWindow(model?: string): number
+
+  /** Models this provider can serve. Hosted providers return their static list. */
+  async listModels(): Promise<string[]> {
+    return this.models
+  }
 }
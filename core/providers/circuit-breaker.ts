@@ -0,0 +1,73 @@
+export type CircuitState = "closed" | "open" | "half_open"
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number
+  cooldownMs: number
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3, // consecutive failures before tripping
+  cooldownMs: 30_000, // how long to stay open before letting a trial request through
+}
+
+/**
+ * Per-provider circuit breaker.
+ * closed → (N consecutive failures) → open → (cooldown) → half_open → (1 success) → closed
+ *                                                                   → (1 failure) → open
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed"
+  private failures = 0
+  private openedAt = 0
+  private trialInFlight = false
+  private options: CircuitBreakerOptions
+
+  constructor(options?: Partial<CircuitBreakerOptions>) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  getState(): CircuitState {
+    if (this.state === "open" && Date.now() - this.openedAt >= this.options.cooldownMs) {
+      this.state = "half_open"
+      this.trialInFlight = false
+    }
+    return this.state
+  }
+
+  /** Whether a request may be sent now. In half-open state only one trial request is let through. */
+  canRequest(): boolean {
+    const state = this.getState()
+    if (state === "closed") return true
+    if (state === "open") return false
+    if (this.trialInFlight) return false
+    this.trialInFlight = true
+    return true
+  }
+
+  recordSuccess() {
+    this.state = "closed"
+    this.failures = 0
+    this.trialInFlight = false
+  }
+
+  recordFailure() {
+    this.failures++
+    this.trialInFlight = false
+    if (this.state === "half_open" || this.failures >= this.options.failureThreshold) {
+      this.state = "open"
+      this.openedAt = Date.now()
+    }
+  }
+}
+
+/** Breakers are shared per provider name across all ProviderManager instances */
+const breakers = new Map<string, CircuitBreaker>()
+
+export function getCircuitBreaker(provider: string): CircuitBreaker {
+  let breaker = breakers.get(provider)
+  if (!breaker) {
+    breaker = new CircuitBreaker()
+    breakers.set(provider, breaker)
+  }
+  return breaker
+}
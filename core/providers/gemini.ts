@@ -0,0 +1,153 @@
+import { Content, FunctionDeclaration, GoogleGenAI, Part } from "@google/genai"
+import {
+  BaseProvider,
+  parseToolArguments,
+  ProviderConfig,
+  ProviderMessage,
+  StreamChunk,
+  ToolDefinition,
+} from "./base"
+import { countProviderTokens } from "./tokenizer"
+
+export class GeminiProvider extends BaseProvider {
+  readonly name = "gemini"
+  readonly models = ["gemini-2.5-flash", "gemini-2.5-pro"]
+  readonly defaultModel = "gemini-2.5-flash"
+
+  private client: GoogleGenAI
+
+  constructor(config: ProviderConfig) {
+    super(config)
+    this.client = new GoogleGenAI({ apiKey: config.apiKey })
+  }
+
+  async *chat(
+    messages: ProviderMessage[],
+    options?: {
+      model?: string
+      tools?: ToolDefinition[]
+      temperature?: number
+      maxTokens?: number
+      systemPrompt?: string
+    }
+  ): AsyncGenerator<StreamChunk> {
+    const model = options?.model || this.config.model || this.defaultModel
+
+    // Gemini takes the system prompt as systemInstruction, not as a message
+    const systemParts: string[] = []
+    if (options?.systemPrompt || this.config.systemPrompt) {
+      systemParts.push((options?.systemPrompt || this.config.systemPrompt)!)
+    }
+
+    // Function responses are matched by name, so remember which call id maps to which tool
+    const toolNames = new Map<string, string>()
+    const contents: Content[] = []
+
+    for (const msg of messages) {
+      if (msg.role === "system") {
+        systemParts.push(msg.content)
+      } else if (msg.role === "tool") {
+        const part: Part = {
+          functionResponse: {
+            id: msg.toolCallId,
+            name: toolNames.get(msg.toolCallId || "") || "",
+            response: { result: msg.content },
+          },
+        }
+        // Consecutive function responses must be grouped into a single user turn
+        const last = contents[contents.length - 1]
+        if (last?.role === "user" && last.parts?.some((p) => p.functionResponse)) {
+          last.parts.push(part)
+        } else {
+          contents.push({ role: "user", parts: [part] })
+        }
+      } else if (msg.role === "assistant" && msg.toolCalls?.length) {
+        const parts: Part[] = []
+        if (msg.content) parts.push({ text: msg.content })
+        for (const tc of msg.toolCalls) {
+          toolNames.set(tc.id, tc.name)
+          parts.push({
+            functionCall: { id: tc.id, name: tc.name, args: parseToolArguments(tc.arguments) },
+          })
+        }
+        contents.push({ role: "model", parts })
+      } else {
+        contents.push({
+          role: msg.role === "assistant" ? "model" : "user",
+          parts: [{ text: msg.content }],
+        })
+      }
+    }
+
+    const functionDeclarations: FunctionDeclaration[] | undefined = options?.tools?.map(
+      (t) => ({
+        name: t.name,
+        description: t.description,
+        parametersJsonSchema: t.parameters,
+      })
+    )
+
+    try {
+      const stream = await this.client.models.generateContentStream({
+        model,
+        contents,
+        config: {
+          systemInstruction: systemParts.length ? systemParts.join("\n\n") : undefined,
+          temperature: options?.temperature ?? this.config.temperature ?? 0.7,
+          maxOutputTokens: options?.maxTokens ?? this.config.maxTokens ?? 4096,
+          tools: functionDeclarations?.length ? [{ functionDeclarations }] : undefined,
+        },
+      })
+
+      let usage: StreamChunk["usage"]
+
+      for await (const chunk of stream) {
+        const parts = chunk.candidates?.[0]?.content?.parts || []
+
+        for (const part of parts) {
+          // Skip thought summaries from thinking models, only surface the answer
+          if (part.text && !part.thought) {
+            yield { type: "text", content: part.text }
+          }
+
+          // Gemini sends each function call whole, never as partial deltas
+          if (part.functionCall) {
+            yield {
+              type: "tool_call",
+              toolCall: {
+                id: part.functionCall.id || `call_${crypto.randomUUID()}`,
+                name: part.functionCall.name || "",
+                arguments: JSON.stringify(part.functionCall.args || {}),
+              },
+            }
+          }
+        }
+
+        if (chunk.usageMetadata) {
+          const promptTokens = chunk.usageMetadata.promptTokenCount || 0
+          const completionTokens = chunk.usageMetadata.candidatesTokenCount || 0
+          usage = {
+            promptTokens,
+            completionTokens,
+            totalTokens: chunk.usageMetadata.totalTokenCount || promptTokens + completionTokens,
+          }
+        }
+      }
+
+      yield { type: "done", usage }
+    } catch (err) {
+      yield {
+        type: "error",
+        error: err instanceof Error ? err.message : "Unknown Gemini error",
+      }
+    }
+  }
+
+  countTokens(text: string): number {
+    return countProviderTokens(text, "gemini")
+  }
+
+  getContextWindow(): number {
+    return 1_048_576
+  }
+}
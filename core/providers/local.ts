@@ -0,0 +1,68 @@
+import { ProviderConfig, ProviderMessage, StreamChunk, ToolDefinition } from "./base"
+import { OpenAIProvider } from "./openai"
+import { countProviderTokens } from "./tokenizer"
+
+/** A local server that doesn't answer /v1/models quickly is treated as unreachable */
+const LIST_MODELS_TIMEOUT_MS = 5000
+
+/**
+ * Self-hosted models behind an OpenAI-compatible server (Ollama, vLLM, llama.cpp server).
+ * Conversation data never leaves our own infrastructure. The model list comes from
+ * the server's /v1/models instead of a hardcoded list.
+ */
+export class LocalProvider extends OpenAIProvider {
+  readonly name: string = "local"
+  readonly models: string[] = []
+  readonly defaultModel: string
+
+  constructor(config: ProviderConfig) {
+    const baseUrl = config.baseUrl || process.env.LOCAL_AI_BASE_URL
+    // Never let the OpenAI SDK fall back to api.openai.com
+    if (!baseUrl) throw new Error("Local AI server not configured. Set LOCAL_AI_BASE_URL.")
+
+    // Most local servers run without auth, but the SDK insists on a key
+    super({ ...config, baseUrl, apiKey: config.apiKey || "local" })
+    this.defaultModel = config.model || process.env.LOCAL_AI_MODEL || ""
+  }
+
+  countTokens(text: string): number {
+    return countProviderTokens(text, "local")
+  }
+
+  getContextWindow(): number {
+    return Number(process.env.LOCAL_AI_CONTEXT_WINDOW) || 8192
+  }
+
+  async listModels(): Promise<string[]> {
+    try {
+      const page = await this.client.models.list({
+        signal: AbortSignal.timeout(LIST_MODELS_TIMEOUT_MS),
+        maxRetries: 0,
+      })
+      this.models.splice(0, this.models.length, ...page.data.map((m) => m.id))
+    } catch (err) {
+      console.error("[LocalProvider] Failed to list models:", err instanceof Error ? err.message : err)
+    }
+    return this.models
+  }
+
+  async *chat(
+    messages: ProviderMessage[],
+    options?: {
+      model?: string
+      tools?: ToolDefinition[]
+      temperature?: number
+      maxTokens?: number
+      systemPrompt?: string
+    }
+  ): AsyncGenerator<StreamChunk> {
+    const model =
+      options?.model || this.config.model || this.defaultModel || (await this.listModels())[0]
+    if (!model) {
+      yield { type: "error", error: "No models available on the local AI server" }
+      return
+    }
+
+    yield* super.chat(messages, { ...options, model })
+  }
+}
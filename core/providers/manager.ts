@@ -1,23 +1,68 @@
 import { BaseProvider, ProviderConfig } from "./base"
 import { OpenAIProvider } from "./openai"
+import { AnthropicProvider } from "./anthropic"
+import { GeminiProvider } from "./gemini"
+import { LocalProvider } from "./local"
+import { pool } from "@/lib/db"
 
 type ProviderFactory = (config: ProviderConfig) => BaseProvider
 
-const providerRegistry: Map<string, ProviderFactory> = new Map([
+const providerRegistry = new Map<string, ProviderFactory>([
   ["openai", (config) => new OpenAIProvider(config)],
+  ["anthropic", (config) => new AnthropicProvider(config)],
+  ["gemini", (config) => new GeminiProvider(config)],
+  ["local", (config) => new LocalProvider(config)],
+])
+
+interface ProviderOptions {
+  /** Env var holding the fallback API key, if it doesn't follow the <NAME>_API_KEY convention */
+  envKey?: string
+  /** Self-hosted servers usually run without auth */
+  requiresApiKey?: boolean
+}
+
+const providerOptions = new Map<string, ProviderOptions>([
+  ["local", { envKey: "LOCAL_AI_API_KEY", requiresApiKey: false }],
 ])
 
 export class ProviderManager {
   private instances: Map<string, BaseProvider> = new Map()
+  /** API key each platform provider was created with, so key changes recreate it */
+  private platformKeys: Map<string, string> = new Map()
 
-  static registerProvider(name: string, factory: ProviderFactory) {
+  static registerProvider(name: string, factory: ProviderFactory, options?: ProviderOptions) {
     providerRegistry.set(name, factory)
+    if (options) providerOptions.set(name, options)
   }
 
   static getAvailableProviders(): string[] {
     return Array.from(providerRegistry.keys())
   }
 
+  static isRegistered(name: string): boolean {
+    return providerRegistry.has(name)
+  }
+
+  /** Name of the env var holding the platform-wide fallback API key for a provider */
+  static getEnvKey(name: string): string {
+    return providerOptions.get(name)?.envKey || `${name.toUpperCase()}_API_KEY`
+  }
+
+  static requiresApiKey(name: string): boolean {
+    return providerOptions.get(name)?.requiresApiKey ?? true
+  }
+
+  /** Platform API key for a provider: the admin's key first, then the env var fallback */
+  static async resolveApiKey(name: string): Promise<string> {
+    const res = await pool.query(
+      `SELECT u."apiKey" FROM "UserApiKey" u
+       JOIN "User" usr ON usr.id = u."userId"
+       WHERE usr.role = 'admin' AND u.provider = $1 LIMIT 1`,
+      [name]
+    )
+    return res.rows[0]?.apiKey || process.env[ProviderManager.getEnvKey(name)] || ""
+  }
+
   createProvider(name: string, config: ProviderConfig): BaseProvider {
     const factory = providerRegistry.get(name)
     if (!factory) throw new Error(`Provider "${name}" not registered`)
@@ -37,5 +82,42 @@ export class ProviderManager {
 
   removeProvider(name: string) {
     this.instances.delete(name)
+    this.platformKeys.delete(name)
+  }
+
+  /**
+   * Creates every registered provider the platform has a key for, recreating those whose key
+   * changed and removing those whose key is gone. The local provider only loads when
+   * LOCAL_AI_BASE_URL is set, and its model list is re-read from the server on every call.
+   * Returns the names of the loaded providers.
+   */
+  async loadPlatformProviders(activeModels: Record<string, string> = {}): Promise<string[]> {
+    for (const name of ProviderManager.getAvailableProviders()) {
+      const apiKey = await ProviderManager.resolveApiKey(name)
+      const configured = ProviderManager.requiresApiKey(name)
+        ? Boolean(apiKey)
+        : name !== "local" || Boolean(process.env.LOCAL_AI_BASE_URL)
+
+      if (!configured) {
+        if (this.instances.has(name)) console.log(`[Providers] Removed ${name}: no API key`)
+        this.removeProvider(name)
+        continue
+      }
+      if (!this.instances.has(name) || this.platformKeys.get(name) !== apiKey) {
+        try {
+          this.createProvider(name, { apiKey, model: activeModels[name] })
+          this.platformKeys.set(name, apiKey)
+          console.log(`[Providers] Loaded ${name}`)
+        } catch (err) {
+          console.error(`[Providers] Failed to load ${name}:`, err instanceof Error ? err.message : err)
+          this.removeProvider(name)
+          continue
+        }
+      }
+
+      // Self-hosted servers report their models at runtime; the router matches session models against them
+      await this.instances.get(name)?.listModels()
+    }
+    return Array.from(this.instances.keys())
   }
 }
@@ -6,17 +6,25 @@ import {
   StreamChunk,
   ToolDefinition,
 } from "./base"
+import { countProviderTokens } from "./tokenizer"
+
+const CONTEXT_WINDOWS: Record<string, number> = {
+  "gpt-4o": 128_000,
+  "gpt-4o-mini": 128_000,
+  "gpt-4-turbo": 128_000,
+  "gpt-3.5-turbo": 16_385,
+}
 
 export class OpenAIProvider extends BaseProvider {
-  readonly name = "openai"
-  readonly models = ["gpt-4o", "gpt-4o-mini", "gpt-4-turbo", "gpt-3.5-turbo"]
-  readonly defaultModel = "gpt-4o"
+  readonly name: string = "openai"
+  readonly models: string[] = ["gpt-4o", "gpt-4o-mini", "gpt-4-turbo", "gpt-3.5-turbo"]
+  readonly defaultModel: string = "gpt-4o"
 
-  private client: OpenAI
+  protected client: OpenAI
 
   constructor(config: ProviderConfig) {
     super(config)
-    this.client = new OpenAI({ apiKey: config.apiKey })
+    this.client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseUrl })
   }
 
   async *chat(
@@ -141,8 +149,11 @@ export class OpenAIProvider extends BaseProvider {
     }
   }
 
-  countTokens(text: string): number {
-    // Rough estimate: ~4 chars per token for English
-    return Math.ceil(text.length / 4)
+  countTokens(text: string, model?: string): number {
+    return countProviderTokens(text, "openai", model || this.defaultModel)
+  }
+
+  getContextWindow(model?: string): number {
+    return CONTEXT_WINDOWS[model || this.defaultModel] || 128_000
   }
 }
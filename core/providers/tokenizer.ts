@@ -0,0 +1,2 @@
+/** Token counting lives in lib/ai/tokenizer.mjs so the gateway counts the same way */
+export { countBpeTokens, countProviderTokens, estimateTokens, messageTokenText } from "@/lib/ai/tokenizer.mjs"
@@ -0,0 +1,27 @@
+import { toolRegistry as gatewayToolRegistry } from "@/lib/ai/tool-registry.mjs"
+import "@/lib/ai/tools/index.mjs"
+import { pool } from "@/lib/db"
+import { ToolRegistry } from "./registry"
+
+interface GatewayToolDefinition {
+  function: { name: string; description: string; parameters: Record<string, unknown> }
+}
+
+/**
+ * Exposes the gateway's self-registering tools (lib/ai/tools) through the typed registry,
+ * so both pipelines share one set of tool implementations. `only` limits it to the named tools.
+ */
+export function registerGatewayTools(registry: ToolRegistry, only?: string[]) {
+  for (const def of gatewayToolRegistry.getDefinitions() as GatewayToolDefinition[]) {
+    if (only && !only.includes(def.function.name)) continue
+    registry.register(
+      {
+        name: def.function.name,
+        description: def.function.description,
+        parameters: def.function.parameters,
+      },
+      // Gateway tools expect the pg pool on their context for DB access
+      (args, ctx) => gatewayToolRegistry.execute(def.function.name, args, { ...ctx, pool })
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { ToolDefinition } from "../providers/base"
+
+export interface ToolContext {
+  userId: string
+  conversationId: string
+  channelType: string
+  channelPeer: string
+  [key: string]: unknown
+}
+
+export type ToolExecutor = (args: Record<string, unknown>, ctx: ToolContext) => Promise<string>
+
+interface RegisteredTool {
+  definition: ToolDefinition
+  execute: ToolExecutor
+}
+
+/** Typed tool registry used by the core MessageRouter's agent loop */
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>()
+
+  register(definition: ToolDefinition, execute: ToolExecutor) {
+    this.tools.set(definition.name, { definition, execute })
+  }
+
+  unregister(name: string) {
+    this.tools.delete(name)
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name)
+  }
+
+  getDefinitions(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map((t) => t.definition)
+  }
+
+  getToolNames(): string[] {
+    return Array.from(this.tools.keys())
+  }
+
+  /** Runs a tool. Bad arguments and tool errors come back as text so the model can recover. */
+  async execute(name: string, rawArgs: string, ctx: ToolContext): Promise<string> {
+    const tool = this.tools.get(name)
+    if (!tool) return `Tool "${name}" not found.`
+
+    let args: Record<string, unknown>
+    try {
+      args = rawArgs ? JSON.parse(rawArgs) : {}
+    } catch {
+      return `Invalid JSON arguments for tool "${name}".`
+    }
+
+    try {
+      return await tool.execute(args, ctx)
+    } catch (err) {
+      return `Error: ${err instanceof Error ? err.message : String(err)}`
+    }
+  }
+}
+
+export const toolRegistry = new ToolRegistry()
@@ -20,6 +20,9 @@ export interface InboxMessage {
   channelType: string
   channelPeer: string
   direction: string
+  /** Outbound WhatsApp Business messages: sent, delivered, read or failed */
+  deliveryStatus?: string | null
+  deliveryError?: string | null
   createdAt: string
 }
 
@@ -33,6 +36,28 @@ interface IncomingEvent {
   timestamp: string
 }
 
+export interface TemplateMessage {
+  name: string
+  language: string
+  variables: string[]
+}
+
+export interface SendResult {
+  ok: boolean
+  error?: string
+  /** e.g. "window_expired" when WhatsApp's 24-hour window has closed and a template is required */
+  code?: string
+}
+
+interface DeliveryEvent {
+  messageId: string
+  channelType: string
+  peerId: string
+  status: string
+  error: string | null
+  timestamp: string
+}
+
 export function useInbox() {
   const { socket, connected } = useSocket()
   const [contacts, setContacts] = useState<Contact[]>([])
@@ -75,16 +100,16 @@ export function useInbox() {
     fetchMessages(channelType, peerId)
   }, [fetchMessages])
 
-  // Send a message
-  const sendMessage = useCallback(async (text: string) => {
-    if (!activeContactRef.current) return false
+  // Send a message, or a WhatsApp Business template ({ name, language, variables })
+  const sendMessage = useCallback(async (text: string, template?: TemplateMessage): Promise<SendResult> => {
+    if (!activeContactRef.current) return { ok: false }
     const { channelType, peerId } = activeContactRef.current
 
     try {
       const res = await fetch(`/api/channels/${encodeURIComponent(channelType)}/send`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ peerId, text }),
+        body: JSON.stringify({ peerId, text, template }),
       })
       const data = await res.json()
       if (data.ok) {
@@ -94,16 +119,38 @@ export function useInbox() {
           {
             id: data.messageId,
             role: "user",
-            content: text,
+            content: data.content || text,
             channelType,
             channelPeer: peerId,
             direction: "outbound",
             createdAt: new Date().toISOString(),
           },
         ])
-        return true
+        return { ok: true }
       }
-      return false
+      return { ok: false, error: data.error, code: data.code }
+    } catch {
+      return { ok: false }
+    }
+  }, [])
+
+  // Resend a message whose delivery failed
+  const retryMessage = useCallback(async (messageId: string) => {
+    try {
+      const res = await fetch("/api/inbox/retry", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messageId }),
+      })
+      const data = await res.json()
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === messageId
+            ? { ...m, deliveryStatus: data.ok ? "sent" : "failed", deliveryError: data.ok ? null : data.error }
+            : m
+        )
+      )
+      return !!data.ok
     } catch {
       return false
     }
@@ -187,9 +234,19 @@ export function useInbox() {
       }
     }
 
+    const handleDelivery = (event: DeliveryEvent) => {
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === event.messageId ? { ...m, deliveryStatus: event.status, deliveryError: event.error } : m
+        )
+      )
+    }
+
     socket.on("inbox:message", handleIncoming)
+    socket.on("inbox:delivery", handleDelivery)
     return () => {
       socket.off("inbox:message", handleIncoming)
+      socket.off("inbox:delivery", handleDelivery)
     }
   }, [socket])
 
@@ -201,6 +258,7 @@ export function useInbox() {
     activeContact,
     selectContact,
     sendMessage,
+    retryMessage,
     fetchContacts,
   }
 }
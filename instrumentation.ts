@@ -3,7 +3,8 @@
  *
  * Bot is started via bot.mjs (standalone process).
  * This hook starts the realtime Socket.IO server + gateway client
- * for bridging bot.mjs events to the browser.
+ * for bridging bot.mjs events to the browser, and connects the core
+ * engine's channels (CORE_ENGINE_CHANNELS).
  */
 export async function register() {
   // Only run on Node.js runtime (not edge)
@@ -15,5 +16,13 @@ export async function register() {
     } catch (err) {
       console.error("[Instrumentation] Failed to start realtime server:", err)
     }
+
+    try {
+      const { getEngine } = await import("@/core/engine")
+      const { ChannelBootstrap } = await import("@/core/channels/bootstrap")
+      new ChannelBootstrap(getEngine()).start()
+    } catch (err) {
+      console.error("[Instrumentation] Failed to start core engine channels:", err)
+    }
   }
 }
@@ -10,6 +10,7 @@ import { toolRegistry } from "./tool-registry.mjs"
 /**
  * Convert OpenAI-format messages to Anthropic format.
  * System messages are extracted separately (passed via `system` param).
+ * User messages may carry `images: [{ mimeType, data }]` (base64) for vision models.
  */
 function toAnthropicMessages(messages) {
   const result = []
@@ -18,7 +19,15 @@ function toAnthropicMessages(messages) {
     if (msg.role === "system") continue // handled separately via system param
     if (msg.role === "tool") continue   // handled inline as tool_result blocks
 
-    if (msg.role === "user" || msg.role === "assistant") {
+    if (msg.role === "user" && msg.images?.length) {
+      // Vision input: images first, then the text that refers to them
+      const content = msg.images.map((img) => ({
+        type: "image",
+        source: { type: "base64", media_type: img.mimeType, data: img.data },
+      }))
+      if (msg.content) content.push({ type: "text", text: msg.content })
+      result.push({ role: "user", content })
+    } else if (msg.role === "user" || msg.role === "assistant") {
       result.push({ role: msg.role, content: msg.content })
     }
   }
@@ -31,7 +40,7 @@ function toAnthropicMessages(messages) {
  * @param {string} apiKey - Anthropic API key
  * @param {Array} messages - OpenAI-format messages [{role, content}]
  * @param {string} model - Model name (default: claude-sonnet-4-6)
- * @param {object} opts - { onTyping, ctx }
+ * @param {object} opts - { onTyping, ctx, tools, json } (tools: false disables tool calling; json is prompt-driven here, Claude has no JSON mode)
  * @returns {{ reply: string, toolsUsed: string[] }}
  */
 export async function callAnthropic(apiKey, messages, model = "claude-sonnet-4-6", opts = {}) {
@@ -41,7 +50,7 @@ export async function callAnthropic(apiKey, messages, model = "claude-sonnet-4-6
   const systemMsg = messages.find((m) => m.role === "system")
   const system = systemMsg?.content || ""
 
-  const tools = toolRegistry.getAnthropicDefinitions()
+  const tools = opts.tools === false ? [] : toolRegistry.getAnthropicDefinitions()
   console.log(`[AI:Anthropic] Tools loaded: ${tools.length} (${toolRegistry.getToolNames().join(", ")})`)
   const toolsUsed = []
   const maxRounds = 10
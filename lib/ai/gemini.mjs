@@ -10,6 +10,7 @@ import { toolRegistry } from "./tool-registry.mjs"
 /**
  * Convert OpenAI-format messages to Gemini format.
  * System messages are passed via systemInstruction.
+ * User messages may carry `images: [{ mimeType, data }]` (base64) for vision models.
  */
 function toGeminiContents(messages) {
   const contents = []
@@ -18,7 +19,9 @@ function toGeminiContents(messages) {
     if (msg.role === "tool") continue // handled in function response below
 
     const role = msg.role === "assistant" ? "model" : "user"
-    contents.push({ role, parts: [{ text: msg.content }] })
+    const parts = (msg.images || []).map((img) => ({ inlineData: { mimeType: img.mimeType, data: img.data } }))
+    if (msg.content || !parts.length) parts.push({ text: msg.content })
+    contents.push({ role, parts })
   }
   return contents
 }
@@ -28,7 +31,7 @@ function toGeminiContents(messages) {
  * @param {string} apiKey - Google AI API key
  * @param {Array} messages - OpenAI-format messages [{role, content}]
  * @param {string} model - Model name (default: gemini-2.5-flash)
- * @param {object} opts - { onTyping, ctx }
+ * @param {object} opts - { onTyping, ctx, tools, json } (tools: false disables tool calling; json: true requests a JSON reply)
  * @returns {{ reply: string, toolsUsed: string[] }}
  */
 export async function callGemini(apiKey, messages, model = "gemini-2.5-flash", opts = {}) {
@@ -38,7 +41,7 @@ export async function callGemini(apiKey, messages, model = "gemini-2.5-flash", o
   const systemMsg = messages.find((m) => m.role === "system")
   const systemInstruction = systemMsg?.content || ""
 
-  const functionDeclarations = toolRegistry.getGeminiDeclarations()
+  const functionDeclarations = opts.tools === false ? [] : toolRegistry.getGeminiDeclarations()
   console.log(`[AI:Gemini] Tools loaded: ${functionDeclarations.length} (${toolRegistry.getToolNames().join(", ")})`)
   const toolsUsed = []
   const maxRounds = 10
@@ -61,6 +64,7 @@ export async function callGemini(apiKey, messages, model = "gemini-2.5-flash", o
         systemInstruction,
         temperature: 0.7,
         maxOutputTokens: 2048,
+        responseMimeType: opts.json ? "application/json" : undefined,
         tools: functionDeclarations.length > 0
           ? [{ functionDeclarations }]
           : undefined,
@@ -0,0 +1,76 @@
+/**
+ * Dryads AI — Memory Extractor
+ * Model-driven alternative to the rule-based extractFacts in lib/middleware/memory.mjs.
+ * Asks the conversation's model for durable facts about the user as JSON, including which
+ * known facts they contradict, for reconcileFacts (lib/memories.mjs) to apply.
+ */
+
+import { callAI } from "./registry.mjs"
+import { MEMORY_CATEGORIES } from "../memories.mjs"
+
+const EXTRACTION_PROMPT = `You maintain long-term memory about a user of a chat assistant.
+From the user's latest message, extract durable facts about the user worth remembering in future conversations:
+identity, location, work, preferences, interests, habits, relationships, goals.
+Ignore small talk, one-off requests, questions, hypotheticals and facts about other people unless they describe the user's life.
+
+Reply with a JSON object only:
+{"facts": [{"fact": "...", "category": "...", "slot": "..." or null, "confidence": 0.0-1.0, "supersedes": ["id", ...]}]}
+
+- fact: one short third-person sentence starting with "User" (e.g. "User lives in Berlin").
+- category: one of ${MEMORY_CATEGORIES.join(", ")}.
+- slot: for facts that can only have one value at a time, a stable snake_case key such as name, age, home_city,
+  hometown, employer, job_title, relationship_status, or favorite_<thing>. null for facts that can coexist (likes, interests).
+- confidence: how explicitly the user stated it (1.0 stated directly, 0.5 implied).
+- supersedes: ids of known facts that this fact makes untrue (e.g. a move to a new city). Empty if none.
+Return {"facts": []} when there is nothing worth remembering.`
+
+const MAX_FACTS_PER_MESSAGE = 5
+
+/**
+ * Pull a JSON object out of a model reply, tolerating code fences and surrounding prose
+ * (Claude has no JSON mode).
+ */
+function parseJsonReply(reply) {
+  const text = (reply || "").replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, "")
+  try {
+    return JSON.parse(text)
+  } catch {
+    const match = text.match(/\{[\s\S]*\}/)
+    return match ? JSON.parse(match[0]) : null
+  }
+}
+
+/**
+ * Propose facts from one user message.
+ * @param {{ provider: string, apiKey: string, model?: string, text: string,
+ *   known?: Array<{ id: string, fact: string, slot?: string|null }> }} opts - known: facts the model may supersede
+ * @returns {Promise<Array<{ fact: string, category: string, slot: string|null, confidence: number, supersedes: string[] }>>}
+ */
+export async function extractFactsWithAI({ provider, apiKey, model, text, known = [] }) {
+  const knownIds = new Set(known.map((m) => m.id))
+  const knownList = known.length > 0
+    ? known.map((m) => `- ${m.id}${m.slot ? ` [${m.slot}]` : ""}: ${m.fact}`).join("\n")
+    : "(none)"
+
+  const messages = [
+    { role: "system", content: EXTRACTION_PROMPT },
+    { role: "user", content: `Known facts:\n${knownList}\n\nLatest user message:\n${text}` },
+  ]
+
+  // No tools: extraction must never trigger side effects like sending messages
+  const result = await callAI(provider, apiKey, messages, model, { tools: false, json: true })
+  const parsed = parseJsonReply(result.reply)
+  if (!Array.isArray(parsed?.facts)) throw new Error("Extraction reply had no facts array")
+
+  return parsed.facts
+    .filter((f) => typeof f?.fact === "string" && f.fact.length > 10 && f.fact.length < 200)
+    .slice(0, MAX_FACTS_PER_MESSAGE)
+    .map((f) => ({
+      fact: f.fact.trim(),
+      category: MEMORY_CATEGORIES.includes(f.category) ? f.category : "general",
+      slot: typeof f.slot === "string" && f.slot.trim() ? f.slot.trim().toLowerCase() : null,
+      confidence: typeof f.confidence === "number" ? Math.min(Math.max(f.confidence, 0), 1) : 0.8,
+      // Only ids we showed it, so a hallucinated id can't delete an unrelated fact
+      supersedes: Array.isArray(f.supersedes) ? f.supersedes.filter((id) => knownIds.has(id)) : [],
+    }))
+}
@@ -7,18 +7,32 @@
 import OpenAI from "openai"
 import { toolRegistry } from "./tool-registry.mjs"
 
+/**
+ * Expand `images: [{ mimeType, data }]` (base64) on a user message into vision content parts.
+ */
+function toOpenAIMessage(msg) {
+  if (!msg.images?.length) return msg
+  const { images, ...rest } = msg
+  const content = images.map((img) => ({
+    type: "image_url",
+    image_url: { url: `data:${img.mimeType};base64,${img.data}` },
+  }))
+  if (msg.content) content.unshift({ type: "text", text: msg.content })
+  return { ...rest, content }
+}
+
 /**
  * Call OpenAI with messages, supporting multi-round tool calls.
  * @param {string} apiKey - OpenAI API key
  * @param {Array} messages - OpenAI-format messages [{role, content}]
  * @param {string} model - Model name (default: gpt-5.2-chat-latest)
- * @param {object} opts - { onTyping, ctx }
+ * @param {object} opts - { onTyping, ctx, tools, json } (tools: false disables tool calling; json: true requests a JSON object reply)
  * @returns {{ reply: string, toolsUsed: string[] }}
  */
 export async function callOpenAI(apiKey, messages, model = "gpt-5.2-chat-latest", opts = {}) {
   const openai = new OpenAI({ apiKey })
 
-  const tools = toolRegistry.getDefinitions()
+  const tools = opts.tools === false ? [] : toolRegistry.getDefinitions()
   const maxRounds = 10
   const maxTotalToolCalls = 20
   let round = 0
@@ -29,7 +43,7 @@ export async function callOpenAI(apiKey, messages, model = "gpt-5.2-chat-latest"
   console.log(`[AI:OpenAI] Tools loaded: ${tools.length} (${toolRegistry.getToolNames().join(", ")})`)
 
   // Clone messages array to avoid mutating caller's copy
-  const msgs = [...messages]
+  const msgs = messages.map(toOpenAIMessage)
 
   while (round < maxRounds) {
     round++
@@ -42,6 +56,7 @@ export async function callOpenAI(apiKey, messages, model = "gpt-5.2-chat-latest"
     }
     // GPT-5.x only supports temperature=1 (default)
     if (!isGPT5) params.temperature = 0.7
+    if (opts.json) params.response_format = { type: "json_object" }
 
     if (tools.length > 0) {
       params.tools = tools
@@ -33,7 +33,7 @@ function sanitizeKey(key) {
  * @param {string} apiKey - API key for the provider
  * @param {Array} messages - OpenAI-format messages [{role, content}]
  * @param {string} [model] - Override model name
- * @param {object} [opts] - { onTyping }
+ * @param {object} [opts] - { onTyping, ctx, tools, json }
  * @returns {{ reply: string, toolsUsed: string[] }}
  */
 export async function callAI(provider, apiKey, messages, model, opts = {}) {
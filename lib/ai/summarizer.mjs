@@ -0,0 +1,111 @@
+/**
+ * Dryads AI — Conversation Summarizer
+ * Condenses older turns of long conversations into a rolling summary, stored as a
+ * Message row with role "summary". Each run starts from the previous summary and only
+ * reads the messages it hasn't covered yet.
+ */
+
+import { randomBytes } from "crypto"
+import { callAI } from "./registry.mjs"
+
+const cuid = () => "c" + randomBytes(12).toString("hex")
+
+const SUMMARY_PROMPT = `You maintain a running summary of a chat between a user and an AI assistant.
+Merge the previous summary (if any) with the new messages into one updated summary.
+Keep names, facts, decisions, preferences, open questions and commitments. Drop greetings and small talk.
+Write in the third person, as plain text, in under 250 words.`
+
+/** Oldest messages folded in per run; longer backlogs catch up over later turns */
+const MAX_MESSAGES_PER_SUMMARY = 200
+
+/** Conversations with a summary in progress, so overlapping turns don't duplicate work */
+const inFlight = new Set()
+
+/**
+ * Latest rolling summary for a conversation.
+ * @param {import("pg").Pool} pool
+ * @param {string} convoId
+ * @returns {Promise<{ content: string, summarizedUntil: Date, tokenCount: number | null } | null>}
+ */
+export async function getLatestSummary(pool, convoId) {
+  const res = await pool.query(
+    `SELECT content, "summarizedUntil", "tokenCount" FROM "Message"
+     WHERE "conversationId" = $1 AND role = 'summary'
+     ORDER BY "summarizedUntil" DESC LIMIT 1`,
+    [convoId]
+  )
+  return res.rows[0] || null
+}
+
+/**
+ * Fold messages up to and including `through` into the rolling summary.
+ * The gateway passes a provider name and key; the core engine passes its own `complete`
+ * (and tokenizer) so both pipelines share this implementation.
+ * @param {import("pg").Pool} pool
+ * @param {SummaryOptions} opts
+ *
+ * @typedef {object} SummaryOptions
+ * @property {string} convoId
+ * @property {Date} through
+ * @property {string} provider - Provider name, stored on the summary row
+ * @property {string} [apiKey] - Used with callAI when no `complete` is given
+ * @property {string} [model]
+ * @property {(messages: { role: string, content: string }[]) => Promise<string>} [complete]
+ * @property {(text: string) => number} [countTokens]
+ */
+export async function summarizeConversation(pool, { convoId, provider, apiKey, model, through, complete, countTokens }) {
+  const previous = await getLatestSummary(pool, convoId)
+  if (previous && previous.summarizedUntil >= through) return previous
+
+  const res = await pool.query(
+    `SELECT role, content, "createdAt" FROM "Message"
+     WHERE "conversationId" = $1 AND role IN ('user', 'assistant') AND content != ''
+       AND "createdAt" > $2 AND "createdAt" <= $3
+     ORDER BY "createdAt" ASC LIMIT $4`,
+    [convoId, previous?.summarizedUntil ?? new Date(0), through, MAX_MESSAGES_PER_SUMMARY]
+  )
+  if (res.rows.length === 0) return previous
+
+  const transcript = res.rows
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+    .join("\n")
+  const messages = [
+    { role: "system", content: SUMMARY_PROMPT },
+    {
+      role: "user",
+      content: `${previous ? `Previous summary:\n${previous.content}\n\n` : ""}New messages:\n${transcript}`,
+    },
+  ]
+
+  // No tools: summarizing must never trigger side effects like sending messages
+  const reply = complete
+    ? await complete(messages)
+    : (await callAI(provider, apiKey, messages, model, { tools: false })).reply
+  const content = (reply || "").trim()
+  if (!content) return previous
+
+  // Placed at the cutoff so the conversation view shows it where the summarized span ends
+  const summarizedUntil = res.rows[res.rows.length - 1].createdAt
+  const tokenCount = countTokens ? countTokens(content) : Math.ceil(content.length / 4)
+  await pool.query(
+    'INSERT INTO "Message" (id, "conversationId", role, content, "tokenCount", provider, model, "summarizedUntil", "createdAt") VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)',
+    [cuid(), convoId, "summary", content, tokenCount, provider, model || null, summarizedUntil, summarizedUntil]
+  )
+
+  console.log(`[Summarizer] Conversation ${convoId.slice(0, 8)}... summarized through ${summarizedUntil.toISOString()} (${res.rows.length} messages)`)
+  return { content, summarizedUntil, tokenCount }
+}
+
+/**
+ * Run summarizeConversation in the background; the current reply never waits on it.
+ * @param {import("pg").Pool} pool
+ * @param {SummaryOptions} opts
+ */
+export function scheduleSummary(pool, opts) {
+  if (inFlight.has(opts.convoId)) return
+  inFlight.add(opts.convoId)
+
+  summarizeConversation(pool, opts)
+    .catch((err) => console.error("[Summarizer] Failed:", err.message))
+    .finally(() => inFlight.delete(opts.convoId))
+}
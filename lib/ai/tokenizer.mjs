@@ -0,0 +1,88 @@
+/**
+ * Dryads AI — Token Counting
+ * Shared by the core providers (through core/providers/tokenizer.ts) and the gateway, which
+ * runs plain Node and stores "tokenCount" on the Message rows it writes.
+ */
+
+import { getEncoding } from "js-tiktoken"
+
+/** Encoders are large, so build each one lazily and keep it for the life of the process */
+const encoders = new Map()
+
+/** @param {import("js-tiktoken").TiktokenEncoding} encoding */
+function getEncoder(encoding) {
+  let encoder = encoders.get(encoding)
+  if (!encoder) {
+    encoder = getEncoding(encoding)
+    encoders.set(encoding, encoder)
+  }
+  return encoder
+}
+
+/**
+ * Exact BPE token count for the given tiktoken encoding
+ * @param {string} text
+ * @param {import("js-tiktoken").TiktokenEncoding} encoding
+ * @returns {number}
+ */
+export function countBpeTokens(text, encoding) {
+  if (!text) return 0
+  return getEncoder(encoding).encode(text).length
+}
+
+/**
+ * Tokenizer-free fallback (~4 chars per token for English)
+ * @param {string} text
+ * @returns {number}
+ */
+export function estimateTokens(text) {
+  return Math.ceil((text || "").length / 4)
+}
+
+/**
+ * Token count under a built-in provider's tokenizer; unknown providers get the estimate
+ * @param {string} text
+ * @param {string} [provider]
+ * @param {string} [model]
+ * @returns {number}
+ */
+export function countProviderTokens(text, provider, model) {
+  switch (provider) {
+    case "openai":
+      // GPT-4o and newer use o200k; the older GPT-4/3.5 family uses cl100k
+      return countBpeTokens(text, /^gpt-(4-|4$|3\.5)/.test(model || "") ? "cl100k_base" : "o200k_base")
+    case "anthropic":
+      // Claude's tokenizer isn't published. cl100k undercounts it by roughly 10-20%,
+      // so pad the count to stay inside the budget.
+      return Math.ceil(countBpeTokens(text, "cl100k_base") * 1.2)
+    case "gemini":
+      // Gemini's SentencePiece vocabulary isn't available offline; cl100k tracks it closely
+      return countBpeTokens(text, "cl100k_base")
+    case "local":
+      // Local models ship their own tokenizers; o200k is a reasonable stand-in
+      return countBpeTokens(text, "o200k_base")
+    default:
+      return estimateTokens(text)
+  }
+}
+
+/**
+ * The text a message's token count covers: its content plus any tool calls it carries
+ * @param {{ content: string | null, toolCalls?: unknown[] | null }} message
+ * @returns {string}
+ */
+export function messageTokenText(message) {
+  const content = message.content || ""
+  return message.toolCalls?.length ? `${content}${JSON.stringify(message.toolCalls)}` : content
+}
+
+/**
+ * "tokenCount" for a Message row, under the conversation's provider and model
+ * @param {{ content: string | null, toolCalls?: unknown[] | null }} message
+ * @param {string} [provider]
+ * @param {string} [model]
+ * @returns {number}
+ */
+export function countMessageTokens(message, provider, model) {
+  return countProviderTokens(messageTokenText(message), provider, model)
+}
@@ -1,10 +1,13 @@
 /**
- * Dryads AI — Reminder Tool
- * Saves reminders to the user_reminder table for future delivery.
+ * Dryads AI — Reminder Tools
+ * Saves reminders to the user_reminder table (one-time) or user_schedule (recurring) for future
+ * delivery (see lib/gateway/reminder-scheduler.mjs), and lets the user list, cancel and snooze them.
  */
 
 import { randomBytes } from "crypto"
 import { toolRegistry } from "../tool-registry.mjs"
+import { listReminders, cancelReminder, snoozeReminder, undeliverableReason } from "../../reminders.mjs"
+import { createSchedule, listSchedules, deleteSchedule } from "../../schedules.mjs"
 
 const cuid = () => "c" + randomBytes(12).toString("hex")
 
@@ -12,25 +15,48 @@ toolRegistry.register(
   "set_reminder",
   {
     description:
-      "Set a reminder for the user at a specific date/time. The reminder will be saved and the user will be notified when the time comes. Use this when the user asks to be reminded about something.",
+      "Set a reminder for the user at a specific date/time, or a recurring one (e.g. 'every weekday at 9am'). " +
+      "The reminder will be saved and the user will be notified when the time comes. Use this when the user asks to be reminded about something. " +
+      "For recurring reminders give recurrence (an RRULE like 'FREQ=WEEKLY;BYDAY=MO,WE;BYHOUR=9;BYMINUTE=0') or cron ('0 9 * * 1-5'), " +
+      "plus the user's IANA time zone. Set task_type to 'prompt' when the reminder should be a fresh AI answer at fire time " +
+      "(e.g. 'every morning, give me a summary of today's weather in Lisbon') instead of a fixed message.",
     parameters: {
       type: "object",
       properties: {
         reminder_text: {
           type: "string",
-          description: "What to remind the user about",
+          description: "What to remind the user about. For task_type 'prompt', the instruction to run at fire time.",
         },
         remind_at: {
           type: "string",
-          description: "When to remind the user, in ISO 8601 format (e.g. '2025-03-15T14:00:00Z'). Calculate this from the user's request relative to the current time.",
+          description: "When to remind the user, in ISO 8601 format (e.g. '2025-03-15T14:00:00Z'). Calculate this from the user's request relative to the current time. " +
+            "Required for one-time reminders; for recurring ones, optionally when the schedule starts.",
+        },
+        recurrence: {
+          type: "string",
+          description: "RRULE for a recurring reminder (e.g. 'FREQ=DAILY;BYHOUR=8;BYMINUTE=30'). BYHOUR/BYMINUTE are in the given timezone.",
+        },
+        cron: {
+          type: "string",
+          description: "Alternative to recurrence: 5-field cron expression (minute hour day-of-month month day-of-week) in the given timezone.",
+        },
+        timezone: {
+          type: "string",
+          description: "IANA time zone for a recurring reminder (e.g. 'Europe/Lisbon'). Defaults to UTC.",
+        },
+        task_type: {
+          type: "string",
+          enum: ["message", "prompt"],
+          description: "Recurring only: 'message' sends reminder_text as-is (default); 'prompt' runs it through the AI and sends the answer.",
         },
       },
-      required: ["reminder_text", "remind_at"],
+      required: ["reminder_text"],
     },
   },
   async (args, ctx) => {
     const { reminder_text, remind_at } = args
-    if (!reminder_text || !remind_at) return "Missing reminder text or time."
+    const recurring = !!(args.recurrence || args.cron)
+    if (!reminder_text || (!remind_at && !recurring)) return "Missing reminder text or time."
 
     const pool = ctx?.pool
     const userId = ctx?.userId
@@ -38,6 +64,12 @@ toolRegistry.register(
       return "Reminder saved in memory only (database not available). I'll try to remind you if we're still chatting."
     }
 
+    // Refuse up front rather than save a reminder the scheduler can never send
+    const undeliverable = undeliverableReason(ctx.channelType, ctx.channelPeer)
+    if (undeliverable) return `Can't set a reminder here: ${undeliverable}.`
+
+    if (recurring) return setRecurringReminder(args, ctx)
+
     console.log(`[Tools:Reminder] Setting reminder for ${userId}: "${reminder_text}" at ${remind_at}`)
 
     try {
@@ -51,24 +83,16 @@ toolRegistry.register(
       }
 
       await pool.query(
-        `INSERT INTO "user_reminder" (id, "userId", reminder_text, remind_at, channel_type, channel_peer, "createdAt")
-         VALUES ($1, $2, $3, $4, $5, $6, NOW())`,
-        [cuid(), userId, reminder_text, remindDate.toISOString(), ctx.channelType || null, ctx.channelPeer || null]
+        `INSERT INTO "user_reminder" (id, "userId", reminder_text, remind_at, channel_type, channel_peer, connection_mode, "createdAt")
+         VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())`,
+        [cuid(), userId, reminder_text, remindDate.toISOString(), ctx.channelType || null, ctx.channelPeer || null, ctx.connectionMode || null]
       )
 
-      const dateStr = remindDate.toLocaleDateString("en-US", {
-        weekday: "long",
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-      })
-      const timeStr = remindDate.toLocaleTimeString("en-US", { hour12: true })
-
       return JSON.stringify({
         status: "saved",
         reminder_text,
         remind_at: remindDate.toISOString(),
-        human_readable: `${dateStr} at ${timeStr} UTC`,
+        human_readable: `${formatDate(remindDate)} UTC`,
         message: "Reminder has been saved successfully. You will be notified at the specified time.",
       })
     } catch (err) {
@@ -78,3 +102,176 @@ toolRegistry.register(
   },
   { needsCtx: true }
 )
+
+/** Recurring branch of set_reminder: stores a user_schedule row */
+async function setRecurringReminder(args, ctx) {
+  const startAt = args.remind_at ? new Date(args.remind_at) : undefined
+  if (startAt && isNaN(startAt.getTime())) {
+    return `Invalid date format: "${args.remind_at}". Please provide a valid ISO 8601 date.`
+  }
+
+  console.log(`[Tools:Reminder] Setting recurring reminder for ${ctx.userId}: "${args.reminder_text}" (${args.recurrence || args.cron})`)
+
+  try {
+    const schedule = await createSchedule(ctx.pool, ctx.userId, {
+      kind: args.task_type || "message",
+      content: args.reminder_text,
+      rrule: args.recurrence,
+      cron: args.recurrence ? undefined : args.cron,
+      timezone: args.timezone,
+      startAt,
+      channelType: ctx.channelType,
+      channelPeer: ctx.channelPeer,
+      connectionMode: ctx.connectionMode,
+    })
+
+    return JSON.stringify({
+      status: "saved",
+      id: schedule.id,
+      reminder_text: schedule.content,
+      task_type: schedule.kind,
+      recurrence: schedule.rrule || schedule.cron,
+      timezone: schedule.timezone,
+      next_run_at: schedule.nextRunAt,
+      human_readable_next: `${formatDate(new Date(schedule.nextRunAt), schedule.timezone)} (${schedule.timezone})`,
+      message: "Recurring reminder has been saved. The user can pause it from the Schedules page.",
+    })
+  } catch (err) {
+    console.error(`[Tools:Reminder] Schedule error:`, err.message)
+    return `Failed to save recurring reminder: ${err.message}`
+  }
+}
+
+function formatDate(date, timeZone = "UTC") {
+  const dateStr = date.toLocaleDateString("en-US", {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone,
+  })
+  const timeStr = date.toLocaleTimeString("en-US", { hour12: true, timeZone })
+  return `${dateStr} at ${timeStr}`
+}
+
+toolRegistry.register(
+  "list_reminders",
+  {
+    description:
+      "List the user's upcoming one-time and recurring reminders (with their IDs). Use this when the user asks what reminders they have, " +
+      "or before cancelling or snoozing a reminder to find its ID.",
+    parameters: {
+      type: "object",
+      properties: {
+        include_past: {
+          type: "boolean",
+          description: "Also include reminders that were already delivered, cancelled or failed. Default false.",
+        },
+      },
+    },
+  },
+  async (args, ctx) => {
+    if (!ctx?.pool || !ctx?.userId) return "Reminders are not available (database not available)."
+
+    try {
+      const [reminders, schedules] = await Promise.all([
+        listReminders(ctx.pool, ctx.userId, { includePast: !!args.include_past, limit: 20 }),
+        listSchedules(ctx.pool, ctx.userId),
+      ])
+      const recurring = args.include_past ? schedules : schedules.filter((s) => s.status !== "ended")
+      if (reminders.length === 0 && recurring.length === 0) {
+        return JSON.stringify({ status: "empty", message: "The user has no reminders." })
+      }
+      return JSON.stringify({
+        status: "ok",
+        reminders: reminders.map((r) => ({ id: r.id, text: r.text, remind_at: r.remindAt, status: r.status })),
+        recurring: recurring.map((s) => ({
+          id: s.id,
+          text: s.content,
+          task_type: s.kind,
+          recurrence: s.rrule || s.cron,
+          timezone: s.timezone,
+          next_run_at: s.nextRunAt,
+          status: s.status,
+        })),
+      })
+    } catch (err) {
+      console.error(`[Tools:Reminder] List error:`, err.message)
+      return `Failed to list reminders: ${err.message}`
+    }
+  },
+  { needsCtx: true }
+)
+
+toolRegistry.register(
+  "cancel_reminder",
+  {
+    description:
+      "Cancel one of the user's pending reminders, or stop a recurring one for good. Call list_reminders first to get the reminder ID.",
+    parameters: {
+      type: "object",
+      properties: {
+        reminder_id: { type: "string", description: "ID of the reminder, from list_reminders" },
+      },
+      required: ["reminder_id"],
+    },
+  },
+  async (args, ctx) => {
+    if (!ctx?.pool || !ctx?.userId) return "Reminders are not available (database not available)."
+    if (!args.reminder_id) return "Missing reminder_id."
+
+    try {
+      const reminder = await cancelReminder(ctx.pool, ctx.userId, args.reminder_id)
+      if (!reminder && (await deleteSchedule(ctx.pool, ctx.userId, args.reminder_id))) {
+        console.log(`[Tools:Reminder] Deleted schedule ${args.reminder_id} for ${ctx.userId}`)
+        return JSON.stringify({ status: "cancelled", recurring: true })
+      }
+      if (!reminder) return "No pending reminder with that ID was found. It may have already been delivered or cancelled."
+      console.log(`[Tools:Reminder] Cancelled reminder ${reminder.id} for ${ctx.userId}`)
+      return JSON.stringify({ status: "cancelled", reminder_text: reminder.text, remind_at: reminder.remindAt })
+    } catch (err) {
+      console.error(`[Tools:Reminder] Cancel error:`, err.message)
+      return `Failed to cancel reminder: ${err.message}`
+    }
+  },
+  { needsCtx: true }
+)
+
+toolRegistry.register(
+  "snooze_reminder",
+  {
+    description:
+      "Postpone one of the user's reminders, including one that was just delivered ('remind me again in 10 minutes'). " +
+      "Give either minutes or an exact new time. Call list_reminders first to get the reminder ID.",
+    parameters: {
+      type: "object",
+      properties: {
+        reminder_id: { type: "string", description: "ID of the reminder, from list_reminders" },
+        minutes: { type: "number", description: "Snooze for this many minutes from now" },
+        remind_at: { type: "string", description: "Or: the new time, in ISO 8601 format" },
+      },
+      required: ["reminder_id"],
+    },
+  },
+  async (args, ctx) => {
+    if (!ctx?.pool || !ctx?.userId) return "Reminders are not available (database not available)."
+    if (!args.reminder_id) return "Missing reminder_id."
+
+    const until = args.remind_at
+      ? new Date(args.remind_at)
+      : new Date(Date.now() + (Number(args.minutes) || 10) * 60_000)
+    if (isNaN(until.getTime())) return `Invalid date format: "${args.remind_at}". Please provide a valid ISO 8601 date.`
+    if (until <= new Date()) return "The new reminder time is in the past. Please provide a future date/time."
+
+    try {
+      const reminder = await snoozeReminder(ctx.pool, ctx.userId, args.reminder_id, until)
+      if (!reminder) return "No reminder with that ID was found, or it was cancelled."
+      console.log(`[Tools:Reminder] Snoozed reminder ${reminder.id} for ${ctx.userId} until ${reminder.remindAt}`)
+      return JSON.stringify({ status: "snoozed", reminder_text: reminder.text, remind_at: reminder.remindAt })
+    } catch (err) {
+      console.error(`[Tools:Reminder] Snooze error:`, err.message)
+      return `Failed to snooze reminder: ${err.message}`
+    }
+  },
+  { needsCtx: true }
+)
@@ -0,0 +1,10 @@
+/**
+ * Dryads AI — Core Engine Channels
+ * Channel types the Next.js app's core engine connects (see core/channels/bootstrap.ts) instead
+ * of the gateway. Kept apart from the registry so tools can check it without loading connectors.
+ */
+
+export const CORE_ENGINE_CHANNELS = new Set(
+  (process.env.CORE_ENGINE_CHANNELS ?? "matrix,email,irc,twitch,mattermost,msteams")
+    .split(",").map(s => s.trim()).filter(Boolean)
+)
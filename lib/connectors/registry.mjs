@@ -9,6 +9,7 @@ import { DiscordConnector } from "./discord.mjs"
 import { SlackConnector } from "./slack.mjs"
 import { WeChatConnector } from "./wechat.mjs"
 import { SignalConnector } from "./signal.mjs"
+import { CORE_ENGINE_CHANNELS } from "./core-engine.mjs"
 
 /** Map of channelType → Connector class */
 const CONNECTOR_CLASSES = {
@@ -159,6 +160,9 @@ export class ConnectorRegistry {
     const activeKeys = new Set()
 
     for (const row of res.rows) {
+      // The core engine connects these; never connect a channel twice
+      if (CORE_ENGINE_CHANNELS.has(row.channelType)) continue
+
       const raw = row.config
       const config = typeof raw === "string" ? JSON.parse(raw || "{}") : (raw || {})
       const connectionMode = row.connectionMode || "business"
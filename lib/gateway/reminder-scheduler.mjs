@@ -0,0 +1,326 @@
+/**
+ * Dryads AI — Reminder Scheduler
+ * Delivers due user_reminder rows and fires due user_schedule rows through the connector
+ * they were set on (channel_type + channel_peer), inside the gateway process.
+ *
+ * Due rows are claimed with FOR UPDATE SKIP LOCKED and a lease (locked_at), so several
+ * gateway instances can run side by side without double delivery, and a row held by a
+ * crashed instance is picked up again once its lease expires. Failed deliveries are retried
+ * with exponential backoff: reminders until MAX_ATTEMPTS, then marked failed; schedules
+ * until SCHEDULE_MAX_ATTEMPTS, then that occurrence is skipped.
+ */
+
+import { randomBytes } from "crypto"
+import { undeliverableReason } from "../reminders.mjs"
+import { computeNextRun } from "../schedules.mjs"
+import { getSessionWindow, waSend } from "../whatsapp/session.mjs"
+
+const cuid = () => "c" + randomBytes(12).toString("hex")
+
+const POLL_INTERVAL_MS = 15_000
+const BATCH_SIZE = 20
+const LEASE_MS = 5 * 60_000
+const MAX_ATTEMPTS = 5
+const SCHEDULE_MAX_ATTEMPTS = 3
+const BASE_RETRY_MS = 60_000
+const MAX_RETRY_MS = 60 * 60_000
+
+/** Matches a reminder only while it is still as claimed ($2 = remind_at as text, $3 = attempts) */
+const CLAIM_GUARD = "remind_at = $2::timestamptz AND attempts = $3"
+
+export class ReminderScheduler {
+  /**
+   * @param {import("pg").Pool} pool
+   * @param {import("../connectors/registry.mjs").ConnectorRegistry} registry - Also provides the AI pipeline for prompt schedules
+   */
+  constructor(pool, registry) {
+    this.pool = pool
+    this.registry = registry
+    this._timer = null
+    this._ticking = false
+  }
+
+  start(intervalMs = POLL_INTERVAL_MS) {
+    if (this._timer) return
+    this._timer = setInterval(() => this.tick(), intervalMs)
+    this.tick()
+    console.log(`[Reminders] Scheduler started (every ${intervalMs / 1000}s)`)
+  }
+
+  stop() {
+    if (this._timer) clearInterval(this._timer)
+    this._timer = null
+  }
+
+  /** Claim and deliver one batch of due reminders and schedules */
+  async tick() {
+    if (this._ticking) return
+    this._ticking = true
+    try {
+      const reminders = await this._claimDue()
+      for (const reminder of reminders) {
+        await this._deliver(reminder)
+      }
+
+      const schedules = await this._claimDueSchedules()
+      for (const schedule of schedules) {
+        await this._runSchedule(schedule)
+      }
+    } catch (err) {
+      console.error("[Reminders] Poll error:", err.message)
+    } finally {
+      this._ticking = false
+    }
+  }
+
+  // ── One-shot Reminders ────────────────────────────────────────────
+
+  async _claimDue() {
+    const res = await this.pool.query(
+      `UPDATE "user_reminder" SET locked_at = NOW(), attempts = attempts + 1
+       WHERE id IN (
+         SELECT id FROM "user_reminder"
+         WHERE delivered = false AND cancelled = false AND failed_at IS NULL
+           AND remind_at <= NOW()
+           AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+           AND (locked_at IS NULL OR locked_at < NOW() - $2 * INTERVAL '1 millisecond')
+         ORDER BY remind_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id, "userId", reminder_text, remind_at, remind_at::text AS claimed_remind_at,
+                 channel_type, channel_peer, connection_mode, attempts`,
+      [BATCH_SIZE, LEASE_MS]
+    )
+    return res.rows
+  }
+
+  async _deliver(reminder) {
+    const text = `⏰ Reminder: ${reminder.reminder_text}`
+    try {
+      await this._send(reminder, text)
+
+      // A snooze while the send was in flight resets remind_at and attempts; it wins
+      const res = await this.pool.query(
+        `UPDATE "user_reminder" SET delivered = true, delivered_at = NOW(), locked_at = NULL, last_error = NULL
+         WHERE id = $1 AND ${CLAIM_GUARD}`,
+        [reminder.id, reminder.claimed_remind_at, reminder.attempts]
+      )
+      if (res.rowCount === 0) {
+        console.log(`[Reminders] ${reminder.id} was rescheduled during delivery; keeping the new time`)
+      } else {
+        console.log(`[Reminders] Delivered ${reminder.id} via ${reminder.channel_type} to ${reminder.channel_peer}`)
+      }
+
+      // Keep the conversation history aware that the reminder went out
+      await this._storeInConversation(reminder, text).catch((err) =>
+        console.error(`[Reminders] Failed to store ${reminder.id} in conversation:`, err.message)
+      )
+    } catch (err) {
+      await this._fail(reminder, err.message, err.permanent).catch((e) =>
+        console.error(`[Reminders] Failed to record failure of ${reminder.id}:`, e.message)
+      )
+    }
+  }
+
+  async _fail(reminder, error, permanent = false) {
+    if (permanent || reminder.attempts >= MAX_ATTEMPTS) {
+      await this.pool.query(
+        `UPDATE "user_reminder" SET failed_at = NOW(), locked_at = NULL, last_error = $4
+         WHERE id = $1 AND ${CLAIM_GUARD}`,
+        [reminder.id, reminder.claimed_remind_at, reminder.attempts, error]
+      )
+      console.error(`[Reminders] Giving up on ${reminder.id} after ${reminder.attempts} attempts: ${error}`)
+      return
+    }
+
+    const delayMs = retryDelay(reminder.attempts)
+    await this.pool.query(
+      `UPDATE "user_reminder"
+       SET next_attempt_at = NOW() + $4 * INTERVAL '1 millisecond', locked_at = NULL, last_error = $5
+       WHERE id = $1 AND ${CLAIM_GUARD}`,
+      [reminder.id, reminder.claimed_remind_at, reminder.attempts, delayMs, error]
+    )
+    console.warn(`[Reminders] Delivery of ${reminder.id} failed (attempt ${reminder.attempts}/${MAX_ATTEMPTS}), retrying in ${delayMs / 1000}s: ${error}`)
+  }
+
+  // ── Recurring Schedules ───────────────────────────────────────────
+
+  async _claimDueSchedules() {
+    const res = await this.pool.query(
+      `UPDATE "user_schedule" SET locked_at = NOW(), attempts = attempts + 1
+       WHERE id IN (
+         SELECT id FROM "user_schedule"
+         WHERE paused = false AND next_run_at <= NOW()
+           AND (locked_at IS NULL OR locked_at < NOW() - $2 * INTERVAL '1 millisecond')
+         ORDER BY next_run_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id, "userId", kind, content, cron, rrule, timezone, start_at, channel_type, channel_peer,
+                 connection_mode, run_count, attempts, pending_reply`,
+      [BATCH_SIZE, LEASE_MS]
+    )
+    return res.rows
+  }
+
+  async _runSchedule(schedule) {
+    try {
+      if (schedule.kind === "prompt") {
+        // A reply from an earlier attempt only needs delivering; rerunning the AI would repeat its tools
+        let reply = schedule.pending_reply
+        if (!reply) {
+          reply = await this._runPrompt(schedule)
+          await this.pool.query('UPDATE "user_schedule" SET pending_reply = $2 WHERE id = $1', [schedule.id, reply])
+        }
+        await this._send(schedule, reply)
+      } else {
+        const text = `⏰ Reminder: ${schedule.content}`
+        await this._send(schedule, text)
+        await this._storeInConversation(schedule, text).catch((err) =>
+          console.error(`[Reminders] Failed to store schedule ${schedule.id} in conversation:`, err.message)
+        )
+      }
+
+      // Missed occurrences (gateway down) are not replayed; the next run is the next one after now
+      const nextRunAt = computeNextRun({ ...schedule, run_count: schedule.run_count + 1 })
+      await this.pool.query(
+        `UPDATE "user_schedule"
+         SET run_count = run_count + 1, last_run_at = NOW(), next_run_at = $2, attempts = 0,
+             locked_at = NULL, last_error = NULL, pending_reply = NULL, "updatedAt" = NOW()
+         WHERE id = $1`,
+        [schedule.id, nextRunAt ? nextRunAt.toISOString() : null]
+      )
+      console.log(`[Reminders] Ran schedule ${schedule.id} (${schedule.kind}); next: ${nextRunAt ? nextRunAt.toISOString() : "none"}`)
+    } catch (err) {
+      await this._failSchedule(schedule, err.message, err.permanent).catch((e) =>
+        console.error(`[Reminders] Failed to record failure of schedule ${schedule.id}:`, e.message)
+      )
+    }
+  }
+
+  /**
+   * Runs a prompt schedule through the AI pipeline as if the user had sent it, so it gets
+   * memory, tools and history. The store step records both sides in the conversation.
+   */
+  async _runPrompt(schedule) {
+    const pipeline = this.registry.pipeline
+    if (!pipeline) throw new Error("No pipeline configured")
+
+    const ctx = {
+      channelType: schedule.channel_type,
+      channelName: schedule.channel_type,
+      channelPeer: schedule.channel_peer,
+      connectionMode: schedule.connection_mode,
+      text: schedule.content,
+      startTime: Date.now(),
+      userId: schedule.userId,
+      toolsUsed: [],
+      onTyping: () => {},
+      registry: this.registry,
+      scheduleId: schedule.id,
+    }
+    await pipeline(ctx)
+
+    // Metering short-circuits with a "slow down" reply; retry later instead of sending that
+    if (ctx.rateLimit && !ctx.rateLimit.allowed) throw new Error(`Rate limited (${ctx.rateLimit.limitedBy})`)
+    if (!ctx.reply) throw new Error("AI pipeline produced no reply")
+    return ctx.reply
+  }
+
+  async _failSchedule(schedule, error, permanent = false) {
+    if (!permanent && schedule.attempts < SCHEDULE_MAX_ATTEMPTS) {
+      const delayMs = retryDelay(schedule.attempts)
+      await this.pool.query(
+        `UPDATE "user_schedule"
+         SET next_run_at = NOW() + $2 * INTERVAL '1 millisecond', locked_at = NULL, last_error = $3, "updatedAt" = NOW()
+         WHERE id = $1`,
+        [schedule.id, delayMs, error]
+      )
+      console.warn(`[Reminders] Schedule ${schedule.id} failed (attempt ${schedule.attempts}/${SCHEDULE_MAX_ATTEMPTS}), retrying in ${delayMs / 1000}s: ${error}`)
+      return
+    }
+
+    // Out of attempts: skip this occurrence and wait for the next one
+    const nextRunAt = computeNextRun(schedule)
+    await this.pool.query(
+      `UPDATE "user_schedule"
+       SET next_run_at = $2, attempts = 0, locked_at = NULL, last_error = $3, pending_reply = NULL, "updatedAt" = NOW()
+       WHERE id = $1`,
+      [schedule.id, nextRunAt ? nextRunAt.toISOString() : null, error]
+    )
+    console.error(`[Reminders] Skipping occurrence of schedule ${schedule.id} after ${schedule.attempts} attempts: ${error}`)
+  }
+
+  // ── Delivery ──────────────────────────────────────────────────────
+
+  /** Sends through the connector the row was created on */
+  async _send(row, text) {
+    const undeliverable = undeliverableReason(row.channel_type, row.channel_peer)
+    if (undeliverable) throw permanentError(undeliverable)
+
+    const connector = (row.connection_mode &&
+      this.registry.getConnector(row.userId, row.channel_type, row.connection_mode))
+      || this.registry.getConnectorByUser(row.userId, row.channel_type)
+    if (!connector) throw new Error(`No active ${row.channel_type} connector`)
+
+    // Business numbers send through the Cloud API, not a socket
+    if (row.channel_type === "whatsapp" && connector.config?.accessToken) {
+      await this._sendBusiness(row, connector.config, text)
+      return
+    }
+
+    if (!connector._running && !connector.socket) throw new Error(`${row.channel_type} connector is not connected`)
+
+    await connector.send(toConnectorPeer(row.channel_type, row.channel_peer), text)
+  }
+
+  /**
+   * Free-form text may only go out within 24 hours of the contact's last message; reminders are
+   * plain text, so outside the window they fail for good instead of being rejected by Meta.
+   */
+  async _sendBusiness(row, config, text) {
+    if (!config.phoneNumberId) throw new Error("WhatsApp Business channel is not configured")
+
+    const window = await getSessionWindow(this.pool, row.userId, row.channel_peer)
+    if (!window.open) {
+      throw permanentError(window.expiresAt
+        ? `WhatsApp's 24-hour customer service window closed at ${window.expiresAt.toISOString()}; free-form messages can't be sent until the contact writes again`
+        : "This WhatsApp contact hasn't messaged the business number, so free-form messages can't be sent")
+    }
+
+    const result = await waSend(config.phoneNumberId, config.accessToken, row.channel_peer, text)
+    if (!result.ok) throw new Error(result.error || "WhatsApp send failed")
+  }
+
+  async _storeInConversation(row, text) {
+    const convoRes = await this.pool.query(
+      'SELECT id FROM "Conversation" WHERE "userId" = $1 AND "channelType" = $2 AND "channelPeer" = $3 ORDER BY "updatedAt" DESC LIMIT 1',
+      [row.userId, row.channel_type, row.channel_peer]
+    )
+    const convoId = convoRes.rows[0]?.id
+    if (!convoId) return
+
+    await this.pool.query(
+      `INSERT INTO "Message" (id, "conversationId", role, content, "channelType", "channelPeer", direction, "createdAt")
+       VALUES ($1, $2, 'assistant', $3, $4, $5, 'outbound', NOW())`,
+      [cuid(), convoId, text, row.channel_type, row.channel_peer]
+    )
+    await this.pool.query('UPDATE "Conversation" SET "updatedAt" = NOW() WHERE id = $1', [convoId])
+  }
+}
+
+/** An error retrying can't fix; the reminder fails (or the occurrence is skipped) right away */
+function permanentError(message) {
+  return Object.assign(new Error(message), { permanent: true })
+}
+
+function retryDelay(attempts) {
+  return Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS)
+}
+
+/** Peers are stored as the pipeline saw them; WhatsApp sends need the full JID */
+function toConnectorPeer(channelType, peer) {
+  if (channelType === "whatsapp" && !peer.includes("@")) return `${peer}@s.whatsapp.net`
+  return peer
+}
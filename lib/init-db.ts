@@ -67,7 +67,13 @@ CREATE TABLE IF NOT EXISTS "Message" (
   content TEXT NOT NULL,
   attachments JSONB,
   "toolCalls" JSONB,
+  "toolCallId" TEXT,
   "tokenCount" INTEGER,
+  "summarizedUntil" TIMESTAMPTZ,
+  "externalId" TEXT,
+  "deliveryStatus" TEXT,
+  "deliveryError" TEXT,
+  "deliveryUpdatedAt" TIMESTAMPTZ,
   "channelType" TEXT,
   "channelPeer" TEXT,
   direction TEXT DEFAULT 'inbound',
@@ -180,6 +186,86 @@ ALTER TABLE "Message" ADD COLUMN IF NOT EXISTS "model" TEXT;
 ALTER TABLE "Message" ADD COLUMN IF NOT EXISTS "intentClass" TEXT;
 ALTER TABLE "Message" ADD COLUMN IF NOT EXISTS "complexityClass" TEXT;
 
+-- Migration: Link tool result messages to the assistant tool call they answer
+ALTER TABLE "Message" ADD COLUMN IF NOT EXISTS "toolCallId" TEXT;
+
+-- Migration: Rolling conversation summaries (role = 'summary') record the last message they cover
+ALTER TABLE "Message" ADD COLUMN IF NOT EXISTS "summarizedUntil" TIMESTAMPTZ;
+
+-- Migration: Outbound delivery tracking (channel message ID, sent/delivered/read/failed)
+ALTER TABLE "Message" ADD COLUMN IF NOT EXISTS "externalId" TEXT;
+ALTER TABLE "Message" ADD COLUMN IF NOT EXISTS "deliveryStatus" TEXT;
+ALTER TABLE "Message" ADD COLUMN IF NOT EXISTS "deliveryError" TEXT;
+ALTER TABLE "Message" ADD COLUMN IF NOT EXISTS "deliveryUpdatedAt" TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS idx_message_external ON "Message"("externalId") WHERE "externalId" IS NOT NULL;
+
+-- Migration: WhatsApp message templates, synced from the user's WhatsApp Business Account
+CREATE TABLE IF NOT EXISTS whatsapp_template (
+  "userId" TEXT NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  language TEXT NOT NULL,
+  category TEXT,
+  status TEXT NOT NULL,
+  components JSONB NOT NULL DEFAULT '[]',
+  "syncedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY ("userId", name, language)
+);
+
+-- Migration: Core engine sessions (conversation, model and system prompt per channel peer)
+CREATE TABLE IF NOT EXISTS chat_session (
+  key TEXT PRIMARY KEY,
+  data JSONB NOT NULL,
+  "expiresAt" TIMESTAMPTZ NOT NULL,
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_chat_session_expires ON chat_session("expiresAt");
+
+-- Migration: Shared rate limiting (plan + per-user overrides, token buckets)
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS plan TEXT NOT NULL DEFAULT 'free';
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "rateLimitPerMinute" INTEGER;
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "rateLimitPerDay" INTEGER;
+CREATE TABLE IF NOT EXISTS rate_limit_bucket (
+  key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Migration: Durable job queue (per-key ordering, retries) and its dead-letter table
+CREATE TABLE IF NOT EXISTS job_queue (
+  id TEXT PRIMARY KEY,
+  seq BIGSERIAL,
+  key TEXT NOT NULL,
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+  "lastError" TEXT,
+  "runAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "lockedAt" TIMESTAMPTZ,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_job_queue_key ON job_queue(key, seq);
+CREATE INDEX IF NOT EXISTS idx_job_queue_runnable ON job_queue(status, "runAt");
+CREATE TABLE IF NOT EXISTS job_dead_letter (
+  id TEXT PRIMARY KEY,
+  key TEXT NOT NULL,
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  attempts INTEGER NOT NULL,
+  "lastError" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL,
+  "failedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Migration: Inbound webhook event IDs, so provider redeliveries are processed once
+CREATE TABLE IF NOT EXISTS webhook_event (
+  source TEXT NOT NULL,
+  "eventId" TEXT NOT NULL,
+  "receivedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (source, "eventId")
+);
+
 -- Migration: user_memory table
 CREATE TABLE IF NOT EXISTS "user_memory" (
   id TEXT PRIMARY KEY,
@@ -209,6 +295,73 @@ CREATE TABLE IF NOT EXISTS "user_reminder" (
 );
 CREATE INDEX IF NOT EXISTS idx_user_reminder_pending ON "user_reminder"("userId", delivered, remind_at);
 
+-- Migration: Reminder delivery (cancel/snooze, retries with backoff, lease-based claiming)
+ALTER TABLE "user_reminder" ADD COLUMN IF NOT EXISTS connection_mode TEXT;
+ALTER TABLE "user_reminder" ADD COLUMN IF NOT EXISTS cancelled BOOLEAN DEFAULT false;
+ALTER TABLE "user_reminder" ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "user_reminder" ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ;
+ALTER TABLE "user_reminder" ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ;
+ALTER TABLE "user_reminder" ADD COLUMN IF NOT EXISTS last_error TEXT;
+ALTER TABLE "user_reminder" ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ;
+ALTER TABLE "user_reminder" ADD COLUMN IF NOT EXISTS failed_at TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS idx_user_reminder_due ON "user_reminder"(remind_at)
+  WHERE delivered = false AND cancelled = false AND failed_at IS NULL;
+
+-- Migration: Recurring schedules (cron or RRULE in the user's time zone; static message or AI prompt)
+CREATE TABLE IF NOT EXISTS "user_schedule" (
+  id TEXT PRIMARY KEY,
+  "userId" TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'message',
+  content TEXT NOT NULL,
+  cron TEXT,
+  rrule TEXT,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  start_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  channel_type TEXT,
+  channel_peer TEXT,
+  connection_mode TEXT,
+  paused BOOLEAN NOT NULL DEFAULT false,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  run_count INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  "createdAt" TIMESTAMPTZ DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_user_schedule_user ON "user_schedule"("userId");
+CREATE INDEX IF NOT EXISTS idx_user_schedule_due ON "user_schedule"(next_run_at) WHERE paused = false;
+
+-- Migration: Pinned memories (always loaded, set from the memory page)
+ALTER TABLE "user_memory" ADD COLUMN IF NOT EXISTS pinned BOOLEAN NOT NULL DEFAULT false;
+CREATE INDEX IF NOT EXISTS idx_user_memory_source ON "user_memory"("userId", source_channel);
+
+-- Migration: Memory reconciliation (single-valued slots, confidence decay for facts not re-stated)
+ALTER TABLE "user_memory" ADD COLUMN IF NOT EXISTS slot TEXT;
+ALTER TABLE "user_memory" ADD COLUMN IF NOT EXISTS last_confirmed_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE "user_memory" ADD COLUMN IF NOT EXISTS decayed_at TIMESTAMPTZ;
+
+-- Migration: Backfill slots on facts the rule-based extractor stored before slots existed
+UPDATE "user_memory" m SET slot = s.slot
+FROM (
+  SELECT id, CASE
+    WHEN fact ~ '^User''s name is [^ ]+$' THEN 'name'
+    WHEN fact ~ '^User is [^ ]+ years? old$' THEN 'age'
+    WHEN fact LIKE 'User is from %' THEN 'hometown'
+    WHEN fact LIKE 'User lives in %' THEN 'home_city'
+    WHEN fact LIKE 'User works at %' THEN 'employer'
+    WHEN fact LIKE 'User''s job is %' THEN 'job_title'
+    WHEN fact ~* '^User is (a )?(software )?(developer|engineer|designer|manager|teacher|doctor|lawyer|student)$' THEN 'job_title'
+    WHEN fact ~ '^User''s favorite [[:alnum:]_]+ is ' THEN 'favorite_' || lower(substring(fact FROM '^User''s favorite ([[:alnum:]_]+) is '))
+  END AS slot
+  FROM "user_memory" WHERE slot IS NULL
+) s
+WHERE m.id = s.id AND s.slot IS NOT NULL;
+
+-- Migration: Prompt schedule replies kept until delivered, so a failed send doesn't rerun the AI
+ALTER TABLE "user_schedule" ADD COLUMN IF NOT EXISTS pending_reply TEXT;
+
 -- Migration: Add role column to User
 ALTER TABLE "User" ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user';
 
@@ -0,0 +1,331 @@
+/**
+ * Dryads AI — Memory Service
+ * Reading, correcting and reconciling user_memory facts, shared by the memory middleware
+ * (gateway) and the /api/memory routes.
+ *
+ * Pinned facts are always loaded into the AI context; the rest are ranked by relevance to
+ * the current message. Facts that aren't re-stated slowly lose confidence.
+ */
+
+import { randomBytes } from "crypto"
+
+const cuid = () => "c" + randomBytes(12).toString("hex")
+
+export const MEMORY_CATEGORIES = [
+  "preference",     // likes, dislikes, favorites
+  "personal_info",  // name, age, location, language
+  "interest",       // hobbies, topics they follow
+  "work",           // job, company, profession, projects
+  "behavior",       // communication style, habits
+  "general",        // everything else
+]
+
+const MEMORY_COLUMNS = `id, fact, category, source_channel, source_conversation_id, confidence, access_count,
+  pinned, "createdAt", "updatedAt"`
+
+function toMemory(row) {
+  return {
+    id: row.id,
+    fact: row.fact,
+    category: row.category,
+    sourceChannel: row.source_channel,
+    sourceConversationId: row.source_conversation_id,
+    confidence: row.confidence,
+    accessCount: row.access_count,
+    pinned: row.pinned,
+    createdAt: new Date(row.createdAt).toISOString(),
+    updatedAt: new Date(row.updatedAt).toISOString(),
+  }
+}
+
+/**
+ * List a user's memories, pinned first, then most recently updated.
+ * @param {import("pg").Pool} pool
+ * @param {string} userId
+ * @param {{ category?: string, channel?: string, search?: string, pinned?: boolean, limit?: number, offset?: number }} [opts]
+ * @returns {Promise<{ memories: object[], total: number }>}
+ */
+export async function listMemories(pool, userId, opts = {}) {
+  const conditions = ['"userId" = $1']
+  const params = [userId]
+
+  if (opts.category) {
+    params.push(opts.category)
+    conditions.push(`category = $${params.length}`)
+  }
+  if (opts.channel) {
+    params.push(opts.channel)
+    conditions.push(`source_channel = $${params.length}`)
+  }
+  if (opts.search) {
+    params.push(`%${opts.search.replace(/[\\%_]/g, "\\$&")}%`)
+    conditions.push(`fact ILIKE $${params.length}`)
+  }
+  if (opts.pinned !== undefined) {
+    params.push(opts.pinned)
+    conditions.push(`pinned = $${params.length}`)
+  }
+
+  const where = conditions.join(" AND ")
+  const countRes = await pool.query(`SELECT COUNT(*)::int AS total FROM "user_memory" WHERE ${where}`, params)
+
+  params.push(opts.limit || 50, opts.offset || 0)
+  const res = await pool.query(
+    `SELECT ${MEMORY_COLUMNS} FROM "user_memory"
+     WHERE ${where}
+     ORDER BY pinned DESC, "updatedAt" DESC
+     LIMIT $${params.length - 1} OFFSET $${params.length}`,
+    params
+  )
+
+  return { memories: res.rows.map(toMemory), total: countRes.rows[0].total }
+}
+
+/** Fact counts per category and per source channel, for filters */
+export async function getMemoryFacets(pool, userId) {
+  const [categories, channels] = await Promise.all([
+    pool.query(
+      'SELECT category, COUNT(*)::int AS count FROM "user_memory" WHERE "userId" = $1 GROUP BY category ORDER BY count DESC',
+      [userId]
+    ),
+    pool.query(
+      'SELECT source_channel AS channel, COUNT(*)::int AS count FROM "user_memory" WHERE "userId" = $1 GROUP BY source_channel ORDER BY count DESC',
+      [userId]
+    ),
+  ])
+  return { categories: categories.rows, channels: channels.rows }
+}
+
+/**
+ * Edit a memory's text or category, or pin/unpin it.
+ * @param {{ fact?: string, category?: string, pinned?: boolean }} changes
+ * @returns {Promise<{ ok: boolean, memory?: object, error?: string, code?: "not_found" | "invalid" | "duplicate" }>}
+ */
+export async function updateMemory(pool, userId, memoryId, changes) {
+  const fact = changes.fact?.trim()
+  if (changes.fact !== undefined && (!fact || fact.length > 500)) {
+    return { ok: false, error: "Fact must be between 1 and 500 characters", code: "invalid" }
+  }
+  if (changes.category !== undefined && !MEMORY_CATEGORIES.includes(changes.category)) {
+    return { ok: false, error: `Category must be one of ${MEMORY_CATEGORIES.join(", ")}`, code: "invalid" }
+  }
+
+  try {
+    const res = await pool.query(
+      `UPDATE "user_memory"
+       SET fact = COALESCE($3, fact), category = COALESCE($4, category), pinned = COALESCE($5, pinned),
+           confidence = CASE WHEN $3::text IS NULL THEN confidence ELSE 1.0 END,
+           last_confirmed_at = CASE WHEN $3::text IS NULL THEN last_confirmed_at ELSE NOW() END, "updatedAt" = NOW()
+       WHERE id = $1 AND "userId" = $2
+       RETURNING ${MEMORY_COLUMNS}`,
+      [memoryId, userId, fact ?? null, changes.category ?? null, changes.pinned ?? null]
+    )
+    if (!res.rows[0]) return { ok: false, error: "Memory not found", code: "not_found" }
+    return { ok: true, memory: toMemory(res.rows[0]) }
+  } catch (err) {
+    // idx_user_memory_unique: the edited text matches another fact
+    if (err.code === "23505") return { ok: false, error: "An identical memory already exists", code: "duplicate" }
+    throw err
+  }
+}
+
+/** Delete one memory. Returns false if it doesn't exist. */
+export async function deleteMemory(pool, userId, memoryId) {
+  const res = await pool.query('DELETE FROM "user_memory" WHERE id = $1 AND "userId" = $2', [memoryId, userId])
+  return res.rowCount > 0
+}
+
+/**
+ * Forget everything learned on one channel (e.g. "telegram"), pinned facts included.
+ * @returns {Promise<number>} How many memories were deleted
+ */
+export async function forgetChannel(pool, userId, channel) {
+  const res = await pool.query(
+    'DELETE FROM "user_memory" WHERE "userId" = $1 AND source_channel = $2',
+    [userId, channel]
+  )
+  return res.rowCount
+}
+
+// ── Reconciliation ──────────────────────────────────────────────────
+
+/** Jaccard similarity at or above which two facts are the same fact reworded */
+const DUPLICATE_SIMILARITY = 0.75
+/** How much a re-stated fact gains in confidence */
+const CONFIRM_BOOST = 0.1
+/** Facts not re-stated for this long lose confidence, once per DECAY_EVERY */
+const STALE_AFTER_DAYS = 30
+const DECAY_EVERY_DAYS = 7
+const DECAY_FACTOR = 0.85
+const MIN_CONFIDENCE = 0.05
+
+const STOPWORDS = new Set([
+  "user", "user's", "users", "is", "are", "was", "a", "an", "the", "of", "in", "at", "to", "and", "or",
+  "for", "on", "with", "has", "have", "their", "they", "them", "s",
+])
+
+function tokenize(text) {
+  return new Set(
+    text.toLowerCase().replace(/[^\p{L}\p{N}'\s]/gu, " ").split(/\s+/)
+      .map((t) => t.replace(/'s$/, ""))
+      .filter((t) => t && !STOPWORDS.has(t))
+  )
+}
+
+function similarity(a, b) {
+  const ta = tokenize(a)
+  const tb = tokenize(b)
+  if (ta.size === 0 || tb.size === 0) return 0
+  let shared = 0
+  for (const t of ta) if (tb.has(t)) shared++
+  return shared / (ta.size + tb.size - shared)
+}
+
+/**
+ * Store proposed facts, reconciling them with what is already known:
+ *   - a reworded duplicate confirms the existing fact (confidence up, decay reset)
+ *   - a fact for the same slot (e.g. "home_city") or listed in `supersedes` replaces the old one,
+ *     unless the old one is pinned: pinned facts only change from the memory page
+ *   - anything else is inserted
+ * @param {import("pg").Pool} pool
+ * @param {string} userId
+ * @param {Array<{ fact: string, category: string, slot?: string|null, confidence?: number, supersedes?: string[] }>} proposals
+ * @param {{ channel?: string|null, conversationId?: string|null }} [source]
+ * @returns {Promise<{ inserted: number, confirmed: number, superseded: number }>}
+ */
+export async function reconcileFacts(pool, userId, proposals, source = {}) {
+  const stats = { inserted: 0, confirmed: 0, superseded: 0 }
+  if (proposals.length === 0) return stats
+
+  const res = await pool.query(
+    'SELECT id, fact, category, slot, confidence, pinned FROM "user_memory" WHERE "userId" = $1',
+    [userId]
+  )
+  const known = res.rows
+
+  for (const proposal of proposals) {
+    const confidence = Math.min(Math.max(proposal.confidence ?? 1, 0), 1)
+
+    const duplicate = known.find((m) => m.fact === proposal.fact || similarity(m.fact, proposal.fact) >= DUPLICATE_SIMILARITY)
+    if (duplicate) {
+      await pool.query(
+        `UPDATE "user_memory"
+         SET confidence = LEAST(1.0, GREATEST(confidence, $2) + $3), slot = COALESCE(slot, $4),
+             access_count = access_count + 1, last_confirmed_at = NOW(), decayed_at = NULL, "updatedAt" = NOW()
+         WHERE id = $1`,
+        [duplicate.id, confidence, CONFIRM_BOOST, proposal.slot || null]
+      )
+      stats.confirmed++
+      continue
+    }
+
+    const conflicting = known.filter(
+      (m) => !m.pinned && ((proposal.slot && m.slot === proposal.slot) || proposal.supersedes?.includes(m.id))
+    )
+    if (conflicting.length > 0) {
+      // Rewrite the first conflicting row in place so it keeps its id; drop the rest
+      const [target, ...rest] = conflicting
+      try {
+        await pool.query(
+          `UPDATE "user_memory"
+           SET fact = $2, category = $3, slot = $4, confidence = $5, source_channel = $6, source_conversation_id = $7,
+               last_confirmed_at = NOW(), decayed_at = NULL, "updatedAt" = NOW()
+           WHERE id = $1`,
+          [target.id, proposal.fact, proposal.category, proposal.slot || null, confidence, source.channel || null, source.conversationId || null]
+        )
+      } catch (err) {
+        if (err.code !== "23505") throw err
+        rest.push(target)
+      }
+      if (rest.length > 0) {
+        await pool.query('DELETE FROM "user_memory" WHERE id = ANY($1)', [rest.map((m) => m.id)])
+      }
+      console.log(`[Memory] Superseded ${conflicting.length} fact(s) with "${proposal.fact}"`)
+      for (const m of conflicting) known.splice(known.indexOf(m), 1)
+      known.push({ ...target, fact: proposal.fact, category: proposal.category, slot: proposal.slot || null })
+      stats.superseded += conflicting.length
+      continue
+    }
+
+    const id = cuid()
+    await pool.query(
+      `INSERT INTO "user_memory" (id, "userId", fact, category, slot, confidence, source_channel, source_conversation_id,
+         last_confirmed_at, "createdAt", "updatedAt")
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW(), NOW())
+       ON CONFLICT ("userId", fact) DO UPDATE SET
+         access_count = "user_memory".access_count + 1, last_confirmed_at = NOW(), "updatedAt" = NOW()`,
+      [id, userId, proposal.fact, proposal.category, proposal.slot || null, confidence, source.channel || null, source.conversationId || null]
+    )
+    known.push({ id, fact: proposal.fact, category: proposal.category, slot: proposal.slot || null, confidence, pinned: false })
+    stats.inserted++
+  }
+
+  return stats
+}
+
+/**
+ * Lower the confidence of unpinned facts that haven't been re-stated in a while.
+ * Runs at most once per DECAY_EVERY_DAYS per fact, so calling it every turn is cheap.
+ * @returns {Promise<number>} How many facts decayed
+ */
+export async function decayStaleMemories(pool, userId) {
+  const res = await pool.query(
+    `UPDATE "user_memory"
+     SET confidence = GREATEST($2, confidence * $3), decayed_at = NOW()
+     WHERE "userId" = $1 AND NOT pinned
+       AND COALESCE(last_confirmed_at, "createdAt") < NOW() - $4 * INTERVAL '1 day'
+       AND (decayed_at IS NULL OR decayed_at < NOW() - $5 * INTERVAL '1 day')`,
+    [userId, MIN_CONFIDENCE, DECAY_FACTOR, STALE_AFTER_DAYS, DECAY_EVERY_DAYS]
+  )
+  return res.rowCount
+}
+
+// ── Ranking ─────────────────────────────────────────────────────────
+
+/** Below this, a fact only reaches the prompt if the message is about it */
+const PROMPT_MIN_CONFIDENCE = 0.3
+
+/** Cheap stemming: "travelling" matches "travel", "cats" matches "cat", "cat" doesn't match "catalog" */
+function sameStem(a, b) {
+  if (a === b) return true
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a]
+  return short.length >= 3 && long.startsWith(short) && (short.length >= 5 || long.length - short.length <= 2)
+}
+
+function relevance(factTokens, messageTokens) {
+  if (factTokens.size === 0 || messageTokens.size === 0) return 0
+  let hits = 0
+  for (const f of factTokens) {
+    for (const m of messageTokens) {
+      if (sameStem(f, m)) {
+        hits++
+        break
+      }
+    }
+  }
+  return hits / factTokens.size
+}
+
+/**
+ * Pick the facts to put in the prompt: every pinned fact, then the best `limit` others by
+ * relevance to the current message, weighted by confidence and how often they've been useful.
+ * @param {Array<{ fact: string, confidence: number, access_count: number, pinned: boolean }>} memories
+ * @param {string} text - The current user message
+ */
+export function rankMemories(memories, text, limit = 15) {
+  const messageTokens = tokenize(text || "")
+  const scored = memories
+    .filter((m) => !m.pinned)
+    .map((m) => {
+      const rel = relevance(tokenize(m.fact), messageTokens)
+      const confidence = m.confidence ?? 1
+      const usage = Math.min(Math.log1p(m.access_count || 0) / 10, 0.3)
+      return { memory: m, rel, score: rel * 2 + confidence + usage }
+    })
+    .filter((s) => s.rel > 0 || (s.memory.confidence ?? 1) >= PROMPT_MIN_CONFIDENCE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((s) => s.memory)
+
+  return [...memories.filter((m) => m.pinned), ...scored]
+}
@@ -32,6 +32,7 @@ export function aiRouterMiddleware(pool) {
     // Strip invisible Unicode chars from API keys (e.g. U+2028 from copy-paste)
     // eslint-disable-next-line no-control-regex
     const apiKey = rawKey.replace(/[^\x20-\x7E]/g, "").trim()
+    ctx.aiApiKey = apiKey
 
     // Use persona-built system prompt, or fall back to basic
     const systemPrompt = ctx.systemPrompt || FALLBACK_PROMPT
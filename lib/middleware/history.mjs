@@ -1,21 +1,84 @@
 /**
  * Dryads AI — History Middleware
- * Loads the last N messages from DB for the conversation.
- * Sets ctx.history (array of {role, content}).
+ * Two-phase middleware:
+ *   Phase A (before AI): Load the rolling summary plus as many recent messages as fit the token budget.
+ *     Sets ctx.history (array of {role, content}) and ctx.conversationSummary.
+ *   Phase B (after AI): If older turns overflowed the budget, fold them into the summary.
  */
 
+import { getLatestSummary, scheduleSummary } from "../ai/summarizer.mjs"
+
+/** Safety cap on rows scanned per conversation */
+const MAX_SCANNED_MESSAGES = 500
+
+/** Rough token estimate (~4 chars per token) for rows stored without a count */
+const estimateTokens = (text) => Math.ceil((text || "").length / 4)
+
+/**
+ * Keeps the newest rows that fit `budget` tokens. Rows come in newest first and go out oldest
+ * first. When older rows don't fit, `summarizeThrough` is where summarization should stop: the
+ * row that pushed the tail past half of `fullBudget`, so several turns fit before the next run.
+ * Shared with the core engine's context builder.
+ * @template {{ createdAt: Date }} T
+ * @param {T[]} rows
+ * @param {{ budget: number, fullBudget: number, countTokens: (row: T) => number }} opts
+ * @returns {{ rows: T[], summarizeThrough: Date | null }}
+ */
+export function fitHistory(rows, { budget, fullBudget, countTokens }) {
+  const kept = []
+  let used = 0
+  let halfwayAt = null
+
+  for (const row of rows) {
+    const tokens = countTokens(row)
+    used += tokens
+    if (!halfwayAt && used > fullBudget / 2) halfwayAt = row.createdAt
+
+    if (tokens > budget) return { rows: kept.reverse(), summarizeThrough: halfwayAt ?? row.createdAt }
+
+    budget -= tokens
+    kept.push(row)
+  }
+
+  return { rows: kept.reverse(), summarizeThrough: null }
+}
+
 /**
  * @param {import("pg").Pool} pool
- * @param {number} limit - Max messages to load (default 10)
+ * @param {number} tokenBudget - Max tokens of history (summary included) to load (default 8000)
  */
-export function historyMiddleware(pool, limit = 10) {
+export function historyMiddleware(pool, tokenBudget = 8000) {
   return async function history(ctx, next) {
+    const summary = await getLatestSummary(pool, ctx.convoId)
+    let budget = summary ? tokenBudget - (summary.tokenCount ?? estimateTokens(summary.content)) : tokenBudget
+
     const historyRes = await pool.query(
-      'SELECT role, content FROM "Message" WHERE "conversationId" = $1 ORDER BY "createdAt" DESC LIMIT $2',
-      [ctx.convoId, limit]
+      `SELECT role, content, "tokenCount", "createdAt" FROM "Message"
+       WHERE "conversationId" = $1 AND role IN ('user', 'assistant') AND "createdAt" > $2
+       ORDER BY "createdAt" DESC LIMIT $3`,
+      [ctx.convoId, summary?.summarizedUntil ?? new Date(0), MAX_SCANNED_MESSAGES]
     )
-    ctx.history = historyRes.rows.reverse()
+
+    const { rows, summarizeThrough } = fitHistory(historyRes.rows, {
+      budget,
+      fullBudget: tokenBudget,
+      countTokens: (msg) => msg.tokenCount ?? estimateTokens(msg.content),
+    })
+
+    ctx.history = rows.map((msg) => ({ role: msg.role, content: msg.content }))
+    ctx.conversationSummary = summary?.content || null
 
     await next()
+
+    // Provider and key are only known once the AI router has run
+    if (summarizeThrough && ctx.aiApiKey) {
+      scheduleSummary(pool, {
+        convoId: ctx.convoId,
+        provider: ctx.aiProvider || "openai",
+        apiKey: ctx.aiApiKey,
+        model: ctx.aiModel,
+        through: summarizeThrough,
+      })
+    }
   }
 }
@@ -1,47 +1,43 @@
 /**
  * Dryads AI — Long-term Memory Middleware (Engine 2)
  * Two-phase middleware:
- *   Phase A (before AI): Load top 15 memories for this user
- *   Phase B (after AI): Extract facts from conversation, store in user_memory
+ *   Phase A (before AI): Load this user's memories and keep the pinned ones plus the 15 most
+ *                        relevant to the current message
+ *   Phase B (after AI): Extract facts from the message (rules, or the model when aiExtraction
+ *                       is on) and reconcile them into user_memory
  *
  * Memories persist across conversations and channels.
  */
 
-import { randomBytes } from "crypto"
+import { extractFactsWithAI } from "../ai/memory-extractor.mjs"
+import { rankMemories, reconcileFacts, decayStaleMemories } from "../memories.mjs"
 
-const cuid = () => "c" + randomBytes(12).toString("hex")
-
-// ── Categories for fact extraction ──────────────────────────────────
-
-const FACT_CATEGORIES = [
-  "preference",     // likes, dislikes, favorites
-  "personal_info",  // name, age, location, language
-  "interest",       // hobbies, topics they follow
-  "work",           // job, company, profession, projects
-  "behavior",       // communication style, habits
-  "general",        // everything else
-]
+/** Facts considered per turn before ranking */
+const MAX_CANDIDATES = 200
+/** Rule matches are less certain than something the model read in context */
+const RULE_CONFIDENCE = 0.8
 
 // ── Simple fact extraction (rule-based, no extra AI call) ───────────
+// slot marks facts that can only have one value, so a new one replaces the old
 
 const FACT_PATTERNS = [
   // Personal info
-  { pattern: /\bmy\s+name\s+is\s+(\w+)/i, category: "personal_info", template: (m) => `User's name is ${m[1]}` },
-  { pattern: /\bi\s+am\s+(\w+)\s+years?\s+old/i, category: "personal_info", template: (m) => `User is ${m[1]} years old` },
-  { pattern: /\bi(?:'m|\s+am)\s+from\s+(.+?)(?:\.|,|!|\?|$)/i, category: "personal_info", template: (m) => `User is from ${m[1].trim()}` },
-  { pattern: /\bi\s+live\s+in\s+(.+?)(?:\.|,|!|\?|$)/i, category: "personal_info", template: (m) => `User lives in ${m[1].trim()}` },
+  { pattern: /\bmy\s+name\s+is\s+(\w+)/i, category: "personal_info", slot: "name", template: (m) => `User's name is ${m[1]}` },
+  { pattern: /\bi\s+am\s+(\w+)\s+years?\s+old/i, category: "personal_info", slot: "age", template: (m) => `User is ${m[1]} years old` },
+  { pattern: /\bi(?:'m|\s+am)\s+from\s+(.+?)(?:\.|,|!|\?|$)/i, category: "personal_info", slot: "hometown", template: (m) => `User is from ${m[1].trim()}` },
+  { pattern: /\bi\s+live\s+in\s+(.+?)(?:\.|,|!|\?|$)/i, category: "personal_info", slot: "home_city", template: (m) => `User lives in ${m[1].trim()}` },
   { pattern: /\bi\s+speak\s+(\w+)/i, category: "personal_info", template: (m) => `User speaks ${m[1]}` },
 
   // Work
-  { pattern: /\bi\s+work\s+(?:at|for)\s+(.+?)(?:\.|,|!|\?|$)/i, category: "work", template: (m) => `User works at ${m[1].trim()}` },
+  { pattern: /\bi\s+work\s+(?:at|for)\s+(.+?)(?:\.|,|!|\?|$)/i, category: "work", slot: "employer", template: (m) => `User works at ${m[1].trim()}` },
   { pattern: /\bi(?:'m|\s+am)\s+a\s+(.+?)(?:\.|,|!|\?|$)/i, category: "work", template: (m) => `User is a ${m[1].trim()}` },
-  { pattern: /\bmy\s+job\s+is\s+(.+?)(?:\.|,|!|\?|$)/i, category: "work", template: (m) => `User's job is ${m[1].trim()}` },
-  { pattern: /\bi(?:'m|\s+am)\s+(?:a\s+)?(?:software\s+)?(?:developer|engineer|designer|manager|teacher|doctor|lawyer|student)\b/i, category: "work", template: (m) => `User is ${m[0].replace(/^i(?:'m|\s+am)\s+/i, "").trim()}` },
+  { pattern: /\bmy\s+job\s+is\s+(.+?)(?:\.|,|!|\?|$)/i, category: "work", slot: "job_title", template: (m) => `User's job is ${m[1].trim()}` },
+  { pattern: /\bi(?:'m|\s+am)\s+(?:a\s+)?(?:software\s+)?(?:developer|engineer|designer|manager|teacher|doctor|lawyer|student)\b/i, category: "work", slot: "job_title", template: (m) => `User is ${m[0].replace(/^i(?:'m|\s+am)\s+/i, "").trim()}` },
 
   // Preferences
   { pattern: /\bi\s+(?:love|like|enjoy|prefer)\s+(.+?)(?:\.|,|!|\?|$)/i, category: "preference", template: (m) => `User likes ${m[1].trim()}` },
   { pattern: /\bi\s+(?:hate|dislike|don't\s+like|can't\s+stand)\s+(.+?)(?:\.|,|!|\?|$)/i, category: "preference", template: (m) => `User dislikes ${m[1].trim()}` },
-  { pattern: /\bmy\s+favorite\s+(\w+)\s+is\s+(.+?)(?:\.|,|!|\?|$)/i, category: "preference", template: (m) => `User's favorite ${m[1]} is ${m[2].trim()}` },
+  { pattern: /\bmy\s+favorite\s+(\w+)\s+is\s+(.+?)(?:\.|,|!|\?|$)/i, category: "preference", slot: (m) => `favorite_${m[1].toLowerCase()}`, template: (m) => `User's favorite ${m[1]} is ${m[2].trim()}` },
 
   // Interests
   { pattern: /\bi(?:'m|\s+am)\s+(?:interested|passionate)\s+(?:in|about)\s+(.+?)(?:\.|,|!|\?|$)/i, category: "interest", template: (m) => `User is interested in ${m[1].trim()}` },
@@ -50,13 +46,13 @@ const FACT_PATTERNS = [
 
 function extractFacts(text) {
   const facts = []
-  for (const { pattern, category, template } of FACT_PATTERNS) {
+  for (const { pattern, category, slot, template } of FACT_PATTERNS) {
     const match = text.match(pattern)
     if (match) {
       const fact = template(match)
       // Skip very short or very long facts
       if (fact.length > 10 && fact.length < 200) {
-        facts.push({ fact, category })
+        facts.push({ fact, category, slot: typeof slot === "function" ? slot(match) : slot || null, confidence: RULE_CONFIDENCE })
       }
     }
   }
@@ -67,31 +63,37 @@ function extractFacts(text) {
 
 /**
  * @param {import("pg").Pool} pool
+ * @param {object} [opts]
+ * @param {boolean} [opts.aiExtraction=false] — Extract facts with the conversation's model instead of regexes
  */
-export function memoryMiddleware(pool) {
+export function memoryMiddleware(pool, opts = {}) {
+  const { aiExtraction = false } = opts
+
   return async function memory(ctx, next) {
     // ── Phase A: Load memories before AI call ──
+    let candidates = []
     try {
       const memRes = await pool.query(
-        `SELECT fact, category FROM "user_memory"
+        `SELECT id, fact, category, slot, confidence, access_count, pinned FROM "user_memory"
          WHERE "userId" = $1
-         ORDER BY access_count DESC, "updatedAt" DESC
-         LIMIT 15`,
-        [ctx.userId]
+         ORDER BY pinned DESC, confidence DESC, access_count DESC
+         LIMIT $2`,
+        [ctx.userId, MAX_CANDIDATES]
       )
-      ctx.userMemories = memRes.rows
+      candidates = memRes.rows
+      ctx.userMemories = rankMemories(candidates, ctx.text)
 
       // Increment access_count for loaded memories
-      if (memRes.rows.length > 0) {
+      if (ctx.userMemories.length > 0) {
         await pool.query(
           `UPDATE "user_memory"
            SET access_count = access_count + 1, "updatedAt" = NOW()
-           WHERE "userId" = $1 AND fact = ANY($2)`,
-          [ctx.userId, memRes.rows.map((r) => r.fact)]
+           WHERE id = ANY($1)`,
+          [ctx.userMemories.map((m) => m.id)]
         )
       }
 
-      console.log(`[MW:Memory] Loaded ${memRes.rows.length} memories for user ${ctx.userId}`)
+      console.log(`[MW:Memory] Loaded ${ctx.userMemories.length} of ${candidates.length} memories for user ${ctx.userId}`)
     } catch (err) {
       console.error(`[MW:Memory] Error loading memories:`, err.message)
       ctx.userMemories = []
@@ -100,7 +102,7 @@ export function memoryMiddleware(pool) {
     // ── Run the rest of the pipeline (AI call happens here) ──
     await next()
 
-    // ── Phase B: Extract and store facts (fire-and-forget) ──
+    // ── Phase B: Extract and reconcile facts (fire-and-forget) ──
     const userText = ctx.text || ""
 
     // Only extract from user messages with enough substance
@@ -108,26 +110,33 @@ export function memoryMiddleware(pool) {
 
     setImmediate(async () => {
       try {
-        const facts = extractFacts(userText)
+        let facts = null
 
-        for (const { fact, category } of facts) {
+        // Provider and key are only known once the AI router has run
+        if (aiExtraction && ctx.aiApiKey) {
           try {
-            await pool.query(
-              `INSERT INTO "user_memory" (id, "userId", fact, category, source_channel, source_conversation_id, "createdAt", "updatedAt")
-               VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
-               ON CONFLICT ("userId", fact) DO UPDATE SET
-                 access_count = "user_memory".access_count + 1,
-                 "updatedAt" = NOW()`,
-              [cuid(), ctx.userId, fact, category, ctx.channelType || null, ctx.convoId || null]
-            )
-            console.log(`[MW:Memory] Stored fact: "${fact}" (${category})`)
+            facts = await extractFactsWithAI({
+              provider: ctx.aiProvider || "openai",
+              apiKey: ctx.aiApiKey,
+              model: ctx.aiModel,
+              text: userText,
+              known: rankMemories(candidates, userText, 30),
+            })
           } catch (err) {
-            // Silently skip duplicates / errors
-            if (!err.message.includes("duplicate")) {
-              console.error(`[MW:Memory] Error storing fact:`, err.message)
-            }
+            console.error(`[MW:Memory] AI extraction failed, falling back to rules:`, err.message)
           }
         }
+        facts = facts ?? extractFacts(userText)
+
+        const stats = await reconcileFacts(pool, ctx.userId, facts, {
+          channel: ctx.channelType || null,
+          conversationId: ctx.convoId || null,
+        })
+        const decayed = await decayStaleMemories(pool, ctx.userId)
+
+        if (facts.length > 0 || decayed > 0) {
+          console.log(`[MW:Memory] ${stats.inserted} new, ${stats.confirmed} confirmed, ${stats.superseded} superseded, ${decayed} decayed`)
+        }
       } catch (err) {
         console.error(`[MW:Memory] Extraction error:`, err.message)
       }
@@ -1,70 +1,27 @@
 /**
  * Dryads AI — Metering Middleware
- * In-memory usage tracking + rate limiting per user per day.
- * Short-circuits the pipeline if a user exceeds their daily limit.
- * Placed FIRST in pipeline to avoid DB/AI load for rate-limited users.
- * Sets ctx.messageCount on the context.
+ * Per-user rate limiting (per-minute and per-day token buckets) via the shared
+ * Postgres-backed rate limit service, the same buckets the core engine uses.
+ * Short-circuits the pipeline if a user is over either limit.
+ * Placed FIRST in pipeline to avoid AI load for rate-limited users.
+ * Sets ctx.rateLimit (remaining tokens, limits, retryAfter) on the context.
  */
 
-// ── In-Memory Usage Store ──────────────────────────────────────────
-
-/**
- * Map<userId, { date: "YYYY-MM-DD", count: number }>
- * Resets automatically when the date changes.
- */
-const usageMap = new Map()
-
-/**
- * Get today's date key (UTC).
- */
-function todayKey() {
-  const now = new Date()
-  return `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, "0")}-${String(now.getUTCDate()).padStart(2, "0")}`
-}
-
-/**
- * Increment and return the user's message count for today.
- */
-function incrementUsage(userId) {
-  const today = todayKey()
-  const entry = usageMap.get(userId)
-
-  if (!entry || entry.date !== today) {
-    // New day or first message ever
-    usageMap.set(userId, { date: today, count: 1 })
-    return 1
-  }
-
-  entry.count += 1
-  return entry.count
-}
-
-/**
- * Get the user's current count for today (without incrementing).
- */
-function getUsage(userId) {
-  const today = todayKey()
-  const entry = usageMap.get(userId)
-  if (!entry || entry.date !== today) return 0
-  return entry.count
-}
+import { consumeRateLimit, formatRetryAfter } from "../rate-limit.mjs"
 
 // ── Middleware ──────────────────────────────────────────────────────
 
-const DEFAULT_LIMIT = 200
+const dailyLimitMessage = (retryAfter) =>
+  `You've reached your daily message limit. You can send another message in ${formatRetryAfter(retryAfter)}. Upgrade your plan for more messages!`
 
-const RATE_LIMIT_MESSAGE =
-  "You've reached your daily message limit. Your limit resets at midnight UTC. Upgrade your plan for more messages, or try again tomorrow!"
+const burstLimitMessage = (retryAfter) =>
+  `You're sending messages too quickly. Please wait ${formatRetryAfter(retryAfter)} and try again.`
 
 /**
  * Metering middleware factory.
- * @param {import("pg").Pool} pool - For future DB-backed usage (currently unused)
- * @param {object} [opts]
- * @param {number} [opts.maxMessagesPerDay=200] — Max messages per user per day
+ * @param {import("pg").Pool} pool - Backs the shared rate limit buckets
  */
-export function meteringMiddleware(pool, opts = {}) {
-  const { maxMessagesPerDay = DEFAULT_LIMIT } = opts
-
+export function meteringMiddleware(pool) {
   return async function metering(ctx, next) {
     const userId = ctx.userId
     if (!userId) {
@@ -73,18 +30,20 @@ export function meteringMiddleware(pool, opts = {}) {
       return
     }
 
-    const count = incrementUsage(userId)
-    ctx.messageCount = count
+    const limit = await consumeRateLimit(pool, userId)
+    ctx.rateLimit = limit
 
-    if (count > maxMessagesPerDay) {
+    if (!limit.allowed) {
       // Short-circuit: skip the rest of the pipeline
-      ctx.reply = RATE_LIMIT_MESSAGE
-      console.log(`[MW:Metering] Rate limit hit for user ${userId} (${count}/${maxMessagesPerDay})`)
+      ctx.reply = limit.limitedBy === "day"
+        ? dailyLimitMessage(limit.retryAfter)
+        : burstLimitMessage(limit.retryAfter)
+      console.log(`[MW:Metering] ${limit.limitedBy} limit hit for user ${userId} (plan: ${limit.limits.plan}, retry in ${limit.retryAfter}s)`)
       return // Do NOT call next() — skips everything
     }
 
-    if (count === Math.floor(maxMessagesPerDay * 0.9)) {
-      console.log(`[MW:Metering] User ${userId} at 90% of daily limit (${count}/${maxMessagesPerDay})`)
+    if (limit.remaining.day === Math.floor(limit.limits.perDay * 0.1)) {
+      console.log(`[MW:Metering] User ${userId} at 90% of daily limit (${limit.remaining.day}/${limit.limits.perDay} left)`)
     }
 
     await next()
@@ -1,7 +1,7 @@
 /**
  * Dryads AI — Persona Middleware
  * Builds a rich, multi-section system prompt and sets ctx.systemPrompt.
- * Consumes: ctx.senderInfo, ctx.envelope, ctx.enrichedContent, ctx.newsContext
+ * Consumes: ctx.senderInfo, ctx.envelope, ctx.enrichedContent, ctx.newsContext, ctx.conversationSummary
  */
 
 // ── Platform-Specific Rules ────────────────────────────────────────
@@ -123,7 +123,7 @@ ${platform.rules.map((r) => `- ${r}`).join("\n")}`)
 - Available on: Telegram, WhatsApp, Discord, Slack, Signal, WeChat, and more
 - Powered by multiple AI providers: OpenAI, Google Gemini, Anthropic Claude
 - Long-term memory across conversations and channels
-- Image generation, code execution, math calculation, translation, and reminders
+- Image generation, code execution, math calculation, translation, and reminders (one-time or recurring; set, list, cancel, snooze)
 - ACTIONABLE: Can send messages to contacts on any connected platform on behalf of the user
 - ACTIONABLE: Can search the user's contacts across all platforms
 - ACTIONABLE: Can check which platforms the user has connected`)
@@ -131,7 +131,7 @@ ${platform.rules.map((r) => `- ${r}`).join("\n")}`)
   // ── 5. User Memory ──
   if (ctx.userMemories && ctx.userMemories.length > 0) {
     const memoryLines = ctx.userMemories
-      .map((m) => `- [${m.category}] ${m.fact}`)
+      .map((m) => `- [${m.category}] ${m.fact}${m.confidence < 0.5 ? " (not confirmed recently, may be outdated)" : ""}`)
       .join("\n")
     sections.push(`## What You Know About This User
 The following facts were learned from previous conversations. Use them to personalize your responses:
@@ -140,6 +140,13 @@ ${memoryLines}
 Important: Reference these facts naturally when relevant. Don't list them back to the user unprompted.`)
   }
 
+  // ── 5b. Conversation Summary ──
+  if (ctx.conversationSummary) {
+    sections.push(`## Earlier in This Conversation
+Older messages have been condensed into this summary. Treat it as part of the conversation:
+${ctx.conversationSummary}`)
+  }
+
   // ── 6. Available Tools ──
   const TOOL_SUMMARIES = toolRegistry.getToolSummaries()
   const toolLines = Object.entries(TOOL_SUMMARIES)
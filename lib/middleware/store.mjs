@@ -5,6 +5,7 @@
  */
 
 import { randomBytes } from "crypto"
+import { countMessageTokens } from "../ai/tokenizer.mjs"
 
 const cuid = () => "c" + randomBytes(12).toString("hex")
 
@@ -17,19 +18,20 @@ export function storeMiddleware(pool) {
 
     // Save user message
     await pool.query(
-      'INSERT INTO "Message" (id, "conversationId", role, content, "createdAt") VALUES ($1, $2, $3, $4, $5)',
-      [cuid(), ctx.convoId, "user", ctx.text, ctx.now]
+      'INSERT INTO "Message" (id, "conversationId", role, content, "tokenCount", "createdAt") VALUES ($1, $2, $3, $4, $5, $6)',
+      [cuid(), ctx.convoId, "user", ctx.text, countMessageTokens({ content: ctx.text }, ctx.aiProvider, ctx.aiModel), ctx.now]
     )
 
     // Save AI response with metadata
     await pool.query(
-      `INSERT INTO "Message" (id, "conversationId", role, content, provider, model, "intentClass", "complexityClass", "createdAt")
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      `INSERT INTO "Message" (id, "conversationId", role, content, "tokenCount", provider, model, "intentClass", "complexityClass", "createdAt")
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
       [
         cuid(),
         ctx.convoId,
         "assistant",
         ctx.reply,
+        countMessageTokens({ content: ctx.reply }, ctx.aiProvider, ctx.aiModel),
         ctx.aiProvider || null,
         ctx.aiModel || null,
         ctx.intentClass || null,
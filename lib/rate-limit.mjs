@@ -0,0 +1,156 @@
+/**
+ * Dryads AI — Rate Limit Service
+ * Token-bucket rate limiting shared by the gateway pipeline (bot.mjs) and the core engine.
+ * Buckets live in Postgres (rate_limit_bucket), so limits survive deploys and hold across instances.
+ *
+ * Every user has two buckets: one refilling over a minute and one over a day.
+ * Capacities come from the user's plan, with optional per-user overrides on the User row.
+ */
+
+const MINUTE_MS = 60_000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+/**
+ * Limits per plan. A bucket holds `perMinute` / `perDay` tokens and refills continuously,
+ * so bursts are allowed up to capacity while the sustained rate stays bounded.
+ */
+export const PLAN_LIMITS = {
+  free: { perMinute: 30, perDay: 200 },
+  pro: { perMinute: 60, perDay: 2000 },
+  business: { perMinute: 300, perDay: 20000 },
+}
+
+const DEFAULT_PLAN = "free"
+
+/** Plan lookups are cached briefly so metering doesn't add a User query to every message */
+const LIMITS_CACHE_TTL_MS = 60_000
+const limitsCache = new Map()
+
+/**
+ * Resolve a user's limits: per-user overrides first, then their plan, then the free plan.
+ * @param {import("pg").Pool} pool
+ * @param {string} userId
+ * @returns {Promise<{ plan: string, perMinute: number, perDay: number }>}
+ */
+export async function resolveLimits(pool, userId) {
+  const cached = limitsCache.get(userId)
+  if (cached && cached.expiresAt > Date.now()) return cached.limits
+
+  const res = await pool.query(
+    'SELECT plan, "rateLimitPerMinute", "rateLimitPerDay" FROM "User" WHERE id = $1',
+    [userId]
+  )
+  const row = res.rows[0]
+  const plan = row?.plan && PLAN_LIMITS[row.plan] ? row.plan : DEFAULT_PLAN
+  const limits = {
+    plan,
+    perMinute: row?.rateLimitPerMinute ?? PLAN_LIMITS[plan].perMinute,
+    perDay: row?.rateLimitPerDay ?? PLAN_LIMITS[plan].perDay,
+  }
+
+  limitsCache.set(userId, { limits, expiresAt: Date.now() + LIMITS_CACHE_TTL_MS })
+  return limits
+}
+
+/**
+ * Take `cost` tokens from both of the user's buckets, or from neither if either is short.
+ * @param {import("pg").Pool} pool
+ * @param {string} userId
+ * @param {number} [cost=1]
+ * @returns {Promise<{
+ *   allowed: boolean,
+ *   limitedBy: "minute" | "day" | null,
+ *   remaining: { minute: number, day: number },
+ *   retryAfter: number,
+ *   limits: { plan: string, perMinute: number, perDay: number }
+ * }>} retryAfter is in seconds (0 when allowed), suitable for a Retry-After header
+ */
+export async function consumeRateLimit(pool, userId, cost = 1) {
+  try {
+    return await takeTokens(pool, userId, cost)
+  } catch (err) {
+    // Fail open: a database hiccup shouldn't take every conversation down with it
+    console.error(`[RateLimit] Check failed for ${userId}, allowing:`, err.message)
+    return {
+      allowed: true,
+      limitedBy: null,
+      remaining: { minute: 0, day: 0 },
+      retryAfter: 0,
+      limits: { plan: DEFAULT_PLAN, ...PLAN_LIMITS[DEFAULT_PLAN] },
+    }
+  }
+}
+
+async function takeTokens(pool, userId, cost) {
+  const limits = await resolveLimits(pool, userId)
+  const windows = [
+    { name: "minute", capacity: limits.perMinute, windowMs: MINUTE_MS },
+    { name: "day", capacity: limits.perDay, windowMs: DAY_MS },
+  ]
+
+  const client = await pool.connect()
+  try {
+    await client.query("BEGIN")
+
+    // Upsert each bucket (new ones start full) and lock it for the rest of the transaction
+    const buckets = []
+    for (const w of windows) {
+      const key = `${userId}:${w.name}`
+      const res = await client.query(
+        `INSERT INTO rate_limit_bucket (key, tokens, "updatedAt") VALUES ($1, $2, NOW())
+         ON CONFLICT (key) DO UPDATE SET key = EXCLUDED.key
+         RETURNING tokens, EXTRACT(EPOCH FROM (NOW() - "updatedAt")) * 1000 AS "elapsedMs"`,
+        [key, w.capacity]
+      )
+      const { tokens, elapsedMs } = res.rows[0]
+      const refilled = Math.min(w.capacity, tokens + (Number(elapsedMs) * w.capacity) / w.windowMs)
+      buckets.push({ ...w, key, tokens: refilled })
+    }
+
+    const short = buckets.filter((b) => b.tokens < cost)
+    const allowed = short.length === 0
+
+    for (const b of buckets) {
+      if (allowed) b.tokens -= cost
+      await client.query(
+        'UPDATE rate_limit_bucket SET tokens = $2, "updatedAt" = NOW() WHERE key = $1',
+        [b.key, b.tokens]
+      )
+    }
+
+    await client.query("COMMIT")
+
+    // Time until the emptiest blocking bucket has refilled enough for this request
+    const retryAfter = allowed
+      ? 0
+      : Math.max(...short.map((b) => Math.ceil(((cost - b.tokens) * b.windowMs) / b.capacity / 1000)))
+    // A drained daily bucket is what the user needs to hear about, even if the minute one is empty too
+    const limitedBy = allowed ? null : short.some((b) => b.name === "day") ? "day" : "minute"
+
+    return {
+      allowed,
+      limitedBy,
+      remaining: {
+        minute: Math.max(0, Math.floor(buckets[0].tokens)),
+        day: Math.max(0, Math.floor(buckets[1].tokens)),
+      },
+      retryAfter,
+      limits,
+    }
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => {})
+    throw err
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Human-readable wait for rate-limit replies, e.g. "45s", "12 min", "6h".
+ * @param {number} seconds
+ */
+export function formatRetryAfter(seconds) {
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min`
+  return `${Math.ceil(seconds / 3600)}h`
+}
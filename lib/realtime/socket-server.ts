@@ -9,7 +9,16 @@
 import { Server } from "socket.io"
 import { getGatewayClient } from "@/lib/gateway/client"
 
-let realtimeIO: Server | null = null
+// Shared via globalThis: route handlers are bundled separately from the instrumentation hook
+const globalForRealtime = globalThis as unknown as { realtimeIO?: Server | null }
+
+let realtimeIO: Server | null = globalForRealtime.realtimeIO || null
+
+/** Pushes an event to one user's browsers. A no-op until the realtime server has started. */
+export function emitToUser(userId: string, event: string, payload: unknown) {
+  const io = realtimeIO || globalForRealtime.realtimeIO
+  io?.to(`user:${userId}`).emit(event, payload)
+}
 
 export function startRealtimeServer() {
   if (realtimeIO) return realtimeIO
@@ -19,6 +28,7 @@ export function startRealtimeServer() {
   realtimeIO = new Server(port, {
     cors: { origin: "*" },
   })
+  globalForRealtime.realtimeIO = realtimeIO
 
   // Auth middleware — extract userId from handshake
   realtimeIO.use((socket, next) => {
@@ -0,0 +1,339 @@
+/**
+ * Dryads AI — Recurrence Rules
+ * Computes the next fire time of a cron expression or an iCalendar RRULE in a given IANA time zone,
+ * so "every morning at 8" means 8:00 on the user's wall clock across DST changes.
+ *
+ * Cron: standard 5 fields (minute hour day-of-month month day-of-week) with *, lists, ranges, steps
+ * and JAN–DEC / SUN–SAT names, plus @hourly, @daily, @weekly, @monthly and @yearly.
+ * RRULE: FREQ (HOURLY, DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (without ordinals),
+ * BYMONTHDAY (-1 = last day), BYMONTH, BYHOUR, BYMINUTE, COUNT and UNTIL.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** How far ahead to search before concluding a rule never fires again (e.g. Feb 30) */
+const MAX_SEARCH_DAYS = 366 * 5
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"]
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"]
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"]
+const FREQUENCIES = ["HOURLY", "DAILY", "WEEKLY", "MONTHLY", "YEARLY"]
+
+const CRON_MACROS = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+}
+
+export const DEFAULT_TIMEZONE = "UTC"
+
+// ── Time Zones ──────────────────────────────────────────────────────
+
+const formatters = new Map()
+
+function getFormatter(timeZone) {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimeZone(timeZone) {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Wall-clock fields of an instant in a time zone */
+function toZoned(date, timeZone) {
+  const parts = {}
+  for (const p of getFormatter(timeZone).formatToParts(date)) parts[p.type] = p.value
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+  }
+}
+
+/** Milliseconds the zone is ahead of UTC at an instant */
+function offsetAt(ms, timeZone) {
+  const z = toZoned(new Date(ms), timeZone)
+  const floored = ms - (((ms % 60_000) + 60_000) % 60_000)
+  return Date.UTC(z.year, z.month - 1, z.day, z.hour, z.minute) - floored
+}
+
+/** The instant a wall-clock time happens in a zone. Times skipped by a DST jump land just after it. */
+function fromZoned(year, month, day, hour, minute, timeZone) {
+  const wall = Date.UTC(year, month - 1, day, hour, minute)
+  const first = offsetAt(wall, timeZone)
+  const second = offsetAt(wall - first, timeZone)
+  if (first === second) return new Date(wall - first)
+
+  // Near a transition: keep the reading that shows this wall time, else the time was skipped
+  // and the pre-jump (smaller) offset puts it just after the jump
+  const candidate = wall - second
+  if (offsetAt(candidate, timeZone) === second) return new Date(candidate)
+  return new Date(wall - Math.min(first, second))
+}
+
+// ── Calendar Helpers ────────────────────────────────────────────────
+
+/** Civil date `days` after y-m-d, with its weekday (0 = Sunday) */
+function addDays(date, days) {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days))
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate(), weekday: d.getUTCDay() }
+}
+
+function daysBetween(a, b) {
+  return Math.round((Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / DAY_MS)
+}
+
+function daysInMonth(year, month) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+function range(from, to) {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i)
+}
+
+// ── Cron ────────────────────────────────────────────────────────────
+
+function parseCronField(field, min, max, names, label) {
+  const values = new Set()
+  const toNumber = (token) => {
+    const index = names ? names.indexOf(token.toUpperCase()) : -1
+    const n = index >= 0 ? index + (names === MONTH_NAMES ? 1 : 0) : Number(token)
+    if (!Number.isInteger(n) || n < min || n > max) throw new Error(`Invalid cron ${label}: "${token}"`)
+    return n
+  }
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/")
+    const step = stepPart === undefined ? 1 : Number(stepPart)
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid cron step in ${label}: "${part}"`)
+
+    let from, to
+    if (rangePart === "*") {
+      from = min
+      to = max
+    } else if (rangePart.includes("-")) {
+      const [a, b] = rangePart.split("-")
+      from = toNumber(a)
+      to = toNumber(b)
+      if (from > to) throw new Error(`Invalid cron range in ${label}: "${part}"`)
+    } else {
+      from = toNumber(rangePart)
+      to = stepPart === undefined ? from : max
+    }
+    for (let v = from; v <= to; v += step) values.add(v)
+  }
+  return values
+}
+
+function parseCron(expression) {
+  const source = CRON_MACROS[expression.trim().toLowerCase()] || expression
+  const fields = source.trim().split(/\s+/)
+  if (fields.length !== 5) throw new Error(`Cron expression must have 5 fields, got ${fields.length}: "${expression}"`)
+
+  const [minute, hour, dom, month, dow] = fields
+  const weekdays = parseCronField(dow, 0, 7, DAY_NAMES, "day of week")
+  if (weekdays.delete(7)) weekdays.add(0)
+
+  return {
+    type: "cron",
+    minutes: [...parseCronField(minute, 0, 59, null, "minute")].sort((a, b) => a - b),
+    hours: [...parseCronField(hour, 0, 23, null, "hour")].sort((a, b) => a - b),
+    monthDays: parseCronField(dom, 1, 31, null, "day of month"),
+    months: parseCronField(month, 1, 12, MONTH_NAMES, "month"),
+    weekdays,
+    // Cron quirk: when both day fields are restricted, a day matching either one fires
+    domRestricted: dom !== "*",
+    dowRestricted: dow !== "*",
+  }
+}
+
+function cronMatchesDay(rule, date) {
+  if (!rule.months.has(date.month)) return false
+  const domMatch = rule.monthDays.has(date.day)
+  const dowMatch = rule.weekdays.has(date.weekday)
+  if (rule.domRestricted && rule.dowRestricted) return domMatch || dowMatch
+  if (rule.domRestricted) return domMatch
+  if (rule.dowRestricted) return dowMatch
+  return true
+}
+
+// ── RRULE ───────────────────────────────────────────────────────────
+
+function parseIntList(value, min, max, key) {
+  return value.split(",").map((v) => {
+    const n = Number(v)
+    if (!Number.isInteger(n) || n < min || n > max || (n === 0 && min < 0)) throw new Error(`Invalid RRULE ${key}: "${v}"`)
+    return n
+  })
+}
+
+function parseUntil(value) {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/)
+  if (!m) throw new Error(`Invalid RRULE UNTIL: "${value}"`)
+  // Date-only UNTIL includes that whole day
+  return m[4]
+    ? new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]))
+    : new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], 23, 59, 59))
+}
+
+function parseRRule(rule) {
+  const parts = {}
+  for (const pair of rule.trim().replace(/^RRULE:/i, "").split(";")) {
+    if (!pair) continue
+    const [key, value] = pair.split("=")
+    if (!key || value === undefined) throw new Error(`Invalid RRULE part: "${pair}"`)
+    parts[key.toUpperCase()] = value.toUpperCase()
+  }
+
+  if (!FREQUENCIES.includes(parts.FREQ)) {
+    throw new Error(`RRULE FREQ must be one of ${FREQUENCIES.join(", ")}`)
+  }
+
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1
+  if (!Number.isInteger(interval) || interval < 1) throw new Error(`Invalid RRULE INTERVAL: "${parts.INTERVAL}"`)
+
+  let weekdays = null
+  if (parts.BYDAY) {
+    weekdays = new Set(parts.BYDAY.split(",").map((d) => {
+      const index = WEEKDAYS.indexOf(d)
+      if (index < 0) throw new Error(`Unsupported RRULE BYDAY value: "${d}" (ordinals like 1MO are not supported)`)
+      return index
+    }))
+  }
+
+  const count = parts.COUNT ? Number(parts.COUNT) : null
+  if (count !== null && (!Number.isInteger(count) || count < 1)) throw new Error(`Invalid RRULE COUNT: "${parts.COUNT}"`)
+
+  return {
+    type: "rrule",
+    freq: parts.FREQ,
+    interval,
+    weekdays,
+    monthDays: parts.BYMONTHDAY ? parseIntList(parts.BYMONTHDAY, -31, 31, "BYMONTHDAY") : null,
+    months: parts.BYMONTH ? new Set(parseIntList(parts.BYMONTH, 1, 12, "BYMONTH")) : null,
+    hours: parts.BYHOUR ? parseIntList(parts.BYHOUR, 0, 23, "BYHOUR").sort((a, b) => a - b) : null,
+    minutes: parts.BYMINUTE ? parseIntList(parts.BYMINUTE, 0, 59, "BYMINUTE").sort((a, b) => a - b) : null,
+    count,
+    until: parts.UNTIL ? parseUntil(parts.UNTIL) : null,
+  }
+}
+
+function monthDayMatches(monthDays, date) {
+  const last = daysInMonth(date.year, date.month)
+  return monthDays.some((d) => (d > 0 ? d : last + d + 1) === date.day)
+}
+
+/** Whether a day is in the rule, with BYxxx defaults taken from the start (RFC 5545) */
+function rruleMatchesDay(rule, date, start) {
+  if (date.year * 10000 + date.month * 100 + date.day < start.year * 10000 + start.month * 100 + start.day) return false
+  if (rule.months && !rule.months.has(date.month)) return false
+  if (rule.weekdays && !rule.weekdays.has(date.weekday)) return false
+  if (rule.monthDays && !monthDayMatches(rule.monthDays, date)) return false
+
+  const days = daysBetween(start, date)
+  switch (rule.freq) {
+    case "DAILY":
+      return days % rule.interval === 0
+    case "WEEKLY": {
+      // Weeks start on Monday; interval counts from the start's week
+      const startMonday = (start.weekday + 6) % 7
+      if (Math.floor((days + startMonday) / 7) % rule.interval !== 0) return false
+      return rule.weekdays ? true : date.weekday === start.weekday
+    }
+    case "MONTHLY": {
+      const months = (date.year - start.year) * 12 + (date.month - start.month)
+      if (months % rule.interval !== 0) return false
+      return rule.monthDays || rule.weekdays ? true : date.day === start.day
+    }
+    case "YEARLY": {
+      if ((date.year - start.year) % rule.interval !== 0) return false
+      if (!rule.months && date.month !== start.month) return false
+      return rule.monthDays || rule.weekdays ? true : date.day === start.day
+    }
+    default:
+      return true
+  }
+}
+
+function rruleTimes(rule, start) {
+  const hours = rule.hours || (rule.freq === "HOURLY" ? range(0, 23) : [start.hour])
+  const minutes = rule.minutes || [start.minute]
+  return { hours, minutes }
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Parse and validate a schedule's recurrence. Exactly one of cron or rrule must be given.
+ * @param {{ cron?: string|null, rrule?: string|null }} recurrence
+ * @returns {object} Parsed rule for nextOccurrence()
+ * @throws {Error} With a message suitable for showing to the user
+ */
+export function parseRecurrence({ cron, rrule }) {
+  if (cron && rrule) throw new Error("Give either a cron expression or an RRULE, not both")
+  if (cron) return parseCron(cron)
+  if (rrule) return parseRRule(rrule)
+  throw new Error("A cron expression or an RRULE is required")
+}
+
+/**
+ * The first occurrence strictly after `after`, or null if the rule has ended.
+ * @param {object} rule - From parseRecurrence()
+ * @param {{ after: Date, start: Date, timeZone?: string, runCount?: number }} opts
+ *   start anchors RRULE intervals and defaults; runCount is checked against COUNT
+ * @returns {Date|null}
+ */
+export function nextOccurrence(rule, { after, start, timeZone = DEFAULT_TIMEZONE, runCount = 0 }) {
+  if (rule.type === "rrule" && rule.count !== null && runCount >= rule.count) return null
+
+  const from = after >= start ? after : new Date(start.getTime() - 1)
+  const fromLocal = toZoned(from, timeZone)
+  const startZoned = toZoned(start, timeZone)
+  const startLocal = { ...addDays(startZoned, 0), hour: startZoned.hour, minute: startZoned.minute }
+  const times = rule.type === "cron" ? { hours: rule.hours, minutes: rule.minutes } : rruleTimes(rule, startLocal)
+
+  for (let i = 0; i <= MAX_SEARCH_DAYS; i++) {
+    const date = addDays(fromLocal, i)
+    const matches = rule.type === "cron" ? cronMatchesDay(rule, date) : rruleMatchesDay(rule, date, startLocal)
+    if (!matches) continue
+
+    for (const hour of times.hours) {
+      if (rule.type === "rrule" && rule.freq === "HOURLY") {
+        const hoursSinceStart = daysBetween(startLocal, date) * 24 + hour - startLocal.hour
+        if (hoursSinceStart < 0 || hoursSinceStart % rule.interval !== 0) continue
+      }
+      for (const minute of times.minutes) {
+        const candidate = fromZoned(date.year, date.month, date.day, hour, minute, timeZone)
+        if (candidate <= from) continue
+        if (rule.type === "rrule" && rule.until && candidate > rule.until) return null
+        return candidate
+      }
+    }
+  }
+  return null
+}
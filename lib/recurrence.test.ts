@@ -0,0 +1,135 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { nextOccurrence, parseRecurrence } from "./recurrence.mjs"
+
+/** The next `count` fire times after `after`, as ISO strings; null marks the end of the rule */
+function occurrences(
+  recurrence: { cron?: string; rrule?: string },
+  opts: { start: string; after: string; timeZone?: string },
+  count: number
+) {
+  const rule = parseRecurrence(recurrence)
+  const result: (string | null)[] = []
+  let after = new Date(opts.after)
+  for (let runCount = 0; runCount < count; runCount++) {
+    const next = nextOccurrence(rule, { after, start: new Date(opts.start), timeZone: opts.timeZone, runCount })
+    result.push(next ? next.toISOString() : null)
+    if (!next) break
+    after = next
+  }
+  return result
+}
+
+test("a local 08:00 rule stays at 08:00 across spring-forward", () => {
+  assert.deepEqual(
+    occurrences(
+      { rrule: "FREQ=DAILY;BYHOUR=8;BYMINUTE=0" },
+      { start: "2026-03-01T00:00:00Z", after: "2026-03-06T13:00:00Z", timeZone: "America/New_York" },
+      3
+    ),
+    // EST (UTC-5) until March 8, then EDT (UTC-4)
+    ["2026-03-07T13:00:00.000Z", "2026-03-08T12:00:00.000Z", "2026-03-09T12:00:00.000Z"]
+  )
+})
+
+test("a local 08:00 rule stays at 08:00 across fall-back", () => {
+  assert.deepEqual(
+    occurrences(
+      { cron: "0 8 * * *" },
+      { start: "2026-10-01T00:00:00Z", after: "2026-10-30T12:00:00Z", timeZone: "America/New_York" },
+      3
+    ),
+    ["2026-10-31T12:00:00.000Z", "2026-11-01T13:00:00.000Z", "2026-11-02T13:00:00.000Z"]
+  )
+})
+
+test("a wall time skipped by spring-forward fires just after the jump", () => {
+  const rule = parseRecurrence({ cron: "30 2 * * *" })
+  const start = new Date("2026-01-01T00:00:00Z")
+  // 02:30 doesn't exist on March 8 in New York; 03:30 EDT does
+  assert.equal(
+    nextOccurrence(rule, { after: new Date("2026-03-07T12:00:00Z"), start, timeZone: "America/New_York" })?.toISOString(),
+    "2026-03-08T07:30:00.000Z"
+  )
+  // Lisbon skips 01:00-02:00 instead, so 02:30 happens as usual
+  assert.equal(
+    nextOccurrence(rule, { after: new Date("2026-03-28T12:00:00Z"), start, timeZone: "Europe/Lisbon" })?.toISOString(),
+    "2026-03-29T01:30:00.000Z"
+  )
+})
+
+test("INTERVAL counts from the start's week", () => {
+  assert.deepEqual(
+    occurrences(
+      { rrule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;BYHOUR=9;BYMINUTE=0" },
+      { start: "2026-01-05T00:00:00Z", after: "2026-01-01T00:00:00Z" },
+      3
+    ),
+    ["2026-01-05T09:00:00.000Z", "2026-01-19T09:00:00.000Z", "2026-02-02T09:00:00.000Z"]
+  )
+})
+
+test("COUNT ends the rule after that many runs", () => {
+  assert.deepEqual(
+    occurrences(
+      { rrule: "FREQ=DAILY;COUNT=3;BYHOUR=8;BYMINUTE=0" },
+      { start: "2026-01-05T00:00:00Z", after: "2026-01-01T00:00:00Z" },
+      5
+    ),
+    ["2026-01-05T08:00:00.000Z", "2026-01-06T08:00:00.000Z", "2026-01-07T08:00:00.000Z", null]
+  )
+})
+
+test("a date-only UNTIL includes that whole day", () => {
+  assert.deepEqual(
+    occurrences(
+      { rrule: "FREQ=DAILY;UNTIL=20260107;BYHOUR=8;BYMINUTE=0" },
+      { start: "2026-01-05T00:00:00Z", after: "2026-01-01T00:00:00Z" },
+      5
+    ),
+    ["2026-01-05T08:00:00.000Z", "2026-01-06T08:00:00.000Z", "2026-01-07T08:00:00.000Z", null]
+  )
+})
+
+test("BYMONTHDAY=-1 is the last day of each month, leap years included", () => {
+  assert.deepEqual(
+    occurrences(
+      { rrule: "FREQ=MONTHLY;BYMONTHDAY=-1;BYHOUR=18;BYMINUTE=0" },
+      { start: "2028-01-15T00:00:00Z", after: "2028-01-01T00:00:00Z" },
+      4
+    ),
+    ["2028-01-31T18:00:00.000Z", "2028-02-29T18:00:00.000Z", "2028-03-31T18:00:00.000Z", "2028-04-30T18:00:00.000Z"]
+  )
+})
+
+test("cron fires on either day field when both are restricted", () => {
+  // The 13th or any Friday; April 13, 2026 is a Monday
+  assert.deepEqual(
+    occurrences({ cron: "0 9 13 * 5" }, { start: "2026-01-01T00:00:00Z", after: "2026-04-01T00:00:00Z" }, 4),
+    ["2026-04-03T09:00:00.000Z", "2026-04-10T09:00:00.000Z", "2026-04-13T09:00:00.000Z", "2026-04-17T09:00:00.000Z"]
+  )
+  assert.deepEqual(
+    occurrences({ cron: "0 9 13 * *" }, { start: "2026-01-01T00:00:00Z", after: "2026-04-01T00:00:00Z" }, 2),
+    ["2026-04-13T09:00:00.000Z", "2026-05-13T09:00:00.000Z"]
+  )
+})
+
+test("a rule that can never fire has no next occurrence", () => {
+  const rule = parseRecurrence({ cron: "0 0 30 2 *" })
+  assert.equal(nextOccurrence(rule, { after: new Date("2026-01-01T00:00:00Z"), start: new Date("2026-01-01T00:00:00Z") }), null)
+})
+
+test("rejects invalid recurrences", () => {
+  assert.throws(() => parseRecurrence({}), /cron expression or an RRULE is required/)
+  assert.throws(() => parseRecurrence({ cron: "0 8 * * *", rrule: "FREQ=DAILY" }), /not both/)
+  assert.throws(() => parseRecurrence({ cron: "0 8 * *" }), /must have 5 fields/)
+  assert.throws(() => parseRecurrence({ cron: "61 8 * * *" }), /Invalid cron minute/)
+  assert.throws(() => parseRecurrence({ cron: "0 8 * * 1-8" }), /Invalid cron day of week/)
+  assert.throws(() => parseRecurrence({ cron: "0 8 10-5 * *" }), /Invalid cron range/)
+  assert.throws(() => parseRecurrence({ rrule: "FREQ=SECONDLY" }), /FREQ must be one of/)
+  assert.throws(() => parseRecurrence({ rrule: "FREQ=DAILY;INTERVAL=0" }), /Invalid RRULE INTERVAL/)
+  assert.throws(() => parseRecurrence({ rrule: "FREQ=DAILY;COUNT=-1" }), /Invalid RRULE COUNT/)
+  assert.throws(() => parseRecurrence({ rrule: "FREQ=MONTHLY;BYDAY=1MO" }), /ordinals like 1MO are not supported/)
+  assert.throws(() => parseRecurrence({ rrule: "FREQ=MONTHLY;BYMONTHDAY=0" }), /Invalid RRULE BYMONTHDAY/)
+  assert.throws(() => parseRecurrence({ rrule: "FREQ=DAILY;UNTIL=tomorrow" }), /Invalid RRULE UNTIL/)
+})
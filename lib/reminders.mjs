@@ -0,0 +1,93 @@
+/**
+ * Dryads AI — Reminder Service
+ * Reading and managing user_reminder rows, shared by the reminder AI tools (gateway),
+ * the reminder scheduler and the /api/reminders routes.
+ *
+ * A reminder is pending until the scheduler delivers it, the user cancels it, or
+ * delivery fails too many times.
+ */
+
+import { CORE_ENGINE_CHANNELS } from "./connectors/core-engine.mjs"
+
+const REMINDER_COLUMNS = `id, reminder_text, remind_at, channel_type, channel_peer, delivered, delivered_at,
+  cancelled, failed_at, attempts, last_error, "createdAt"`
+
+/** Derived status for display: pending, delivered, cancelled or failed */
+function toReminder(row) {
+  const status = row.cancelled ? "cancelled" : row.delivered ? "delivered" : row.failed_at ? "failed" : "pending"
+  return {
+    id: row.id,
+    text: row.reminder_text,
+    remindAt: new Date(row.remind_at).toISOString(),
+    channelType: row.channel_type,
+    channelPeer: row.channel_peer,
+    status,
+    deliveredAt: row.delivered_at ? new Date(row.delivered_at).toISOString() : null,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    createdAt: new Date(row.createdAt).toISOString(),
+  }
+}
+
+/**
+ * Why reminders set on this channel can't be delivered, or null if they can. The scheduler runs
+ * in the gateway and sends through its connectors, so channels the core engine owns are out of reach.
+ * @param {string | null | undefined} channelType
+ * @param {string | null | undefined} channelPeer
+ * @returns {string | null}
+ */
+export function undeliverableReason(channelType, channelPeer) {
+  if (!channelType || !channelPeer) return "No originating channel to deliver the reminder to"
+  if (CORE_ENGINE_CHANNELS.has(channelType)) return `Reminders can't be delivered on ${channelType} yet`
+  return null
+}
+
+/**
+ * List a user's reminders, soonest first.
+ * @param {import("pg").Pool} pool
+ * @param {string} userId
+ * @param {{ includePast?: boolean, limit?: number }} [opts] - includePast adds delivered, cancelled and failed ones
+ */
+export async function listReminders(pool, userId, opts = {}) {
+  const res = await pool.query(
+    `SELECT ${REMINDER_COLUMNS} FROM "user_reminder"
+     WHERE "userId" = $1
+       AND ($2 OR (delivered = false AND cancelled = false AND failed_at IS NULL))
+     ORDER BY remind_at ASC
+     LIMIT $3`,
+    [userId, !!opts.includePast, opts.limit || 50]
+  )
+  return res.rows.map(toReminder)
+}
+
+/**
+ * Cancel a pending reminder.
+ * @returns {Promise<object|null>} The cancelled reminder, or null if it doesn't exist or is no longer pending
+ */
+export async function cancelReminder(pool, userId, reminderId) {
+  const res = await pool.query(
+    `UPDATE "user_reminder" SET cancelled = true
+     WHERE id = $1 AND "userId" = $2 AND delivered = false AND cancelled = false
+     RETURNING ${REMINDER_COLUMNS}`,
+    [reminderId, userId]
+  )
+  return res.rows[0] ? toReminder(res.rows[0]) : null
+}
+
+/**
+ * Move a reminder to a later time. Works on delivered and failed reminders too
+ * ("remind me again in 10 minutes"), which puts them back in the queue with fresh attempts.
+ * @param {Date} until
+ * @returns {Promise<object|null>} The snoozed reminder, or null if not found or cancelled
+ */
+export async function snoozeReminder(pool, userId, reminderId, until) {
+  const res = await pool.query(
+    `UPDATE "user_reminder"
+     SET remind_at = $3, delivered = false, delivered_at = NULL, failed_at = NULL,
+         attempts = 0, next_attempt_at = NULL, locked_at = NULL, last_error = NULL
+     WHERE id = $1 AND "userId" = $2 AND cancelled = false
+     RETURNING ${REMINDER_COLUMNS}`,
+    [reminderId, userId, until.toISOString()]
+  )
+  return res.rows[0] ? toReminder(res.rows[0]) : null
+}
@@ -0,0 +1,139 @@
+/**
+ * Dryads AI — Schedule Service
+ * Recurring tasks in user_schedule, shared by the set_reminder tool, the gateway scheduler
+ * (lib/gateway/reminder-scheduler.mjs) and the /api/schedules routes.
+ *
+ * A schedule fires on a cron expression or RRULE in the user's time zone and either sends a
+ * static message ("message") or runs a prompt through the AI pipeline ("prompt").
+ * next_run_at is NULL once the rule has no more occurrences.
+ */
+
+import { randomBytes } from "crypto"
+import { parseRecurrence, nextOccurrence, isValidTimeZone, DEFAULT_TIMEZONE } from "./recurrence.mjs"
+
+const cuid = () => "c" + randomBytes(12).toString("hex")
+
+export const SCHEDULE_KINDS = ["message", "prompt"]
+
+const SCHEDULE_COLUMNS = `id, kind, content, cron, rrule, timezone, start_at, channel_type, channel_peer,
+  paused, next_run_at, last_run_at, run_count, last_error, "createdAt"`
+
+function toSchedule(row) {
+  const iso = (v) => (v ? new Date(v).toISOString() : null)
+  return {
+    id: row.id,
+    kind: row.kind,
+    content: row.content,
+    cron: row.cron,
+    rrule: row.rrule,
+    timezone: row.timezone,
+    startAt: iso(row.start_at),
+    channelType: row.channel_type,
+    channelPeer: row.channel_peer,
+    paused: row.paused,
+    status: row.paused ? "paused" : row.next_run_at ? "active" : "ended",
+    nextRunAt: iso(row.next_run_at),
+    lastRunAt: iso(row.last_run_at),
+    runCount: row.run_count,
+    lastError: row.last_error,
+    createdAt: iso(row.createdAt),
+  }
+}
+
+/**
+ * Next fire time of a user_schedule row after `after`.
+ * @returns {Date|null} null when the rule is exhausted (COUNT/UNTIL) or can't be parsed
+ */
+export function computeNextRun(row, after = new Date()) {
+  try {
+    const rule = parseRecurrence({ cron: row.cron, rrule: row.rrule })
+    return nextOccurrence(rule, {
+      after,
+      start: new Date(row.start_at),
+      timeZone: row.timezone || DEFAULT_TIMEZONE,
+      runCount: row.run_count || 0,
+    })
+  } catch (err) {
+    console.error(`[Schedules] Invalid recurrence on ${row.id}:`, err.message)
+    return null
+  }
+}
+
+/**
+ * Create a schedule. Validates the rule and time zone up front so the caller can report errors.
+ * @param {import("pg").Pool} pool
+ * @param {string} userId
+ * @param {{ kind?: string, content: string, cron?: string, rrule?: string, timezone?: string, startAt?: Date,
+ *   channelType?: string, channelPeer?: string, connectionMode?: string }} input
+ * @throws {Error} If the recurrence, time zone or kind is invalid, or the rule never fires
+ */
+export async function createSchedule(pool, userId, input) {
+  const kind = input.kind || "message"
+  if (!SCHEDULE_KINDS.includes(kind)) throw new Error(`Schedule kind must be one of ${SCHEDULE_KINDS.join(", ")}`)
+  if (!input.content?.trim()) throw new Error("Schedule content is required")
+
+  const timezone = input.timezone || DEFAULT_TIMEZONE
+  if (!isValidTimeZone(timezone)) throw new Error(`Unknown time zone: "${timezone}"`)
+
+  const cron = input.cron?.trim() || null
+  const rrule = input.rrule?.trim() || null
+  parseRecurrence({ cron, rrule })
+
+  const startAt = input.startAt || new Date()
+  const row = { id: "new", cron, rrule, timezone, start_at: startAt, run_count: 0 }
+  const nextRunAt = computeNextRun(row)
+  if (!nextRunAt) throw new Error("This schedule has no upcoming occurrences")
+
+  const res = await pool.query(
+    `INSERT INTO "user_schedule"
+       (id, "userId", kind, content, cron, rrule, timezone, start_at, channel_type, channel_peer, connection_mode, next_run_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+     RETURNING ${SCHEDULE_COLUMNS}`,
+    [
+      cuid(), userId, kind, input.content.trim(), cron, rrule, timezone, startAt.toISOString(),
+      input.channelType || null, input.channelPeer || null, input.connectionMode || null, nextRunAt.toISOString(),
+    ]
+  )
+  return toSchedule(res.rows[0])
+}
+
+/** A user's schedules, next to fire first (paused and ended ones last) */
+export async function listSchedules(pool, userId) {
+  const res = await pool.query(
+    `SELECT ${SCHEDULE_COLUMNS} FROM "user_schedule"
+     WHERE "userId" = $1
+     ORDER BY paused ASC, next_run_at ASC NULLS LAST, "createdAt" DESC`,
+    [userId]
+  )
+  return res.rows.map(toSchedule)
+}
+
+/**
+ * Pause or resume a schedule. Resuming picks the next occurrence from now, so runs missed
+ * while paused are skipped rather than fired all at once.
+ * @returns {Promise<object|null>} The updated schedule, or null if not found
+ */
+export async function setSchedulePaused(pool, userId, scheduleId, paused) {
+  const current = await pool.query(
+    'SELECT id, cron, rrule, timezone, start_at, run_count FROM "user_schedule" WHERE id = $1 AND "userId" = $2',
+    [scheduleId, userId]
+  )
+  if (!current.rows[0]) return null
+
+  const nextRunAt = paused ? null : computeNextRun(current.rows[0])
+  const res = await pool.query(
+    `UPDATE "user_schedule"
+     SET paused = $3, next_run_at = CASE WHEN $3 THEN next_run_at ELSE $4::timestamptz END,
+         attempts = 0, locked_at = NULL, pending_reply = NULL, "updatedAt" = NOW()
+     WHERE id = $1 AND "userId" = $2
+     RETURNING ${SCHEDULE_COLUMNS}`,
+    [scheduleId, userId, paused, nextRunAt ? nextRunAt.toISOString() : null]
+  )
+  return res.rows[0] ? toSchedule(res.rows[0]) : null
+}
+
+/** Delete a schedule for good. Returns false if it doesn't exist. */
+export async function deleteSchedule(pool, userId, scheduleId) {
+  const res = await pool.query('DELETE FROM "user_schedule" WHERE id = $1 AND "userId" = $2', [scheduleId, userId])
+  return res.rowCount > 0
+}
@@ -0,0 +1,72 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import type { Pool } from "pg"
+import { computeNextRun, createSchedule } from "./schedules.mjs"
+
+/** Records INSERTs and returns the inserted row, as Postgres would with RETURNING */
+function stubPool() {
+  const inserts: unknown[][] = []
+  const pool = {
+    async query(_sql: string, params: unknown[]) {
+      inserts.push(params)
+      const [id, , kind, content, cron, rrule, timezone, startAt, channelType, channelPeer, , nextRunAt] = params
+      return {
+        rows: [{
+          id, kind, content, cron, rrule, timezone, start_at: startAt, channel_type: channelType, channel_peer: channelPeer,
+          paused: false, next_run_at: nextRunAt, last_run_at: null, run_count: 0, last_error: null, createdAt: new Date(),
+        }],
+      }
+    },
+  }
+  return { pool: pool as unknown as Pool, inserts }
+}
+
+test("computeNextRun follows the row's rule, time zone and run count", () => {
+  const row = {
+    id: "s1",
+    cron: null,
+    rrule: "FREQ=DAILY;COUNT=2;BYHOUR=8;BYMINUTE=0",
+    timezone: "Europe/Lisbon",
+    start_at: "2026-07-01T00:00:00Z",
+    run_count: 0,
+  }
+  // Lisbon is UTC+1 in summer
+  assert.equal(computeNextRun(row, new Date("2026-07-01T00:00:00Z"))?.toISOString(), "2026-07-01T07:00:00.000Z")
+  assert.equal(computeNextRun({ ...row, run_count: 2 }, new Date("2026-07-01T00:00:00Z")), null)
+})
+
+test("computeNextRun treats a row with an unparseable rule as ended", () => {
+  assert.equal(computeNextRun({ id: "s2", cron: "not cron", rrule: null, timezone: "UTC", start_at: "2026-01-01T00:00:00Z" }), null)
+})
+
+test("createSchedule stores the first run and the originating channel", async () => {
+  const { pool, inserts } = stubPool()
+  const startAt = new Date(Date.now() + 60_000)
+  const schedule = await createSchedule(pool, "user1", {
+    content: "  Stand-up  ",
+    cron: "0 9 * * 1-5",
+    timezone: "America/New_York",
+    startAt,
+    channelType: "telegram",
+    channelPeer: "42",
+  })
+
+  assert.equal(inserts.length, 1)
+  assert.equal(schedule.kind, "message")
+  assert.equal(schedule.content, "Stand-up")
+  assert.equal(schedule.status, "active")
+  assert.equal(schedule.channelType, "telegram")
+  assert.equal(schedule.nextRunAt, computeNextRun({ id: "new", cron: "0 9 * * 1-5", timezone: "America/New_York", start_at: startAt })?.toISOString())
+})
+
+test("createSchedule rejects invalid input without saving anything", async () => {
+  const { pool, inserts } = stubPool()
+  const base = { content: "Water the plants", rrule: "FREQ=DAILY" }
+
+  await assert.rejects(createSchedule(pool, "user1", { ...base, kind: "email" }), /kind must be one of/)
+  await assert.rejects(createSchedule(pool, "user1", { ...base, content: "   " }), /content is required/)
+  await assert.rejects(createSchedule(pool, "user1", { ...base, timezone: "Mars/Olympus" }), /Unknown time zone/)
+  await assert.rejects(createSchedule(pool, "user1", { content: "x", rrule: "FREQ=DAILY;BYHOUR=25" }), /Invalid RRULE BYHOUR/)
+  await assert.rejects(createSchedule(pool, "user1", { content: "x", cron: "0 0 30 2 *" }), /no upcoming occurrences/)
+  assert.equal(inserts.length, 0)
+})
@@ -0,0 +1,169 @@
+import { createHmac, createPublicKey, timingSafeEqual, verify, JsonWebKey } from "crypto"
+import { pool } from "./db"
+
+/** Redelivered webhooks older than this can no longer be detected as duplicates */
+const DEDUP_RETENTION_DAYS = 7
+
+/** Constant-time string comparison, so secrets can't be recovered by timing responses */
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a)
+  const bufB = Buffer.from(b)
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB)
+}
+
+/**
+ * Verifies a webhook's shared secret.
+ * - "hmac-sha256": `provided` is a signature header like Meta's X-Hub-Signature-256
+ *   ("sha256=<hex>"), checked against an HMAC of the raw request body.
+ * - "token": `provided` must equal the secret itself, e.g. Telegram's X-Telegram-Bot-Api-Secret-Token.
+ * Missing headers or secrets always fail, so unsigned requests are rejected.
+ */
+export function verifyWebhookSecret(
+  scheme: "hmac-sha256" | "token",
+  provided: string | null,
+  secret: string | undefined,
+  rawBody = ""
+): boolean {
+  if (!provided || !secret) return false
+
+  if (scheme === "token") return safeEqual(provided, secret)
+
+  const expected = "sha256=" + createHmac("sha256", secret).update(rawBody, "utf8").digest("hex")
+  return safeEqual(provided, expected)
+}
+
+/** Slack rejects replays older than this, and so do we */
+const SLACK_MAX_SKEW_SECONDS = 5 * 60
+
+/**
+ * Verifies a Slack Events API request: X-Slack-Signature is "v0=" + HMAC-SHA256 of
+ * "v0:<X-Slack-Request-Timestamp>:<raw body>", and the timestamp must be recent.
+ */
+export function verifySlackSignature(
+  signature: string | null,
+  timestamp: string | null,
+  secret: string | undefined,
+  rawBody: string
+): boolean {
+  if (!signature || !timestamp || !secret) return false
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SLACK_MAX_SKEW_SECONDS) return false
+
+  const expected = "v0=" + createHmac("sha256", secret).update(`v0:${timestamp}:${rawBody}`, "utf8").digest("hex")
+  return safeEqual(signature, expected)
+}
+
+/** Issuer of tokens the Bot Framework channels (Teams etc.) send with each activity */
+const BOT_FRAMEWORK_ISSUER = "https://api.botframework.com"
+const BOT_FRAMEWORK_METADATA = "https://login.botframework.com/v1/.well-known/openidconfiguration"
+/** Azure AD issuers of tokens the Bot Framework Emulator sends when given an app ID and password */
+const EMULATOR_ISSUERS = [
+  "https://sts.windows.net/d6d49420-f39b-4df7-a1dc-d59a935871db/",
+  "https://login.microsoftonline.com/d6d49420-f39b-4df7-a1dc-d59a935871db/v2.0",
+  "https://sts.windows.net/f8cdef31-a31e-4b4a-93e4-5f571e91255a/",
+  "https://login.microsoftonline.com/f8cdef31-a31e-4b4a-93e4-5f571e91255a/v2.0",
+]
+const EMULATOR_METADATA = "https://login.microsoftonline.com/botframework.com/v2.0/.well-known/openid-configuration"
+const JWT_CLOCK_SKEW_SECONDS = 5 * 60
+const SIGNING_KEYS_TTL_MS = 24 * 60 * 60 * 1000
+
+export interface BotFrameworkClaims {
+  /** The bot's Microsoft App ID */
+  aud: string
+  iss: string
+  exp: number
+  nbf?: number
+  /** Set on channel tokens; must match the activity's serviceUrl */
+  serviceurl?: string
+}
+
+type SigningKey = JsonWebKey & { kid?: string; endorsements?: string[] }
+
+const signingKeys = new Map<string, { keys: SigningKey[]; fetchedAt: number }>()
+
+/** The OpenID metadata's signing keys, refetched daily or when a token names an unknown key */
+async function getSigningKey(metadataUrl: string, kid: string): Promise<SigningKey | undefined> {
+  const cached = signingKeys.get(metadataUrl)
+  if (cached) {
+    const key = cached.keys.find((k) => k.kid === kid)
+    const age = Date.now() - cached.fetchedAt
+    if (key && age < SIGNING_KEYS_TTL_MS) return key
+    // Rotated keys show up under new kids, but unknown kids don't trigger more than one refetch a minute
+    if (!key && age < 60_000) return undefined
+  }
+
+  const metadata = await fetch(metadataUrl, { signal: AbortSignal.timeout(10000) }).then((r) => r.json())
+  const jwks = await fetch(metadata.jwks_uri, { signal: AbortSignal.timeout(10000) }).then((r) => r.json())
+  const keys: SigningKey[] = jwks.keys || []
+  signingKeys.set(metadataUrl, { keys, fetchedAt: Date.now() })
+  return keys.find((k) => k.kid === kid)
+}
+
+/**
+ * Verifies the bearer token on an incoming Bot Framework activity: an RS256 JWT signed with
+ * one of Microsoft's published keys, from the Bot Framework (or the Emulator), currently valid,
+ * and — for channel tokens — endorsed for the activity's channel and issued for its serviceUrl.
+ * Returns the claims so the caller can match `aud` against its bots' App IDs; null if invalid.
+ */
+export async function verifyBotFrameworkToken(
+  authorization: string | null,
+  activity: { channelId?: string; serviceUrl?: string }
+): Promise<BotFrameworkClaims | null> {
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1]
+  const [encodedHeader, encodedClaims, signature] = token?.split(".") || []
+  if (!encodedHeader || !encodedClaims || !signature) return null
+
+  let header: { alg?: string; kid?: string }
+  let claims: BotFrameworkClaims
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, "base64url").toString("utf8"))
+    claims = JSON.parse(Buffer.from(encodedClaims, "base64url").toString("utf8"))
+  } catch {
+    return null
+  }
+  if (header.alg !== "RS256" || !header.kid) return null
+
+  const isChannel = claims.iss === BOT_FRAMEWORK_ISSUER
+  if (!isChannel && !EMULATOR_ISSUERS.includes(claims.iss)) return null
+
+  const now = Date.now() / 1000
+  if (!claims.exp || claims.exp < now - JWT_CLOCK_SKEW_SECONDS) return null
+  if (claims.nbf && claims.nbf > now + JWT_CLOCK_SKEW_SECONDS) return null
+  if (isChannel && claims.serviceurl && claims.serviceurl !== activity.serviceUrl) return null
+
+  try {
+    const key = await getSigningKey(isChannel ? BOT_FRAMEWORK_METADATA : EMULATOR_METADATA, header.kid)
+    if (!key) return null
+    if (isChannel && key.endorsements && activity.channelId && !key.endorsements.includes(activity.channelId)) return null
+
+    const valid = verify(
+      "RSA-SHA256",
+      Buffer.from(`${encodedHeader}.${encodedClaims}`),
+      createPublicKey({ key, format: "jwk" }),
+      Buffer.from(signature, "base64url")
+    )
+    return valid ? claims : null
+  } catch (err) {
+    console.error("[Teams] Token verification error:", err instanceof Error ? err.message : err)
+    return null
+  }
+}
+
+/**
+ * Records an inbound event ID (e.g. a WhatsApp message ID) and reports whether this is the
+ * first time it was seen. Providers redeliver webhooks, so handlers should skip repeats.
+ */
+export async function claimWebhookEvent(source: string, eventId: string): Promise<boolean> {
+  const res = await pool.query(
+    'INSERT INTO webhook_event (source, "eventId") VALUES ($1, $2) ON CONFLICT DO NOTHING RETURNING "eventId"',
+    [source, eventId]
+  )
+
+  // Opportunistic cleanup; the primary key keeps lookups fast regardless
+  if (Math.random() < 0.01) {
+    pool
+      .query(`DELETE FROM webhook_event WHERE "receivedAt" < NOW() - INTERVAL '${DEDUP_RETENTION_DAYS} days'`)
+      .catch(() => {})
+  }
+
+  return res.rows.length > 0
+}
@@ -0,0 +1,300 @@
+/**
+ * WhatsApp Business Cloud API — sending and delivery tracking
+ *
+ * Outbound Message rows store the WhatsApp message ID ("externalId") returned on send.
+ * Meta later reports sent/delivered/read/failed for that ID in the webhook's `statuses`,
+ * which are recorded on the row and pushed to the owner's inbox in realtime.
+ *
+ * Free-form messages are only allowed within 24 hours of the customer's last message
+ * (the customer service window). Outside it, only approved templates can be sent;
+ * templates are synced from Meta into whatsapp_template.
+ */
+
+import { pool } from "../db"
+import { emitToUser } from "../realtime/socket-server"
+import { WA_API, waSend as sendText, getSessionWindow as querySessionWindow } from "./session.mjs"
+
+export { WA_API }
+
+export type DeliveryStatus = "sent" | "delivered" | "read" | "failed"
+
+/** Statuses can arrive out of order (read before delivered); a message never moves to a lower rank */
+const STATUS_RANK: Record<DeliveryStatus, number> = { sent: 1, delivered: 2, read: 3, failed: 4 }
+
+export interface WaSendResult {
+  ok: boolean
+  /** WhatsApp message IDs, one per chunk sent */
+  ids: string[]
+  error?: string
+}
+
+export interface WaTemplate {
+  name: string
+  language: string
+  category: string
+  status: string
+  components: WaTemplateComponent[]
+}
+
+interface WaTemplateComponent {
+  type: string
+  format?: string
+  text?: string
+  [key: string]: unknown
+}
+
+/** Sends text, split into chunks. Stops at the first failed chunk so the rest don't arrive out of context. */
+export async function waSend(phoneNumberId: string, accessToken: string, to: string, text: string): Promise<WaSendResult> {
+  return sendText(phoneNumberId, accessToken, to, text)
+}
+
+/**
+ * Records the result of sending a stored outbound message. The last chunk's ID is tracked:
+ * once it is delivered or read, the whole reply is.
+ */
+export async function recordSendResult(messageId: string, result: WaSendResult) {
+  const status: DeliveryStatus = result.ok ? "sent" : "failed"
+  const res = await pool.query(
+    `UPDATE "Message" m
+     SET "externalId" = COALESCE($2, m."externalId"), "deliveryStatus" = $3, "deliveryError" = $4, "deliveryUpdatedAt" = NOW()
+     FROM "Conversation" c
+     WHERE m.id = $1 AND c.id = m."conversationId"
+     RETURNING m.id, m."deliveryStatus", m."deliveryError", m."deliveryUpdatedAt", c."userId", c."channelPeer"`,
+    [messageId, result.ids[result.ids.length - 1] || null, status, result.error || null]
+  )
+  if (res.rows[0]) notifyInbox(res.rows[0])
+}
+
+/**
+ * Applies a status from the webhook to the message it refers to. Returns false if no
+ * tracked message has that ID (e.g. messages sent from outside this app).
+ */
+export async function applyStatusUpdate(
+  externalId: string,
+  status: DeliveryStatus,
+  at: Date,
+  error?: string
+): Promise<boolean> {
+  const rank = STATUS_RANK[status]
+  if (!rank) return false
+
+  const res = await pool.query(
+    `UPDATE "Message" m
+     SET "deliveryStatus" = $2, "deliveryError" = $3, "deliveryUpdatedAt" = $4
+     FROM "Conversation" c
+     WHERE m."externalId" = $1 AND c.id = m."conversationId"
+       AND (CASE m."deliveryStatus"
+              WHEN 'sent' THEN 1 WHEN 'delivered' THEN 2 WHEN 'read' THEN 3 WHEN 'failed' THEN 4 ELSE 0
+            END) < $5
+     RETURNING m.id, m."deliveryStatus", m."deliveryError", m."deliveryUpdatedAt", c."userId", c."channelPeer"`,
+    [externalId, status, error || null, at.toISOString(), rank]
+  )
+  if (res.rows[0]) notifyInbox(res.rows[0])
+  return res.rows.length > 0
+}
+
+function notifyInbox(row: {
+  id: string
+  deliveryStatus: DeliveryStatus
+  deliveryError: string | null
+  deliveryUpdatedAt: Date
+  userId: string
+  channelPeer: string
+}) {
+  emitToUser(row.userId, "inbox:delivery", {
+    messageId: row.id,
+    channelType: "whatsapp",
+    peerId: row.channelPeer,
+    status: row.deliveryStatus,
+    error: row.deliveryError,
+    timestamp: new Date(row.deliveryUpdatedAt).toISOString(),
+  })
+}
+
+/**
+ * Sends an approved template. `variables` fill the body's {{1}}, {{2}}, ... placeholders in order.
+ * Templates can be sent at any time, so this is how a closed session window is reopened.
+ */
+export async function waSendTemplate(
+  phoneNumberId: string,
+  accessToken: string,
+  to: string,
+  template: { name: string; language: string },
+  variables: string[] = []
+): Promise<WaSendResult> {
+  const res = await fetch(`${WA_API}/${phoneNumberId}/messages`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      messaging_product: "whatsapp",
+      to,
+      type: "template",
+      template: {
+        name: template.name,
+        language: { code: template.language },
+        components: variables.length
+          ? [{ type: "body", parameters: variables.map((text) => ({ type: "text", text })) }]
+          : undefined,
+      },
+    }),
+  })
+
+  const data = await res.json().catch(() => ({}))
+  if (data.error || !res.ok) {
+    const error = data.error?.message || `HTTP ${res.status}`
+    console.error(`[WA] Template ${template.name} send failed:`, error)
+    return { ok: false, ids: [], error }
+  }
+  return { ok: true, ids: data.messages?.[0]?.id ? [data.messages[0].id] : [] }
+}
+
+/** The template's body text, from which placeholders and the stored message content are derived */
+export function getTemplateBody(template: WaTemplate): string {
+  return template.components.find((c) => c.type.toUpperCase() === "BODY")?.text || ""
+}
+
+/** Number of distinct {{n}} placeholders in the template body */
+export function countTemplateVariables(template: WaTemplate): number {
+  const indexes = new Set([...getTemplateBody(template).matchAll(/\{\{(\d+)\}\}/g)].map((m) => m[1]))
+  return indexes.size
+}
+
+/** Template body with {{n}} replaced by the nth variable, as the recipient will see it */
+export function renderTemplate(template: WaTemplate, variables: string[]): string {
+  return getTemplateBody(template).replace(/\{\{(\d+)\}\}/g, (match, n) => variables[Number(n) - 1] ?? match)
+}
+
+/**
+ * Replaces the user's stored templates with the current list from their WhatsApp Business
+ * Account. Every status is kept so the UI can show pending/rejected ones; only APPROVED can be sent.
+ */
+export async function syncTemplates(userId: string, businessAccountId: string, accessToken: string): Promise<WaTemplate[]> {
+  const templates: WaTemplate[] = []
+  let url: string | undefined =
+    `${WA_API}/${businessAccountId}/message_templates?fields=name,language,status,category,components&limit=100`
+
+  while (url) {
+    const res: Response = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } })
+    const data = await res.json()
+    if (data.error || !res.ok) throw new Error(`Template sync failed: ${data.error?.message || `HTTP ${res.status}`}`)
+    templates.push(...(data.data || []))
+    url = data.paging?.next
+  }
+
+  const client = await pool.connect()
+  try {
+    await client.query("BEGIN")
+    await client.query('DELETE FROM whatsapp_template WHERE "userId" = $1', [userId])
+    for (const t of templates) {
+      await client.query(
+        `INSERT INTO whatsapp_template ("userId", name, language, category, status, components)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [userId, t.name, t.language, t.category, t.status, JSON.stringify(t.components || [])]
+      )
+    }
+    await client.query("COMMIT")
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => {})
+    throw err
+  } finally {
+    client.release()
+  }
+
+  console.log(`[WA] Synced ${templates.length} template(s) for user ${userId}`)
+  return templates
+}
+
+/** Stored templates; pass `approvedOnly` for the ones that can be sent */
+export async function listTemplates(userId: string, approvedOnly = false): Promise<WaTemplate[]> {
+  const res = await pool.query(
+    `SELECT name, language, category, status, components FROM whatsapp_template
+     WHERE "userId" = $1 AND ($2 = false OR status = 'APPROVED')
+     ORDER BY name, language`,
+    [userId, approvedOnly]
+  )
+  return res.rows
+}
+
+export async function findTemplate(userId: string, name: string, language?: string): Promise<WaTemplate | null> {
+  const templates = (await listTemplates(userId, true)).filter((t) => t.name === name)
+  return templates.find((t) => t.language === language) || (language ? null : templates[0]) || null
+}
+
+/**
+ * The customer service window for a contact: open until 24 hours after their last inbound
+ * message. Contacts who never wrote in have no window, so only templates reach them.
+ */
+export async function getSessionWindow(
+  userId: string,
+  peerId: string
+): Promise<{ open: boolean; expiresAt: Date | null }> {
+  return querySessionWindow(pool, userId, peerId)
+}
+
+export type BusinessMessage =
+  | { text: string }
+  | { template: { name: string; language?: string; variables?: string[] } }
+
+export interface BusinessSendResult extends WaSendResult {
+  /** What the recipient sees (templates rendered with their variables), for storing the message */
+  content?: string
+  code?: "not_configured" | "window_expired" | "template_not_found" | "invalid_variables"
+}
+
+/**
+ * Sends free text or a template from the user's business number. Free text outside the
+ * session window is refused with code "window_expired" instead of failing at Meta.
+ */
+export async function sendBusinessMessage(userId: string, peerId: string, message: BusinessMessage): Promise<BusinessSendResult> {
+  const channel = await getUserBusinessChannel(userId)
+  if (!channel?.phoneNumberId || !channel.accessToken) {
+    return { ok: false, ids: [], code: "not_configured", error: "WhatsApp Business channel is not configured" }
+  }
+
+  if ("text" in message) {
+    const window = await getSessionWindow(userId, peerId)
+    if (!window.open) {
+      return {
+        ok: false,
+        ids: [],
+        code: "window_expired",
+        error: window.expiresAt
+          ? `The 24-hour customer service window closed at ${window.expiresAt.toISOString()}. Send an approved template instead.`
+          : "This contact hasn't messaged you yet, so only an approved template can be sent.",
+      }
+    }
+    const result = await waSend(channel.phoneNumberId, channel.accessToken, peerId, message.text)
+    return { ...result, content: message.text }
+  }
+
+  const { name, language, variables = [] } = message.template
+  const template = await findTemplate(userId, name, language)
+  if (!template) {
+    return { ok: false, ids: [], code: "template_not_found", error: `No approved template "${name}"${language ? ` (${language})` : ""}` }
+  }
+  const expected = countTemplateVariables(template)
+  if (variables.length !== expected || variables.some((v) => !String(v).trim())) {
+    return { ok: false, ids: [], code: "invalid_variables", error: `Template "${name}" needs ${expected} non-empty variable(s)` }
+  }
+
+  const result = await waSendTemplate(channel.phoneNumberId, channel.accessToken, peerId, template, variables)
+  return { ...result, content: renderTemplate(template, variables) }
+}
+
+/** The user's business-mode WhatsApp channel config, if one is enabled */
+export async function getUserBusinessChannel(
+  userId: string
+): Promise<{ phoneNumberId?: string; accessToken?: string; businessAccountId?: string } | null> {
+  const res = await pool.query(
+    `SELECT config FROM "UserChannel"
+     WHERE "userId" = $1 AND "channelType" = 'whatsapp' AND COALESCE("connectionMode", 'business') = 'business' AND enabled = true
+     LIMIT 1`,
+    [userId]
+  )
+  if (!res.rows[0]) return null
+  const config = res.rows[0].config
+  return typeof config === "string" ? JSON.parse(config || "{}") : config || {}
+}
@@ -0,0 +1,75 @@
+/**
+ * WhatsApp Business Cloud API — text sending and the customer service window.
+ * Shared by lib/whatsapp/cloud-api.ts and the gateway process (reminders, schedules),
+ * which runs plain Node and can't load the TypeScript module.
+ */
+
+export const WA_API = "https://graph.facebook.com/v21.0"
+
+/** WhatsApp caps text bodies at 4096 characters */
+const MAX_CHUNK_LENGTH = 4000
+
+const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Sends text, split into chunks. Stops at the first failed chunk so the rest don't arrive out of context.
+ * @param {string} phoneNumberId
+ * @param {string} accessToken
+ * @param {string} to
+ * @param {string} text
+ * @returns {Promise<{ ok: boolean, ids: string[], error?: string }>}
+ */
+export async function waSend(phoneNumberId, accessToken, to, text) {
+  /** @type {string[]} */
+  const ids = []
+
+  for (let i = 0; i < text.length; i += MAX_CHUNK_LENGTH) {
+    const res = await fetch(`${WA_API}/${phoneNumberId}/messages`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        messaging_product: "whatsapp",
+        to,
+        type: "text",
+        text: { body: text.slice(i, i + MAX_CHUNK_LENGTH) },
+      }),
+    })
+
+    const data = await res.json().catch(() => ({}))
+    if (data.error || !res.ok) {
+      const error = data.error?.message || `HTTP ${res.status}`
+      console.error("[WA] Send failed:", error)
+      return { ok: false, ids, error }
+    }
+    if (data.messages?.[0]?.id) ids.push(data.messages[0].id)
+  }
+
+  return { ok: true, ids }
+}
+
+/**
+ * The customer service window for a contact: open until 24 hours after their last inbound
+ * message. Contacts who never wrote in have no window, so only templates reach them.
+ * @param {import("pg").Pool} pool
+ * @param {string} userId
+ * @param {string} peerId
+ * @returns {Promise<{ open: boolean, expiresAt: Date | null }>}
+ */
+export async function getSessionWindow(pool, userId, peerId) {
+  const res = await pool.query(
+    `SELECT MAX(m."createdAt") AS "lastInboundAt"
+     FROM "Message" m
+     JOIN "Conversation" c ON m."conversationId" = c.id
+     WHERE c."userId" = $1 AND c."channelType" = 'whatsapp' AND c."channelPeer" = $2
+       AND m.role = 'user' AND COALESCE(m.direction, 'inbound') = 'inbound'`,
+    [userId, peerId]
+  )
+  const last = res.rows[0]?.lastInboundAt
+  if (!last) return { open: false, expiresAt: null }
+
+  const expiresAt = new Date(new Date(last).getTime() + SESSION_WINDOW_MS)
+  return { open: expiresAt.getTime() > Date.now(), expiresAt }
+}